@@ -1,35 +1,210 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { Mic, Square, Server, FileText, CheckCircle, Radio, Mail, Ticket, Send, Lightbulb, AlertCircle } from 'lucide-react';
+import { Mic, Square, Server, FileText, CheckCircle, Radio, Mail, Ticket, Send, AlertCircle, List, Keyboard, Paperclip, Monitor, Disc } from 'lucide-react';
 import { LiveManager } from './services/liveManager';
+import { FakeContentGenerator, FakeLiveTransport, loadFakeLiveScript } from './services/fakeLiveTransport';
+import { ticketApi } from './services/ticketApiClient';
+import { ticketRepository, EMAIL_DELIVERY_LABELS } from './services/ticketStore';
 import Visualizer from './components/Visualizer';
-import { TicketData, ConnectionState, EmailDraft, SolutionData } from './types';
+import MyTicketsPanel from './components/MyTicketsPanel';
+import TicketStatusCard from './components/TicketStatusCard';
+import SolutionCard from './components/SolutionCard';
+import PriorityBadge from './components/PriorityBadge';
+import TranscriptPanel from './components/TranscriptPanel';
+import AttachmentPanel from './components/AttachmentPanel';
+import ScreenShareControls from './components/ScreenShareControls';
+import RecordingConsent from './components/RecordingConsent';
+import EmailCodePrompt from './components/EmailCodePrompt';
+import FlowConfigProblems from './components/FlowConfigProblems';
+import { appendTranscriptToBody } from './services/transcript';
+import { ConversationFlowError, loadConversationFlow } from './services/conversationFlow';
+import { describeAttachments } from './services/attachments';
+import { DEFAULT_SCREEN_CAPTURE_OPTIONS } from './services/screenCapture';
+import { CATEGORY_LABELS } from './services/classification';
+import { checkEmail } from './services/emailPolicy';
+import { emailDomains, emailVerification } from './services/emailVerification';
+import { ConnectionState, EmailDraft, SolutionData, StoredTicket, TicketAttachment, TranscriptEntry, InteractionMode, ScreenShareState, VerifiedEmail, EmailCodeRequest } from './types';
+
+type RightPanelTab = 'session' | 'tickets';
+
+// VITE_FAKE_LIVE=<fixture> plays a scripted call from fixtures/live instead of calling the Gemini API
+const createLiveManager = async (): Promise<LiveManager> => {
+  const fixture = import.meta.env.VITE_FAKE_LIVE;
+  if (!fixture) return new LiveManager();
+  const script = await loadFakeLiveScript(fixture);
+  return new LiveManager({ live: new FakeLiveTransport(script), content: new FakeContentGenerator(script.content ?? []) });
+};
+
+// Problems in config/conversation-flow.json, or none when it is valid
+const checkConversationFlow = (): string[] => {
+  try {
+    loadConversationFlow();
+    return [];
+  } catch (e) {
+    if (e instanceof ConversationFlowError) return e.problems;
+    throw e;
+  }
+};
+
+// Marks a value that is not in the municipality/system catalog
+const UnverifiedBadge = () => (
+  <span className="ml-2 align-middle text-[10px] font-semibold px-2 py-0.5 rounded-full border bg-amber-50 text-amber-700 border-amber-200">
+    No está en el catálogo
+  </span>
+);
 
 function App() {
   const [connectionState, setConnectionState] = useState<ConnectionState>(ConnectionState.DISCONNECTED);
   const [volume, setVolume] = useState(0);
-  const [latestTicket, setLatestTicket] = useState<TicketData | null>(null);
+  const [latestTicket, setLatestTicket] = useState<StoredTicket | null>(null);
   const [emailDraft, setEmailDraft] = useState<EmailDraft | null>(null);
   const [solutions, setSolutions] = useState<SolutionData | null>(null);
+  const [foundTicket, setFoundTicket] = useState<StoredTicket | null>(null);
+  const [transcript, setTranscript] = useState<TranscriptEntry[]>([]);
+  const [attachments, setAttachments] = useState<TicketAttachment[]>([]);
+  const [isDraggingFile, setIsDraggingFile] = useState(false);
+  const [screenShare, setScreenShare] = useState<ScreenShareState>('inactiva');
+  const [mode, setMode] = useState<InteractionMode>('voz');
+  // Opt-in: the consent notice is shown before a recorded call starts
+  const [recordCall, setRecordCall] = useState(false);
+  const [showRecordingConsent, setShowRecordingConsent] = useState(false);
+  const [isRecording, setIsRecording] = useState(false);
+  const [warningMessage, setWarningMessage] = useState<string>('');
   const [email, setEmail] = useState('');
+  const [emailError, setEmailError] = useState('');
+  // Cleared when the address changes, so a new one is checked again
+  const [verifiedEmail, setVerifiedEmail] = useState<VerifiedEmail | null>(null);
+  const [codeRequest, setCodeRequest] = useState<EmailCodeRequest | null>(null);
+  const [codeError, setCodeError] = useState('');
+  const [reconnectAttempt, setReconnectAttempt] = useState<{ attempt: number; maxAttempts: number } | null>(null);
   const [errorMessage, setErrorMessage] = useState<string>('');
+  const [flowProblems, setFlowProblems] = useState<string[]>(checkConversationFlow);
+  const [rightPanelTab, setRightPanelTab] = useState<RightPanelTab>('session');
   const liveManagerRef = useRef<LiveManager | null>(null);
 
+  const isInputDisabled = connectionState !== ConnectionState.DISCONNECTED && connectionState !== ConnectionState.ERROR;
+
+  // Shown under the field while typing; the full check runs on connect
+  const emailCheck = checkEmail(email, emailDomains);
+
+  const handleEmailChange = (value: string) => {
+    setEmail(value);
+    setEmailError('');
+    if (verifiedEmail && value.trim().toLowerCase() !== verifiedEmail.correo) {
+      setVerifiedEmail(null);
+    }
+  };
+
+  // The address is checked before a billable session is opened. The server
+  // session it opens expires, and then the address is verified again.
   const handleConnect = async () => {
     if (!email) return;
+    const check = checkEmail(email, emailDomains);
+    if (!check.valid) {
+      setEmailError(check.reason!);
+      return;
+    }
+    setEmailError('');
+    const sessionOpen = verifiedEmail?.sessionExpiresAt && Date.parse(verifiedEmail.sessionExpiresAt) > Date.now();
+    if (verifiedEmail?.correo === check.correo && sessionOpen) {
+      beginCall(verifiedEmail);
+    } else if (emailDomains.requireCode) {
+      requestCode(check.correo);
+    } else {
+      try {
+        const caller = await emailVerification.openSession(check.correo);
+        setVerifiedEmail(caller);
+        beginCall(caller);
+      } catch (e: any) {
+        setEmailError(e.message);
+      }
+    }
+  };
+
+  const requestCode = async (correo: string) => {
+    try {
+      const request = await emailVerification.requestCode(correo);
+      setCodeError('');
+      setCodeRequest(request);
+    } catch (e: any) {
+      // Resending reports in the code prompt, the first request under the email field
+      if (codeRequest) {
+        setCodeError(e.message);
+      } else {
+        setEmailError(e.message);
+      }
+    }
+  };
+
+  const handleConfirmCode = async (code: string) => {
+    if (!codeRequest) return;
+    try {
+      const caller = await emailVerification.confirmCode(codeRequest.correo, code);
+      setCodeRequest(null);
+      setCodeError('');
+      setVerifiedEmail(caller);
+      beginCall(caller);
+    } catch (e: any) {
+      setCodeError(e.message);
+    }
+  };
+
+  const beginCall = (caller: VerifiedEmail) => {
+    if (recordCall) {
+      setShowRecordingConsent(true);
+      return;
+    }
+    startSession(caller);
+  };
+
+  // Only reached after beginCall, so the address is already verified
+  const handleRecordingConsent = (accepted: boolean) => {
+    setShowRecordingConsent(false);
+    if (!accepted) setRecordCall(false);
+    startSession(verifiedEmail!, accepted ? new Date().toISOString() : undefined);
+  };
+
+  const startSession = async (caller: VerifiedEmail, recordingConsentAt?: string) => {
     setErrorMessage(''); // Clear previous errors
+    setWarningMessage('');
     try {
       setConnectionState(ConnectionState.CONNECTING);
       setLatestTicket(null);
       setEmailDraft(null);
       setSolutions(null);
+      setFoundTicket(null);
+      setTranscript([]);
+      setAttachments([]);
+      setScreenShare('inactiva');
+      setReconnectAttempt(null);
+      setRightPanelTab('session');
       
-      const manager = new LiveManager();
+      let manager: LiveManager;
+      try {
+        manager = await createLiveManager();
+      } catch (e: any) {
+        // e.g. the conversation flow uses a tool that is not available
+        console.error(e);
+        if (e instanceof ConversationFlowError) setFlowProblems(e.problems);
+        else setErrorMessage(e.message || 'No se pudo iniciar la sesión.');
+        setConnectionState(ConnectionState.DISCONNECTED);
+        return;
+      }
       liveManagerRef.current = manager;
 
       manager.onVolumeChange = (vol) => setVolume(vol);
       manager.onTicketCreated = (ticket) => setLatestTicket(ticket);
       manager.onEmailReady = (draft) => setEmailDraft(draft);
       manager.onSolutionsReady = (sols) => setSolutions(sols);
+      manager.onTranscriptUpdate = (entries) => setTranscript(entries);
+      manager.onAttachmentsChange = (files) => setAttachments(files);
+      manager.onScreenShareChange = (state) => setScreenShare(state);
+      manager.onRecordingChange = (recording) => setIsRecording(recording);
+      manager.onModeChange = (newMode) => setMode(newMode);
+      manager.onWarning = (msg) => setWarningMessage(msg);
+      manager.onTicketFound = (ticket) => {
+        setFoundTicket(ticket);
+        setRightPanelTab('session');
+      };
       
       manager.onError = (msg) => {
         setErrorMessage(msg);
@@ -44,13 +219,27 @@ function App() {
         }, 5000);
       };
 
+      manager.onReconnecting = (attempt, maxAttempts) => {
+        setReconnectAttempt({ attempt, maxAttempts });
+        setConnectionState(ConnectionState.RECONNECTING);
+        setVolume(0);
+      };
+      manager.onReconnected = () => {
+        setReconnectAttempt(null);
+        setConnectionState(ConnectionState.CONNECTED);
+      };
+
       manager.onClose = () => {
         // Only set to disconnected if we aren't in an error state that needs to be shown
         setConnectionState(prev => prev === ConnectionState.ERROR ? prev : ConnectionState.DISCONNECTED);
         setVolume(0);
+        // The manager attaches the transcript to the ticket when the call drops; show the result
+        manager.finishSession()
+          .then(ticket => { if (ticket) setLatestTicket(ticket); })
+          .catch(e => console.error('Error finishing the session', e));
       };
 
-      await manager.connect(email);
+      await manager.connect(caller, mode, recordingConsentAt);
       setConnectionState(ConnectionState.CONNECTED);
     } catch (e) {
       console.error(e);
@@ -65,18 +254,102 @@ function App() {
     }
     setConnectionState(ConnectionState.DISCONNECTED);
     setVolume(0);
+    setScreenShare('inactiva');
+    setIsRecording(false);
+  };
+
+  // Before connecting this picks the starting mode; during a session it switches live
+  const handleSelectMode = (option: InteractionMode) => {
+    if (option === mode) return;
+    if (liveManagerRef.current && connectionState === ConnectionState.CONNECTED) {
+      setWarningMessage('');
+      liveManagerRef.current.setMode(option);
+    } else {
+      setMode(option);
+    }
+  };
+
+  const handleSendText = (text: string) => {
+    liveManagerRef.current?.sendText(text);
+  };
+
+  // Files are only accepted while the call is live, so the agent can look at them
+  const canAttach = connectionState === ConnectionState.CONNECTED;
+
+  const handleAttachFiles = async (files: File[]) => {
+    setWarningMessage('');
+    for (const file of files) {
+      await liveManagerRef.current?.attachFile(file);
+    }
+  };
+
+  const handleDragOver = (e: React.DragEvent) => {
+    if (!canAttach || !e.dataTransfer.types.includes('Files')) return;
+    e.preventDefault();
+    setIsDraggingFile(true);
   };
 
-  const handleStop = () => {
+  const handleDrop = (e: React.DragEvent) => {
+    setIsDraggingFile(false);
+    if (!canAttach) return;
+    e.preventDefault();
+    handleAttachFiles(Array.from(e.dataTransfer.files));
+  };
+
+  // Tickets the API could not confirm still need to reach support by mail
+  const needsMailFallback = !!(emailDraft && latestTicket?.offline);
+
+  const handleStop = async () => {
+    const manager = liveManagerRef.current;
     disconnectSession();
-    if (emailDraft) {
-        // Trigger mailto when user stops the call
-        const mailtoLink = `mailto:soporte@sistemas.cl?subject=${encodeURIComponent(emailDraft.subject)}&body=${encodeURIComponent(emailDraft.body)}`;
+
+    // Attach the complete transcript to the ticket before it is emailed
+    const ticket = (await manager?.finishSession()) ?? latestTicket;
+    if (ticket) setLatestTicket(ticket);
+
+    if (emailDraft && ticket?.ticketId && !ticket.offline) {
+        // Queue the draft in the server outbox (SMTP, CC to the official)
+        ticketApi.sendEmail(ticket.ticketId)
+          .then(ticket => {
+            setLatestTicket(ticket);
+            return ticketRepository.save(ticket);
+          })
+          .catch(e => {
+            console.error('Error queuing email', e);
+            setConnectionState(ConnectionState.ERROR);
+            setErrorMessage('No se pudo enviar el correo. Inténtelo nuevamente desde "Mis tickets".');
+          });
+    } else if (needsMailFallback) {
+        // Offline fallback: open the desktop mail client
+        let body = appendTranscriptToBody(emailDraft.body, ticket?.transcript);
+        if (ticket?.attachments?.length) {
+          // mailto cannot carry files; they stay with the locally stored ticket
+          body += `\n\n--- Archivos adjuntos (no incluidos en este correo) ---\n${describeAttachments(ticket.attachments)}`;
+        }
+        const mailtoLink = `mailto:soporte@sistemas.cl?subject=${encodeURIComponent(emailDraft.subject)}&body=${encodeURIComponent(body)}`;
         window.location.href = mailtoLink;
-        setEmailDraft(null);
     }
+    setEmailDraft(null);
   };
 
+  // Show a stored ticket in the session panel
+  const handleOpenTicket = (ticket: StoredTicket) => {
+    setLatestTicket(ticket);
+    setFoundTicket(null);
+    setSolutions(ticket.solutions ?? null);
+    if (!isInputDisabled) {
+      setEmailDraft(ticket.emailDraft ?? null);
+    }
+    setRightPanelTab('session');
+  };
+
+  // Closing or reloading the tab during a call still stores its transcript
+  useEffect(() => {
+    const handlePageHide = () => liveManagerRef.current?.finishOnPageHide();
+    window.addEventListener('pagehide', handlePageHide);
+    return () => window.removeEventListener('pagehide', handlePageHide);
+  }, []);
+
   // Cleanup on unmount
   useEffect(() => {
     return () => {
@@ -86,8 +359,6 @@ function App() {
     };
   }, []);
 
-  const isInputDisabled = connectionState !== ConnectionState.DISCONNECTED && connectionState !== ConnectionState.ERROR;
-
   return (
     <div className="flex flex-col h-full bg-slate-50 text-slate-900">
       {/* Header */}
@@ -108,12 +379,56 @@ function App() {
                  EN VIVO
                </span>
             )}
+            {screenShare !== 'inactiva' && (
+               <span className={`flex items-center gap-1.5 px-3 py-1 text-xs font-semibold rounded-full border ${screenShare === 'activa' ? 'bg-red-100 text-red-700 border-red-200' : 'bg-slate-100 text-slate-600 border-slate-200'}`}>
+                 <Monitor className="w-3 h-3" />
+                 {screenShare === 'activa' ? 'PANTALLA COMPARTIDA' : 'PANTALLA EN PAUSA'}
+               </span>
+            )}
+            {isRecording && (
+               <span className="flex items-center gap-1.5 px-3 py-1 bg-red-100 text-red-700 text-xs font-semibold rounded-full border border-red-200">
+                 <Disc className="w-3 h-3" />
+                 GRABANDO
+               </span>
+            )}
+            {connectionState === ConnectionState.RECONNECTING && (
+               <span className="flex items-center gap-1.5 px-3 py-1 bg-amber-100 text-amber-700 text-xs font-semibold rounded-full border border-amber-200 animate-pulse">
+                 <div className="w-2 h-2 rounded-full bg-amber-500"></div>
+                 RECONECTANDO
+               </span>
+            )}
         </div>
       </header>
 
       {/* Main Content */}
-      <main className="flex-1 flex flex-col md:flex-row overflow-hidden relative">
-        
+      <main
+        className="flex-1 flex flex-col md:flex-row overflow-hidden relative"
+        onDragOver={handleDragOver}
+        onDragLeave={(e) => { if (e.currentTarget === e.target) setIsDraggingFile(false); }}
+        onDrop={handleDrop}
+      >
+        {showRecordingConsent && (
+          <RecordingConsent onAccept={() => handleRecordingConsent(true)} onDecline={() => handleRecordingConsent(false)} />
+        )}
+        {codeRequest && (
+          <EmailCodePrompt
+            request={codeRequest}
+            error={codeError}
+            onConfirm={handleConfirmCode}
+            onResend={() => requestCode(codeRequest.correo)}
+            onCancel={() => { setCodeRequest(null); setCodeError(''); }}
+          />
+        )}
+
+        {isDraggingFile && (
+          <div className="absolute inset-0 z-20 flex items-center justify-center bg-blue-50/90 border-4 border-dashed border-blue-400 pointer-events-none">
+            <div className="flex flex-col items-center gap-2 text-blue-700">
+              <Paperclip className="w-10 h-10" />
+              <p className="font-semibold">Suelte el archivo para adjuntarlo al ticket</p>
+            </div>
+          </div>
+        )}
+
         {/* Left Panel: Interaction */}
         <div className="flex-1 flex flex-col items-center justify-center p-6 bg-slate-50 relative">
             
@@ -126,13 +441,13 @@ function App() {
                  {/* Visualizer Container */}
                  <div className="relative w-72 h-72 flex items-center justify-center">
                      <Visualizer 
-                        isActive={connectionState === ConnectionState.CONNECTED} 
+                        isActive={connectionState === ConnectionState.CONNECTED && mode === 'voz'} 
                         volume={volume} 
                      />
                      {/* Static Icon overlay when inactive */}
-                     {connectionState !== ConnectionState.CONNECTED && (
+                     {(connectionState !== ConnectionState.CONNECTED || mode === 'texto') && (
                          <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
-                            <Radio className="w-24 h-24 text-slate-300" />
+                            {mode === 'texto' ? <Keyboard className="w-24 h-24 text-slate-300" /> : <Radio className="w-24 h-24 text-slate-300" />}
                          </div>
                      )}
                  </div>
@@ -151,7 +466,7 @@ function App() {
                      id="email-input"
                      type="email"
                      value={email}
-                     onChange={(e) => setEmail(e.target.value)}
+                     onChange={(e) => handleEmailChange(e.target.value)}
                      disabled={isInputDisabled}
                      placeholder="nombre@municipalidad.cl"
                      className={`
@@ -161,16 +476,30 @@ function App() {
                      `}
                    />
                  </div>
-                 {!email && connectionState === ConnectionState.DISCONNECTED && (
+                 {emailError ? (
+                   <p className="text-xs text-red-600 mt-2 pl-1">{emailError}</p>
+                 ) : emailCheck.municipalidad ? (
+                   <p className="flex items-center gap-1 text-xs text-green-700 mt-2 pl-1">
+                     <CheckCircle className="w-3 h-3" /> Municipalidad de {emailCheck.municipalidad}
+                     {verifiedEmail?.codeVerifiedAt && verifiedEmail.correo === emailCheck.correo && ' · correo verificado'}
+                   </p>
+                 ) : !email && connectionState === ConnectionState.DISCONNECTED && (
                    <p className="text-xs text-slate-400 mt-2 pl-1">* Ingrese su correo para comenzar</p>
                  )}
               </div>
 
+              {flowProblems.length > 0 && <FlowConfigProblems problems={flowProblems} />}
+
               {/* Status Message */}
               <div className="min-h-[1.5rem] mb-4 text-center w-full">
                 {connectionState === ConnectionState.CONNECTING && (
                   <p className="text-blue-600 font-medium animate-bounce">Conectando con el servidor...</p>
                 )}
+                {connectionState === ConnectionState.RECONNECTING && (
+                  <p className="text-amber-600 font-medium animate-pulse">
+                    Reconectando…{reconnectAttempt && ` (intento ${reconnectAttempt.attempt} de ${reconnectAttempt.maxAttempts})`}
+                  </p>
+                )}
                 {connectionState === ConnectionState.ERROR && (
                    <div className="flex items-center justify-center gap-2 text-red-600 bg-red-50 px-4 py-2 rounded-lg border border-red-100 animate-pulse">
                       <AlertCircle className="w-4 h-4" />
@@ -179,26 +508,73 @@ function App() {
                 )}
                 {connectionState === ConnectionState.CONNECTED && (
                     <p className="text-slate-600 font-medium">
-                        {emailDraft ? "Borrador de correo listo. Finalice para enviar." : "Escuchando..."}
+                        {emailDraft ? "Borrador de correo listo. Finalice para enviar." : mode === 'texto' ? "Escriba su consulta en el chat." : "Escuchando..."}
                     </p>
                 )}
+                {warningMessage && connectionState !== ConnectionState.ERROR && (
+                   <div className="mt-2 flex items-center justify-center gap-2 text-amber-700 bg-amber-50 px-4 py-2 rounded-lg border border-amber-200">
+                      <AlertCircle className="w-4 h-4" />
+                      <p className="font-medium text-sm">{warningMessage}</p>
+                   </div>
+                )}
               </div>
 
+              {/* Mode Selector */}
+              <div className="flex mb-4 bg-slate-200 rounded-full p-1 text-sm font-semibold">
+                {(['voz', 'texto'] as InteractionMode[]).map(option => (
+                  <button
+                    key={option}
+                    onClick={() => handleSelectMode(option)}
+                    disabled={connectionState === ConnectionState.CONNECTING}
+                    className={`flex items-center gap-1.5 px-4 py-1.5 rounded-full transition-all ${mode === option ? 'bg-white text-blue-600 shadow' : 'text-slate-500'}`}
+                  >
+                    {option === 'voz' ? <Mic className="w-4 h-4" /> : <Keyboard className="w-4 h-4" />}
+                    {option === 'voz' ? 'Voz' : 'Texto'}
+                  </button>
+                ))}
+              </div>
+
+              {/* Recording opt-in */}
+              {!isInputDisabled && (
+                <label className="flex items-center gap-2 mb-4 text-sm text-slate-600 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={recordCall}
+                    onChange={(e) => setRecordCall(e.target.checked)}
+                    className="rounded border-slate-300 text-blue-600 focus:ring-blue-500"
+                  />
+                  Grabar la llamada
+                </label>
+              )}
+
+              {/* Screen Share */}
+              {connectionState === ConnectionState.CONNECTED && (
+                <div className="mb-4">
+                  <ScreenShareControls
+                    state={screenShare}
+                    fps={DEFAULT_SCREEN_CAPTURE_OPTIONS.fps}
+                    onStart={() => { setWarningMessage(''); liveManagerRef.current?.startScreenShare(); }}
+                    onPause={(paused) => liveManagerRef.current?.setScreenSharePaused(paused)}
+                    onStop={() => liveManagerRef.current?.stopScreenShare()}
+                  />
+                </div>
+              )}
+
               {/* Controls */}
               <div className="flex gap-4">
                 {connectionState === ConnectionState.DISCONNECTED || connectionState === ConnectionState.ERROR ? (
                    <button 
                      onClick={handleConnect}
-                     disabled={!email}
+                     disabled={!email || flowProblems.length > 0}
                      className={`
                        flex items-center gap-3 px-8 py-4 rounded-full font-semibold text-lg shadow-lg transition-all transform 
-                       ${!email 
+                       ${!email || flowProblems.length > 0 
                          ? 'bg-slate-300 text-slate-500 cursor-not-allowed' 
                          : 'bg-blue-600 hover:bg-blue-700 active:bg-blue-800 text-white hover:shadow-xl hover:-translate-y-1'}
                      `}
                    >
-                     <Mic className="w-6 h-6" />
-                     <span>Iniciar Asistente</span>
+                     {mode === 'voz' ? <Mic className="w-6 h-6" /> : <Keyboard className="w-6 h-6" />}
+                     <span>{mode === 'voz' ? 'Iniciar Asistente' : 'Iniciar Chat'}</span>
                    </button>
                 ) : (
                   <button 
@@ -215,23 +591,55 @@ function App() {
                   </button>
                 )}
               </div>
+
+              {/* Live Transcript */}
+              {(connectionState === ConnectionState.CONNECTED || transcript.length > 0) && (
+                <div className="w-full mt-6">
+                  <TranscriptPanel
+                    entries={transcript}
+                    onSend={connectionState === ConnectionState.CONNECTED && mode === 'texto' ? handleSendText : undefined}
+                  />
+                </div>
+              )}
+
+              {/* Attachments */}
+              {(canAttach || attachments.length > 0) && (
+                <div className="w-full mt-4">
+                  <AttachmentPanel attachments={attachments} onAttach={canAttach ? handleAttachFiles : undefined} />
+                </div>
+              )}
             </div>
         </div>
 
         {/* Right Panel: Data Output */}
         <div className={`
           flex-col border-t md:border-t-0 md:border-l border-slate-200 bg-white w-full md:w-96 transition-all duration-300 ease-in-out
-          ${(latestTicket || solutions) ? 'flex' : 'hidden md:flex'}
+          ${(latestTicket || solutions || foundTicket) ? 'flex' : 'hidden md:flex'}
         `}>
-          <div className="p-4 border-b border-slate-100 bg-slate-50">
-            <h2 className="text-sm font-semibold text-slate-500 uppercase tracking-wider flex items-center gap-2">
+          <div className="flex border-b border-slate-100 bg-slate-50">
+            <button
+              onClick={() => setRightPanelTab('session')}
+              className={`flex-1 p-4 text-sm font-semibold uppercase tracking-wider flex items-center justify-center gap-2 ${rightPanelTab === 'session' ? 'text-blue-600 border-b-2 border-blue-600' : 'text-slate-500'}`}
+            >
               <FileText className="w-4 h-4" />
-              Información de Sesión
-            </h2>
+              Sesión
+            </button>
+            <button
+              onClick={() => setRightPanelTab('tickets')}
+              className={`flex-1 p-4 text-sm font-semibold uppercase tracking-wider flex items-center justify-center gap-2 ${rightPanelTab === 'tickets' ? 'text-blue-600 border-b-2 border-blue-600' : 'text-slate-500'}`}
+            >
+              <List className="w-4 h-4" />
+              Mis tickets
+            </button>
           </div>
 
+          {rightPanelTab === 'tickets' ? (
+            <div className="flex-1 overflow-hidden">
+              <MyTicketsPanel correo={verifiedEmail?.correo} onOpen={handleOpenTicket} />
+            </div>
+          ) : (
           <div className="flex-1 overflow-y-auto p-6 space-y-6">
-            {(!latestTicket && !solutions) ? (
+            {(!latestTicket && !solutions && !foundTicket) ? (
               <div className="h-full flex flex-col items-center justify-center text-slate-400 text-center space-y-4">
                  <div className="w-16 h-16 rounded-full bg-slate-100 flex items-center justify-center">
                     <FileText className="w-8 h-8 text-slate-300" />
@@ -240,21 +648,11 @@ function App() {
               </div>
             ) : (
               <>
+                {/* Lookup Result Card */}
+                {foundTicket && <TicketStatusCard ticket={foundTicket} />}
+
                 {/* Suggestions Card */}
-                {solutions && (
-                    <div className="bg-amber-50 border border-amber-200 rounded-lg p-4 animate-fade-in-up">
-                        <div className="flex items-center gap-2 mb-3">
-                            <Lightbulb className="w-5 h-5 text-amber-500" />
-                            <h3 className="font-semibold text-amber-800 text-sm">Sugerencias Rápidas</h3>
-                        </div>
-                        <p className="text-xs text-amber-700 mb-2 font-medium">{solutions.title}</p>
-                        <ul className="list-disc pl-4 space-y-1">
-                            {solutions.steps.map((step, idx) => (
-                                <li key={idx} className="text-xs text-amber-800">{step}</li>
-                            ))}
-                        </ul>
-                    </div>
-                )}
+                {solutions && <SolutionCard solutions={solutions} />}
 
                 {/* Ticket Card */}
                 {latestTicket && (
@@ -268,7 +666,12 @@ function App() {
                             </p>
                             {emailDraft && (
                                 <p className="text-green-600 text-[10px] mt-1 italic">
-                                Borrador de correo listo para enviar
+                                {latestTicket.offline ? 'Servidor no disponible: se enviará por correo' : 'Borrador de correo listo para enviar'}
+                                </p>
+                            )}
+                            {latestTicket.emailDelivery && (
+                                <p className="text-green-600 text-[10px] mt-1 italic">
+                                {EMAIL_DELIVERY_LABELS[latestTicket.emailDelivery.status]}
                                 </p>
                             )}
                         </div>
@@ -283,18 +686,42 @@ function App() {
                             </label>
                             <div className="text-slate-800 text-2xl font-bold border-b border-slate-100 pb-2">
                                 {latestTicket.ticketId}
+                                {latestTicket.parentTicketId && (
+                                    <p className="text-xs font-medium text-amber-700 mt-1">
+                                        Vinculado al incidente en curso {latestTicket.parentTicketId}
+                                    </p>
+                                )}
+                            </div>
+                            </div>
+                        )}
+
+                        {latestTicket.classification && (
+                            <div className="group">
+                            <label className="block text-xs font-bold text-slate-400 uppercase mb-1">Prioridad</label>
+                            <div className="flex flex-wrap items-center gap-2 border-b border-slate-100 pb-2">
+                                <PriorityBadge priority={latestTicket.classification.priority} />
+                                <span className="text-xs text-slate-600">{CATEGORY_LABELS[latestTicket.classification.category]}</span>
+                                <span className="text-xs text-slate-400">
+                                    Atención antes de: {new Date(latestTicket.classification.slaDeadline).toLocaleString()}
+                                </span>
                             </div>
                             </div>
                         )}
 
                         <div className="group">
                             <label className="block text-xs font-bold text-slate-400 uppercase mb-1">Municipalidad</label>
-                            <div className="text-slate-800 text-lg font-medium border-b border-slate-100 pb-1">{latestTicket.municipalidad}</div>
+                            <div className="text-slate-800 text-lg font-medium border-b border-slate-100 pb-1">
+                                {latestTicket.municipalidad}
+                                {latestTicket.unverifiedFields?.includes('municipalidad') && <UnverifiedBadge />}
+                            </div>
                         </div>
 
                         <div className="group">
                             <label className="block text-xs font-bold text-slate-400 uppercase mb-1">Sistema Afectado</label>
-                            <div className="text-slate-800 font-medium border-b border-slate-100 pb-1">{latestTicket.sistema}</div>
+                            <div className="text-slate-800 font-medium border-b border-slate-100 pb-1">
+                                {latestTicket.sistema}
+                                {latestTicket.unverifiedFields?.includes('sistema') && <UnverifiedBadge />}
+                            </div>
                         </div>
 
                         <div className="group">
@@ -308,6 +735,19 @@ function App() {
                             {latestTicket.descripcion}
                             </div>
                         </div>
+
+                        {latestTicket.attachments && latestTicket.attachments.length > 0 && (
+                            <div className="group">
+                                <label className="block text-xs font-bold text-slate-400 uppercase mb-1 flex items-center gap-1">
+                                    <Paperclip className="w-3 h-3" /> Adjuntos
+                                </label>
+                                <ul className="text-slate-600 text-sm border-b border-slate-100 pb-1">
+                                    {latestTicket.attachments.map(attachment => (
+                                        <li key={attachment.id} className="truncate">{attachment.name}</li>
+                                    ))}
+                                </ul>
+                            </div>
+                        )}
                         
                         <div className="pt-4 text-right">
                             <span className="text-xs text-slate-400">Generado: {new Date(latestTicket.timestamp).toLocaleTimeString()}</span>
@@ -318,6 +758,7 @@ function App() {
               </>
             )}
           </div>
+          )}
         </div>
       </main>
 
@@ -0,0 +1,70 @@
+import React, { useRef } from 'react';
+import { Paperclip, Image, FileText } from 'lucide-react';
+import { TicketAttachment } from '../types';
+import { ATTACHMENT_TYPES, MAX_ATTACHMENTS_PER_TICKET, attachmentKind, formatFileSize } from '../services/attachments';
+
+interface AttachmentPanelProps {
+  attachments: TicketAttachment[];
+  // When provided the panel offers a file picker in addition to drag and drop
+  onAttach?: (files: File[]) => void;
+}
+
+const AttachmentPanel: React.FC<AttachmentPanelProps> = ({ attachments, onAttach }) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (e.target.files && onAttach) onAttach(Array.from(e.target.files));
+    e.target.value = '';
+  };
+
+  return (
+    <div className="w-full bg-white border border-slate-200 rounded-lg shadow-sm">
+      <div className="px-3 py-2 border-b border-slate-100 flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <Paperclip className="w-4 h-4 text-slate-400" />
+          <h3 className="text-xs font-semibold text-slate-500 uppercase tracking-wider">
+            Adjuntos ({attachments.length}/{MAX_ATTACHMENTS_PER_TICKET})
+          </h3>
+        </div>
+        {onAttach && (
+          <>
+            <button
+              onClick={() => inputRef.current?.click()}
+              disabled={attachments.length >= MAX_ATTACHMENTS_PER_TICKET}
+              className="text-xs font-semibold text-blue-600 disabled:text-slate-300"
+            >
+              Adjuntar archivo
+            </button>
+            <input
+              ref={inputRef}
+              type="file"
+              multiple
+              accept={[...Object.keys(ATTACHMENT_TYPES), '.log', '.txt'].join(',')}
+              onChange={handleChange}
+              className="hidden"
+            />
+          </>
+        )}
+      </div>
+      {attachments.length === 0 ? (
+        <p className="text-xs text-slate-400 text-center p-3">
+          Arrastre aquí capturas de pantalla o archivos de registro del error.
+        </p>
+      ) : (
+        <ul className="p-2 space-y-1">
+          {attachments.map(attachment => (
+            <li key={attachment.id} className="flex items-center gap-2 text-xs text-slate-700 px-1">
+              {attachmentKind(attachment) === 'imagen'
+                ? <Image className="w-4 h-4 text-slate-400 flex-shrink-0" />
+                : <FileText className="w-4 h-4 text-slate-400 flex-shrink-0" />}
+              <span className="truncate flex-1">{attachment.name}</span>
+              <span className="text-[10px] text-slate-400">{formatFileSize(attachment.size)}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default AttachmentPanel;
@@ -0,0 +1,119 @@
+import React, { useEffect, useState } from 'react';
+import { LogOut, Server, UserCog } from 'lucide-react';
+import TicketQueue from './TicketQueue';
+import TicketDetail from './TicketDetail';
+import MetricsDashboard from './MetricsDashboard';
+import TechnicianLogin from './TechnicianLogin';
+import { technicianSession } from '../services/technicianSession';
+
+interface BackOfficeProps {
+  view?: 'cola' | 'metricas';
+  // Ticket shown in the detail page; the queue is shown when absent
+  ticketId?: string;
+}
+
+const TECHNICIAN_KEY = 'soporte.technician';
+
+export const BACK_OFFICE_HASH = '#/soporte';
+
+// Second view of the app for the support staff who work the tickets
+const BackOffice: React.FC<BackOfficeProps> = ({ view = 'cola', ticketId }) => {
+  const [technician, setTechnician] = useState(() => localStorage.getItem(TECHNICIAN_KEY) ?? '');
+  // null while the server is asked whether the session is open
+  const [sessionOpen, setSessionOpen] = useState<boolean | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    technicianSession.isOpen().then(open => { if (!cancelled) setSessionOpen(open); });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const handleLogin = async (clave: string) => {
+    await technicianSession.open(clave);
+    setSessionOpen(true);
+  };
+
+  const handleLogout = () => {
+    technicianSession.close()
+      .then(() => setSessionOpen(false))
+      .catch(e => console.error('Error closing back-office session', e));
+  };
+
+  const handleTechnicianChange = (name: string) => {
+    setTechnician(name);
+    localStorage.setItem(TECHNICIAN_KEY, name.trim());
+  };
+
+  const openTicket = (id: string) => {
+    window.location.hash = `${BACK_OFFICE_HASH}/${encodeURIComponent(id)}`;
+  };
+
+  return (
+    <div className="flex flex-col h-full bg-slate-50 text-slate-900">
+      <header className="bg-white border-b border-slate-200 px-6 py-4 flex items-center justify-between shadow-sm sticky top-0 z-10">
+        <div className="flex items-center gap-2">
+          <div className="bg-slate-800 p-2 rounded-lg">
+            <Server className="w-6 h-6 text-white" />
+          </div>
+          <div>
+            <h1 className="text-xl font-bold text-slate-800 tracking-tight">Soporte Sistemas</h1>
+            <p className="text-xs text-slate-500 font-medium uppercase tracking-wider">
+              Mesa de ayuda · {view === 'metricas' ? 'Métricas' : 'Cola de tickets'}
+            </p>
+          </div>
+          <nav className="flex bg-slate-100 rounded-full p-1 text-xs font-semibold ml-6">
+            <a
+              href={BACK_OFFICE_HASH}
+              className={`px-3 py-1 rounded-full ${view === 'cola' ? 'bg-white text-blue-600 shadow' : 'text-slate-500'}`}
+            >
+              Cola
+            </a>
+            <a
+              href={`${BACK_OFFICE_HASH}/metricas`}
+              className={`px-3 py-1 rounded-full ${view === 'metricas' ? 'bg-white text-blue-600 shadow' : 'text-slate-500'}`}
+            >
+              Métricas
+            </a>
+          </nav>
+        </div>
+        <div className="flex items-center gap-2">
+          <label className="flex items-center gap-2 text-sm text-slate-600">
+            <UserCog className="w-4 h-4 text-slate-400" />
+            <input
+              value={technician}
+              onChange={(e) => handleTechnicianChange(e.target.value)}
+              placeholder="Su nombre"
+              className="px-3 py-1.5 rounded-lg border border-slate-300 text-sm"
+            />
+          </label>
+          {sessionOpen && (
+            <button onClick={handleLogout} title="Cerrar sesión" className="p-1.5 rounded-lg text-slate-400 hover:text-slate-700 hover:bg-slate-100">
+              <LogOut className="w-4 h-4" />
+            </button>
+          )}
+        </div>
+      </header>
+
+      <main className="flex-1 overflow-hidden">
+        {sessionOpen === null ? null : !sessionOpen ? (
+          <TechnicianLogin onLogin={handleLogin} />
+        ) : view === 'metricas' ? (
+          <MetricsDashboard />
+        ) : ticketId ? (
+          <TicketDetail
+            ticketId={ticketId}
+            technician={technician.trim()}
+            onBack={() => { window.location.hash = BACK_OFFICE_HASH; }}
+            onOpen={openTicket}
+          />
+        ) : (
+          <TicketQueue onOpen={openTicket} />
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default BackOffice;
@@ -0,0 +1,84 @@
+import React, { useState } from 'react';
+import { KeyRound } from 'lucide-react';
+import { EmailCodeRequest } from '../types';
+import { EMAIL_CODE_LENGTH } from '../services/emailPolicy';
+
+interface EmailCodePromptProps {
+  request: EmailCodeRequest;
+  error: string;
+  onConfirm: (code: string) => Promise<void>;
+  onResend: () => void;
+  onCancel: () => void;
+}
+
+// Asks for the one-time code mailed to the official before the call starts
+const EmailCodePrompt: React.FC<EmailCodePromptProps> = ({ request, error, onConfirm, onResend, onCancel }) => {
+  const [code, setCode] = useState('');
+  const [checking, setChecking] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!code.trim() || checking) return;
+    setChecking(true);
+    try {
+      await onConfirm(code.trim());
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  const expiresAt = new Date(request.expiresAt).toLocaleTimeString('es-CL', { hour: '2-digit', minute: '2-digit' });
+
+  return (
+    <div className="fixed inset-0 z-30 flex items-center justify-center bg-slate-900/50 p-4">
+      <form
+        onSubmit={handleSubmit}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="email-code-title"
+        className="bg-white rounded-lg shadow-xl max-w-md w-full p-6"
+      >
+        <h2 id="email-code-title" className="flex items-center gap-2 text-lg font-bold text-slate-800 mb-3">
+          <KeyRound className="w-5 h-5 text-blue-600" /> Verifique su correo
+        </h2>
+        <p className="text-sm text-slate-600 mb-4">
+          Enviamos un código a <span className="font-semibold">{request.correo}</span>. Ingréselo para iniciar la atención; vence a las {expiresAt}.
+        </p>
+        <input
+          value={code}
+          onChange={(e) => setCode(e.target.value.replace(/\D/g, ''))}
+          inputMode="numeric"
+          autoComplete="one-time-code"
+          autoFocus
+          maxLength={EMAIL_CODE_LENGTH}
+          placeholder={'0'.repeat(EMAIL_CODE_LENGTH)}
+          className="block w-full px-3 py-3 rounded-lg border border-slate-300 text-center text-2xl tracking-[0.5em] font-mono focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+        />
+        {error && <p className="text-xs text-red-600 mt-2">{error}</p>}
+        <div className="flex items-center justify-between gap-2 mt-6">
+          <button type="button" onClick={onResend} className="text-sm text-blue-600 hover:underline">
+            Enviar otro código
+          </button>
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={onCancel}
+              className="px-4 py-2 rounded-lg text-sm font-semibold border border-slate-300 text-slate-600 hover:bg-slate-50"
+            >
+              Cancelar
+            </button>
+            <button
+              type="submit"
+              disabled={!code.trim() || checking}
+              className="px-4 py-2 rounded-lg text-sm font-semibold bg-blue-600 text-white hover:bg-blue-700 disabled:bg-slate-300"
+            >
+              {checking ? 'Verificando…' : 'Verificar'}
+            </button>
+          </div>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default EmailCodePrompt;
@@ -0,0 +1,17 @@
+import React from 'react';
+import { AlertCircle } from 'lucide-react';
+
+// Lists every problem found in config/conversation-flow.json; calls stay disabled until it is fixed
+const FlowConfigProblems: React.FC<{ problems: string[] }> = ({ problems }) => (
+  <div className="mb-4 w-full text-left text-red-700 bg-red-50 px-4 py-3 rounded-lg border border-red-200">
+    <p className="flex items-center gap-2 font-semibold text-sm">
+      <AlertCircle className="w-4 h-4 shrink-0" />
+      La configuración del flujo de conversación no es válida
+    </p>
+    <ul className="mt-2 ml-6 list-disc text-sm space-y-1">
+      {problems.map((problem, i) => <li key={i}>{problem}</li>)}
+    </ul>
+  </div>
+);
+
+export default FlowConfigProblems;
@@ -0,0 +1,219 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Download, RefreshCw, BarChart3 } from 'lucide-react';
+import { AnalyticsEvent } from '../types';
+import { analytics } from '../services/analytics';
+import {
+  METRICS_DIMENSION_LABELS, MetricsDimension, formatDuration, groupSessions, metricsToCsv,
+  summarizeGroup, summarizeSessions, toolStats,
+} from '../services/metrics';
+
+const currentMonth = () => {
+  const now = new Date();
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}`;
+};
+
+// "2026-10" to the first instant of that month and of the next one
+const monthPeriod = (month: string) => {
+  const [year, monthIndex] = month.split('-').map(Number);
+  return {
+    from: new Date(year, monthIndex - 1, 1).toISOString(),
+    to: new Date(year, monthIndex, 1).toISOString(),
+  };
+};
+
+const StatCard: React.FC<{ label: string; value: string; hint?: string }> = ({ label, value, hint }) => (
+  <div className="bg-white border border-slate-200 rounded-lg p-4">
+    <p className="text-xs font-bold text-slate-400 uppercase">{label}</p>
+    <p className="text-2xl font-bold text-slate-800 mt-1">{value}</p>
+    {hint && <p className="text-xs text-slate-500 mt-1">{hint}</p>}
+  </div>
+);
+
+// Support metrics built from the session events recorded by LiveManager
+const MetricsDashboard: React.FC = () => {
+  const [month, setMonth] = useState(currentMonth);
+  const [dimension, setDimension] = useState<MetricsDimension>('municipalidad');
+  const [events, setEvents] = useState<AnalyticsEvent[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+  const [reloadKey, setReloadKey] = useState(0);
+
+  useEffect(() => {
+    if (!month) return;
+    let cancelled = false;
+    setLoading(true);
+    analytics.list(monthPeriod(month))
+      .then(result => {
+        if (cancelled) return;
+        setEvents(result);
+        setError('');
+      })
+      .catch(e => {
+        console.error('Error loading metrics', e);
+        if (!cancelled) setError(e.message || 'No se pudieron cargar las métricas.');
+      })
+      .finally(() => { if (!cancelled) setLoading(false); });
+    return () => {
+      cancelled = true;
+    };
+  }, [month, reloadKey]);
+
+  const sessions = useMemo(() => summarizeSessions(events), [events]);
+  const total = summarizeGroup('Total', sessions);
+  const rows = groupSessions(sessions, dimension);
+  const tools = toolStats(events);
+  const maxSessions = Math.max(1, ...rows.map(row => row.sessions));
+  const percent = (part: number) => total.sessions ? `${Math.round((part / total.sessions) * 100)}%` : '—';
+
+  const handleExport = () => {
+    // The BOM lets spreadsheets detect UTF-8 and show accents correctly
+    const blob = new Blob(['\ufeff', metricsToCsv(rows, dimension)], { type: 'text/csv;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `metricas-${dimension}-${month}.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="h-full overflow-y-auto p-6 space-y-6">
+      <div className="flex flex-wrap items-center gap-2">
+        <input
+          type="month"
+          value={month}
+          onChange={(e) => setMonth(e.target.value)}
+          className="px-3 py-2 rounded-lg border border-slate-300 text-sm bg-white"
+        />
+        <button
+          onClick={() => setReloadKey(key => key + 1)}
+          title="Actualizar"
+          className="p-2 rounded-lg border border-slate-300 text-slate-500 hover:text-blue-600 bg-white"
+        >
+          <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+        </button>
+        <button
+          onClick={handleExport}
+          disabled={rows.length === 0}
+          className="ml-auto flex items-center gap-2 px-3 py-2 rounded-lg text-sm font-semibold bg-blue-600 text-white hover:bg-blue-700 disabled:bg-slate-300"
+        >
+          <Download className="w-4 h-4" /> Exportar CSV
+        </button>
+      </div>
+
+      {error && (
+        <p className="text-sm text-red-600 bg-red-50 border border-red-100 rounded-lg px-4 py-2">{error}</p>
+      )}
+
+      <div className="grid gap-4 grid-cols-2 lg:grid-cols-6">
+        <StatCard label="Sesiones" value={String(total.sessions)} />
+        <StatCard label="Sin ticket" value={String(total.withoutTicket)} hint={percent(total.withoutTicket)} />
+        <StatCard label="Duración promedio" value={formatDuration(total.avgDurationMs)} />
+        <StatCard label="Tiempo a ticket" value={formatDuration(total.avgTimeToTicketMs)} hint="Promedio desde el inicio de la llamada" />
+        <StatCard label="Errores de sesión" value={String(total.errors)} />
+        <StatCard label="Correos fallidos" value={String(total.emailFailures)} hint="Borradores que no se pudieron generar" />
+      </div>
+
+      <section className="bg-white border border-slate-200 rounded-lg p-4">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-xs font-bold text-slate-400 uppercase flex items-center gap-1">
+            <BarChart3 className="w-3 h-3" /> Sesiones por {METRICS_DIMENSION_LABELS[dimension].toLowerCase()}
+          </h3>
+          <div className="flex bg-slate-100 rounded-full p-1 text-xs font-semibold">
+            {(Object.keys(METRICS_DIMENSION_LABELS) as MetricsDimension[]).map(option => (
+              <button
+                key={option}
+                onClick={() => setDimension(option)}
+                className={`px-3 py-1 rounded-full ${dimension === option ? 'bg-white text-blue-600 shadow' : 'text-slate-500'}`}
+              >
+                {METRICS_DIMENSION_LABELS[option]}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {rows.length === 0 ? (
+          <p className="text-sm text-slate-400 italic">No hay sesiones registradas en este período.</p>
+        ) : (
+          <>
+            <ul className="space-y-2 mb-2">
+              {rows.map(row => (
+                <li key={row.key} className="grid grid-cols-[10rem_1fr_3rem] items-center gap-3 text-xs">
+                  <span className="text-slate-700 truncate" title={row.key}>{row.key}</span>
+                  <div className="flex h-4 rounded overflow-hidden bg-slate-50" style={{ width: `${(row.sessions / maxSessions) * 100}%` }}>
+                    <div className="bg-red-400" style={{ flex: row.errorTickets }} title={`${row.errorTickets} tickets de error`} />
+                    <div className="bg-blue-500" style={{ flex: row.tickets - row.errorTickets }} title={`${row.tickets - row.errorTickets} otros tickets`} />
+                    <div className="bg-slate-300" style={{ flex: row.withoutTicket }} title={`${row.withoutTicket} sin ticket`} />
+                  </div>
+                  <span className="text-right font-semibold text-slate-600">{row.sessions}</span>
+                </li>
+              ))}
+            </ul>
+            <div className="flex gap-4 text-[10px] text-slate-500 mb-4">
+              <span className="flex items-center gap-1"><span className="w-2 h-2 rounded-sm bg-red-400" /> Tickets de error</span>
+              <span className="flex items-center gap-1"><span className="w-2 h-2 rounded-sm bg-blue-500" /> Otros tickets</span>
+              <span className="flex items-center gap-1"><span className="w-2 h-2 rounded-sm bg-slate-300" /> Sin ticket</span>
+            </div>
+
+            <table className="w-full text-xs">
+              <thead className="text-slate-500 uppercase tracking-wider">
+                <tr className="border-b border-slate-100">
+                  <th className="text-left font-semibold py-2">{METRICS_DIMENSION_LABELS[dimension]}</th>
+                  <th className="text-right font-semibold py-2">Sesiones</th>
+                  <th className="text-right font-semibold py-2">Tickets</th>
+                  <th className="text-right font-semibold py-2">Sin ticket</th>
+                  <th className="text-right font-semibold py-2">Duración</th>
+                  <th className="text-right font-semibold py-2">Tiempo a ticket</th>
+                  <th className="text-right font-semibold py-2">Errores</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100 text-slate-700">
+                {rows.map(row => (
+                  <tr key={row.key}>
+                    <td className="py-1.5">{row.key}</td>
+                    <td className="py-1.5 text-right">{row.sessions}</td>
+                    <td className="py-1.5 text-right">{row.tickets}</td>
+                    <td className="py-1.5 text-right">{row.withoutTicket}</td>
+                    <td className="py-1.5 text-right">{formatDuration(row.avgDurationMs)}</td>
+                    <td className="py-1.5 text-right">{formatDuration(row.avgTimeToTicketMs)}</td>
+                    <td className="py-1.5 text-right">{row.errors}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </>
+        )}
+      </section>
+
+      <section className="bg-white border border-slate-200 rounded-lg p-4">
+        <h3 className="text-xs font-bold text-slate-400 uppercase mb-2">Herramientas del asistente</h3>
+        {tools.length === 0 ? (
+          <p className="text-sm text-slate-400 italic">Sin llamadas a herramientas en este período.</p>
+        ) : (
+          <table className="w-full text-xs">
+            <thead className="text-slate-500 uppercase tracking-wider">
+              <tr className="border-b border-slate-100">
+                <th className="text-left font-semibold py-2">Herramienta</th>
+                <th className="text-right font-semibold py-2">Llamadas</th>
+                <th className="text-right font-semibold py-2">Fallidas</th>
+                <th className="text-right font-semibold py-2">Latencia promedio</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100 text-slate-700">
+              {tools.map(tool => (
+                <tr key={tool.tool}>
+                  <td className="py-1.5 font-mono">{tool.tool}</td>
+                  <td className="py-1.5 text-right">{tool.calls}</td>
+                  <td className={`py-1.5 text-right ${tool.failures ? 'text-red-600 font-semibold' : ''}`}>{tool.failures}</td>
+                  <td className="py-1.5 text-right">{(tool.avgLatencyMs / 1000).toFixed(1)} s</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </section>
+    </div>
+  );
+};
+
+export default MetricsDashboard;
@@ -0,0 +1,170 @@
+import React, { useEffect, useState } from 'react';
+import { Search, RotateCcw, ChevronRight, Inbox, Send } from 'lucide-react';
+import { StoredTicket, TicketStatus } from '../types';
+import { ticketRepository, TICKET_STATUS_LABELS, EMAIL_DELIVERY_LABELS, REOPEN_NOTE } from '../services/ticketStore';
+import { ticketApi } from '../services/ticketApiClient';
+import { TicketGateway } from '../services/ticketGateway';
+
+interface MyTicketsPanelProps {
+  // Verified address of the session; without one there is nothing to list
+  correo?: string;
+  onOpen: (ticket: StoredTicket) => void;
+}
+
+const tickets = new TicketGateway();
+
+export const STATUS_STYLES: Record<TicketStatus, string> = {
+  nuevo: 'bg-blue-50 text-blue-700 border-blue-200',
+  en_curso: 'bg-amber-50 text-amber-700 border-amber-200',
+  resuelto: 'bg-green-50 text-green-700 border-green-200',
+  cerrado: 'bg-slate-100 text-slate-600 border-slate-200',
+};
+
+const MyTicketsPanel: React.FC<MyTicketsPanelProps> = ({ correo, onOpen }) => {
+  const [myTickets, setMyTickets] = useState<StoredTicket[]>([]);
+  const [loadError, setLoadError] = useState('');
+  const [query, setQuery] = useState('');
+  const [status, setStatus] = useState<TicketStatus | ''>('');
+
+  useEffect(() => {
+    let cancelled = false;
+    const load = () => {
+      if (!correo) {
+        setMyTickets([]);
+        return;
+      }
+      tickets.listByEmail(correo, { query, status: status || undefined })
+        .then(result => {
+          if (cancelled) return;
+          setMyTickets(result);
+          setLoadError('');
+        })
+        .catch(e => {
+          console.error('Error loading tickets', e);
+          if (cancelled) return;
+          setMyTickets([]);
+          setLoadError(e.message || 'No se pudieron cargar los tickets.');
+        });
+    };
+
+    load();
+    // Reopening, sending an email or a new call change the list
+    const unsubscribe = ticketRepository.subscribe(load);
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [correo, query, status]);
+
+  const handleReopen = async (e: React.MouseEvent, ticket: StoredTicket) => {
+    e.stopPropagation();
+    try {
+      if (ticket.offline) {
+        onOpen(await ticketRepository.reopen(ticket.ticketId));
+      } else {
+        const updated = await ticketApi.update(ticket.ticketId, { status: 'nuevo', note: REOPEN_NOTE });
+        onOpen(await ticketRepository.save(updated));
+      }
+    } catch (err) {
+      console.error('Error reopening ticket', err);
+    }
+  };
+
+  const handleSendEmail = async (e: React.MouseEvent, ticket: StoredTicket) => {
+    e.stopPropagation();
+    try {
+      await ticketRepository.save(await ticketApi.sendEmail(ticket.ticketId));
+    } catch (err) {
+      console.error('Error queuing email', err);
+    }
+  };
+
+  // Confirmed tickets whose email never left, or finally failed, can be sent again
+  const canSendEmail = (ticket: StoredTicket) =>
+    !!ticket.emailDraft && !ticket.offline && (!ticket.emailDelivery || ticket.emailDelivery.status === 'fallido');
+
+  return (
+    <div className="flex flex-col h-full">
+      {/* Filters */}
+      <div className="p-4 space-y-2 border-b border-slate-100">
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400" />
+          <input
+            type="text"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Buscar por N°, municipalidad o sistema"
+            className="w-full pl-9 pr-3 py-2 rounded-lg border border-slate-300 text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          />
+        </div>
+        <select
+          value={status}
+          onChange={(e) => setStatus(e.target.value as TicketStatus | '')}
+          className="w-full px-3 py-2 rounded-lg border border-slate-300 text-sm bg-white"
+        >
+          <option value="">Todos los estados</option>
+          {(Object.keys(TICKET_STATUS_LABELS) as TicketStatus[]).map(key => (
+            <option key={key} value={key}>{TICKET_STATUS_LABELS[key]}</option>
+          ))}
+        </select>
+      </div>
+
+      {/* List */}
+      <div className="flex-1 overflow-y-auto">
+        {myTickets.length === 0 ? (
+          <div className="h-full flex flex-col items-center justify-center text-slate-400 text-center p-6 space-y-3">
+            <Inbox className="w-8 h-8 text-slate-300" />
+            <p className="text-sm">
+              {!correo ? 'Verifique su correo para ver sus tickets.' : loadError || 'No hay tickets registrados.'}
+            </p>
+          </div>
+        ) : (
+          <ul className="divide-y divide-slate-100">
+            {myTickets.map(ticket => (
+              <li
+                key={ticket.ticketId}
+                onClick={() => onOpen(ticket)}
+                className="p-4 hover:bg-slate-50 cursor-pointer flex items-start gap-3"
+              >
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2 mb-1">
+                    <span className="font-bold text-slate-800 text-sm">{ticket.ticketId}</span>
+                    <span className={`text-[10px] font-semibold px-2 py-0.5 rounded-full border ${STATUS_STYLES[ticket.status]}`}>
+                      {TICKET_STATUS_LABELS[ticket.status]}
+                    </span>
+                  </div>
+                  <p className="text-xs text-slate-600 truncate">{ticket.municipalidad} · {ticket.sistema}</p>
+                  <p className="text-xs text-slate-400 truncate">{ticket.descripcion}</p>
+                  <p className="text-[10px] text-slate-400 mt-1">
+                    {new Date(ticket.timestamp).toLocaleString()}
+                    {ticket.emailDelivery && ` · ${EMAIL_DELIVERY_LABELS[ticket.emailDelivery.status]}`}
+                  </p>
+                  {canSendEmail(ticket) && (
+                    <button
+                      onClick={(e) => handleSendEmail(e, ticket)}
+                      className="mt-1 flex items-center gap-1 text-xs font-semibold text-green-600 hover:text-green-800"
+                    >
+                      <Send className="w-3 h-3" /> Enviar correo
+                    </button>
+                  )}
+                </div>
+                {(ticket.status === 'resuelto' || ticket.status === 'cerrado') ? (
+                  <button
+                    onClick={(e) => handleReopen(e, ticket)}
+                    className="flex items-center gap-1 text-xs font-semibold text-blue-600 hover:text-blue-800"
+                  >
+                    <RotateCcw className="w-3 h-3" /> Reabrir
+                  </button>
+                ) : (
+                  <ChevronRight className="w-4 h-4 text-slate-300 mt-1" />
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default MyTicketsPanel;
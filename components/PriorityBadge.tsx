@@ -0,0 +1,20 @@
+import React from 'react';
+import { AlertTriangle } from 'lucide-react';
+import { TicketPriority } from '../types';
+import { PRIORITY_LABELS } from '../services/classification';
+
+export const PRIORITY_STYLES: Record<TicketPriority, string> = {
+  critica: 'bg-red-600 text-white border-red-700',
+  alta: 'bg-orange-50 text-orange-700 border-orange-200',
+  media: 'bg-yellow-50 text-yellow-700 border-yellow-200',
+  baja: 'bg-slate-50 text-slate-600 border-slate-200',
+};
+
+const PriorityBadge: React.FC<{ priority: TicketPriority }> = ({ priority }) => (
+  <span className={`inline-flex items-center gap-1 text-[10px] font-semibold px-2 py-0.5 rounded-full border whitespace-nowrap ${PRIORITY_STYLES[priority]}`}>
+    {priority === 'critica' && <AlertTriangle className="w-3 h-3" />}
+    Prioridad {PRIORITY_LABELS[priority].toLowerCase()}
+  </span>
+);
+
+export default PriorityBadge;
@@ -0,0 +1,36 @@
+import React from 'react';
+import { Disc } from 'lucide-react';
+import { RECORDING_CONSENT_NOTICE } from '../services/callRecorder';
+
+interface RecordingConsentProps {
+  onAccept: () => void;
+  onDecline: () => void;
+}
+
+// Shown before a recorded call starts; recording only begins once accepted
+const RecordingConsent: React.FC<RecordingConsentProps> = ({ onAccept, onDecline }) => (
+  <div className="fixed inset-0 z-30 flex items-center justify-center bg-slate-900/50 p-4">
+    <div role="dialog" aria-modal="true" aria-labelledby="recording-consent-title" className="bg-white rounded-lg shadow-xl max-w-md w-full p-6">
+      <h2 id="recording-consent-title" className="flex items-center gap-2 text-lg font-bold text-slate-800 mb-3">
+        <Disc className="w-5 h-5 text-red-600" /> Grabación de la llamada
+      </h2>
+      <p className="text-sm text-slate-600 mb-6">{RECORDING_CONSENT_NOTICE}</p>
+      <div className="flex justify-end gap-2">
+        <button
+          onClick={onDecline}
+          className="px-4 py-2 rounded-lg text-sm font-semibold border border-slate-300 text-slate-600 hover:bg-slate-50"
+        >
+          Continuar sin grabar
+        </button>
+        <button
+          onClick={onAccept}
+          className="px-4 py-2 rounded-lg text-sm font-semibold bg-blue-600 text-white hover:bg-blue-700"
+        >
+          Acepto la grabación
+        </button>
+      </div>
+    </div>
+  </div>
+);
+
+export default RecordingConsent;
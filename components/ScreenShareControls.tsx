@@ -0,0 +1,48 @@
+import React from 'react';
+import { Monitor, MonitorOff, Pause, Play } from 'lucide-react';
+import { ScreenShareState } from '../types';
+
+interface ScreenShareControlsProps {
+  state: ScreenShareState;
+  fps: number;
+  onStart: () => void;
+  onPause: (paused: boolean) => void;
+  onStop: () => void;
+}
+
+const ScreenShareControls: React.FC<ScreenShareControlsProps> = ({ state, fps, onStart, onPause, onStop }) => {
+  if (state === 'inactiva') {
+    return (
+      <button
+        onClick={onStart}
+        className="flex items-center gap-2 px-4 py-1.5 rounded-full text-sm font-semibold bg-white border border-slate-300 text-slate-600 hover:border-blue-400 hover:text-blue-600 transition-all"
+      >
+        <Monitor className="w-4 h-4" />
+        Compartir pantalla
+      </button>
+    );
+  }
+
+  const paused = state === 'pausada';
+  return (
+    <div className={`flex items-center gap-3 px-4 py-2 rounded-lg border text-sm ${paused ? 'bg-slate-100 border-slate-300 text-slate-600' : 'bg-red-50 border-red-200 text-red-700'}`}>
+      <span className="flex items-center gap-1.5 font-semibold">
+        <span className={`w-2 h-2 rounded-full ${paused ? 'bg-slate-400' : 'bg-red-600 animate-pulse'}`}></span>
+        {paused ? 'Pantalla en pausa' : 'Compartiendo pantalla'}
+        <span className="text-[10px] font-normal opacity-70">({fps} fps máx.)</span>
+      </span>
+      <button
+        onClick={() => onPause(!paused)}
+        title={paused ? 'Reanudar' : 'Pausar'}
+        className="p-1 rounded hover:bg-white/70"
+      >
+        {paused ? <Play className="w-4 h-4" /> : <Pause className="w-4 h-4" />}
+      </button>
+      <button onClick={onStop} title="Dejar de compartir" className="p-1 rounded hover:bg-white/70">
+        <MonitorOff className="w-4 h-4" />
+      </button>
+    </div>
+  );
+};
+
+export default ScreenShareControls;
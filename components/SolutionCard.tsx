@@ -0,0 +1,46 @@
+import React from 'react';
+import { Lightbulb, Wrench, BookOpen } from 'lucide-react';
+import { SolutionData } from '../types';
+
+interface SolutionCardProps {
+  solutions: SolutionData;
+}
+
+// Troubleshooting steps suggested to the official
+const SolutionCard: React.FC<SolutionCardProps> = ({ solutions }) => (
+  <div className="bg-amber-50 border border-amber-200 rounded-lg p-4 animate-fade-in-up">
+    <div className="flex items-center gap-2 mb-3">
+      <Lightbulb className="w-5 h-5 text-amber-500" />
+      <h3 className="font-semibold text-amber-800 text-sm">Sugerencias Rápidas</h3>
+    </div>
+    <p className="text-xs text-amber-700 mb-2 font-medium">{solutions.title}</p>
+    {!solutions.fallback && (
+      <div className="flex flex-wrap gap-2 mb-2">
+        <span className="text-[10px] font-semibold px-2 py-0.5 rounded-full border bg-white text-amber-700 border-amber-200">
+          Dificultad {solutions.difficulty}
+        </span>
+        {solutions.requiresTechnician && (
+          <span className="flex items-center gap-1 text-[10px] font-semibold px-2 py-0.5 rounded-full border bg-white text-red-600 border-red-200">
+            <Wrench className="w-3 h-3" /> Requiere técnico
+          </span>
+        )}
+      </div>
+    )}
+    <ol className={`${solutions.fallback ? 'list-none italic' : 'list-decimal'} pl-4 space-y-1`}>
+      {solutions.steps.map((step, idx) => (
+        <li key={idx} className="text-xs text-amber-800">{step}</li>
+      ))}
+    </ol>
+    {solutions.sources && solutions.sources.length > 0 && (
+      <div className="mt-3 pt-2 border-t border-amber-200 space-y-0.5">
+        {solutions.sources.map(source => (
+          <p key={source.id} className="flex items-center gap-1 text-[10px] text-amber-700">
+            <BookOpen className="w-3 h-3" /> Fuente: <span className="font-semibold">{source.id}</span> {source.title}
+          </p>
+        ))}
+      </div>
+    )}
+  </div>
+);
+
+export default SolutionCard;
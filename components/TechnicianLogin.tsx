@@ -0,0 +1,59 @@
+import React, { useState } from 'react';
+import { KeyRound } from 'lucide-react';
+
+interface TechnicianLoginProps {
+  onLogin: (clave: string) => Promise<void>;
+}
+
+// Asks for the shared key of the support staff before the queue is shown
+const TechnicianLogin: React.FC<TechnicianLoginProps> = ({ onLogin }) => {
+  const [clave, setClave] = useState('');
+  const [error, setError] = useState('');
+  const [checking, setChecking] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!clave || checking) return;
+    setChecking(true);
+    try {
+      await onLogin(clave);
+    } catch (err: any) {
+      setError(err.message || 'No se pudo abrir la sesión.');
+      setClave('');
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  return (
+    <div className="h-full flex items-center justify-center p-4">
+      <form onSubmit={handleSubmit} className="bg-white border border-slate-200 rounded-lg shadow-sm max-w-sm w-full p-6">
+        <h2 className="flex items-center gap-2 text-lg font-bold text-slate-800 mb-3">
+          <KeyRound className="w-5 h-5 text-blue-600" /> Acceso de la mesa de ayuda
+        </h2>
+        <p className="text-sm text-slate-600 mb-4">
+          Ingrese la clave de la mesa de ayuda para ver los tickets, adjuntos, grabaciones y métricas.
+        </p>
+        <input
+          type="password"
+          value={clave}
+          onChange={(e) => setClave(e.target.value)}
+          autoComplete="current-password"
+          autoFocus
+          placeholder="Clave"
+          className="block w-full px-3 py-2 rounded-lg border border-slate-300 text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+        />
+        {error && <p className="text-xs text-red-600 mt-2">{error}</p>}
+        <button
+          type="submit"
+          disabled={!clave || checking}
+          className="mt-4 w-full px-4 py-2 rounded-lg text-sm font-semibold bg-blue-600 text-white hover:bg-blue-700 disabled:bg-slate-300"
+        >
+          {checking ? 'Verificando…' : 'Entrar'}
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default TechnicianLogin;
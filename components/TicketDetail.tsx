@@ -0,0 +1,332 @@
+import React, { useEffect, useState } from 'react';
+import { ArrowLeft, UserCog, Lock, Mail, Paperclip, History, MessageSquare, Link2, Disc, ScrollText } from 'lucide-react';
+import { StoredTicket, TicketPatch, TicketStatus } from '../types';
+import { TICKET_STATUS_LABELS, EMAIL_DELIVERY_LABELS, STATUS_TRANSITIONS } from '../services/ticketStore';
+import { ticketApi } from '../services/ticketApiClient';
+import { formatTranscript } from '../services/transcript';
+import { formatFileSize } from '../services/attachments';
+import { AUDIT_EVENT_LABELS } from '../services/auditLog';
+import { STATUS_STYLES } from './MyTicketsPanel';
+import SolutionCard from './SolutionCard';
+import PriorityBadge from './PriorityBadge';
+import { CATEGORY_LABELS } from '../services/classification';
+
+interface TicketDetailProps {
+  ticketId: string;
+  // Name of the signed-in technician, used for assignment and internal notes
+  technician: string;
+  onBack: () => void;
+  // Opens another ticket, e.g. the incident this one is linked to
+  onOpen: (ticketId: string) => void;
+}
+
+const TRANSITION_LABELS: Record<TicketStatus, string> = {
+  nuevo: 'Reabrir',
+  en_curso: 'Tomar caso',
+  resuelto: 'Marcar resuelto',
+  cerrado: 'Cerrar',
+};
+
+const Section: React.FC<{ icon: React.ReactNode; title: string; children: React.ReactNode }> = ({ icon, title, children }) => (
+  <section className="bg-white border border-slate-200 rounded-lg p-4">
+    <h3 className="text-xs font-bold text-slate-400 uppercase mb-2 flex items-center gap-1">{icon} {title}</h3>
+    {children}
+  </section>
+);
+
+const TicketDetail: React.FC<TicketDetailProps> = ({ ticketId, technician, onBack, onOpen }) => {
+  const [ticket, setTicket] = useState<StoredTicket | null>(null);
+  const [error, setError] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [statusNote, setStatusNote] = useState('');
+  const [assignee, setAssignee] = useState('');
+  const [internalNote, setInternalNote] = useState('');
+  // Tickets linked to this one as duplicates of the same incident
+  const [related, setRelated] = useState<StoredTicket[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    ticketApi.get(ticketId)
+      .then(result => {
+        if (cancelled) return;
+        setTicket(result);
+        setAssignee(result?.assignedTechnician ?? '');
+        setError(result ? '' : `No existe un ticket con el número ${ticketId}.`);
+      })
+      .catch(e => { if (!cancelled) setError(e.message || 'No se pudo cargar el ticket.'); });
+    ticketApi.list({ parentTicketId: ticketId })
+      .then(result => { if (!cancelled) setRelated(result); })
+      .catch(e => console.error('Error loading related tickets', e));
+    return () => {
+      cancelled = true;
+    };
+  }, [ticketId]);
+
+  const apply = async (patch: TicketPatch): Promise<boolean> => {
+    setSaving(true);
+    try {
+      const updated = await ticketApi.update(ticketId, patch);
+      setTicket(updated);
+      setError('');
+      return true;
+    } catch (e: any) {
+      console.error('Error updating ticket', e);
+      setError(e.message || 'No se pudo actualizar el ticket.');
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleTransition = async (status: TicketStatus) => {
+    if (await apply({ status, note: statusNote.trim() || undefined })) setStatusNote('');
+  };
+
+  const handleAssign = (name: string) => {
+    setAssignee(name);
+    apply({ assignedTechnician: name.trim() });
+  };
+
+  const handleAddNote = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!internalNote.trim()) return;
+    if (await apply({ internalNote: { author: technician || 'Soporte', text: internalNote.trim() } })) setInternalNote('');
+  };
+
+  return (
+    <div className="h-full overflow-y-auto p-6">
+      <button onClick={onBack} className="flex items-center gap-1 text-sm font-semibold text-blue-600 hover:text-blue-800 mb-4">
+        <ArrowLeft className="w-4 h-4" /> Volver a la cola
+      </button>
+
+      {error && (
+        <p className="mb-4 text-sm text-red-600 bg-red-50 border border-red-100 rounded-lg px-4 py-2">{error}</p>
+      )}
+
+      {ticket && (
+        <div className="grid gap-4 lg:grid-cols-3">
+          <div className="lg:col-span-2 space-y-4">
+            <div className="bg-white border border-slate-200 rounded-lg p-4">
+              <div className="flex items-center gap-3 mb-1">
+                <h2 className="text-2xl font-bold text-slate-800">{ticket.ticketId}</h2>
+                <span className={`text-xs font-semibold px-2 py-0.5 rounded-full border ${STATUS_STYLES[ticket.status]}`}>
+                  {TICKET_STATUS_LABELS[ticket.status]}
+                </span>
+                {ticket.classification && <PriorityBadge priority={ticket.classification.priority} />}
+              </div>
+              <p className="text-sm text-slate-600">{ticket.municipalidad} · {ticket.sistema} · {ticket.correo}</p>
+              <p className="text-xs text-slate-400 mt-1">
+                Registrado: {new Date(ticket.timestamp).toLocaleString()}
+                {ticket.flowVersion && ` · Flujo de conversación v${ticket.flowVersion}`}
+              </p>
+              {ticket.classification && (
+                <p className="text-xs text-slate-500 mt-1">
+                  {CATEGORY_LABELS[ticket.classification.category]} · Atención antes de: {new Date(ticket.classification.slaDeadline).toLocaleString()}
+                  {ticket.classification.reason && ` · ${ticket.classification.reason}`}
+                </p>
+              )}
+            </div>
+
+            <Section icon={<MessageSquare className="w-3 h-3" />} title="Descripción">
+              <p className="text-sm text-slate-700 whitespace-pre-wrap">{ticket.descripcion}</p>
+            </Section>
+
+            {ticket.solutions && <SolutionCard solutions={ticket.solutions} />}
+
+            <Section icon={<Mail className="w-3 h-3" />} title="Borrador de correo">
+              {ticket.emailDraft ? (
+                <>
+                  <p className="text-sm font-semibold text-slate-800">{ticket.emailDraft.subject}</p>
+                  <p className="text-sm text-slate-600 whitespace-pre-wrap mt-2">{ticket.emailDraft.body}</p>
+                  {ticket.emailDelivery && (
+                    <p className="text-xs text-slate-400 mt-2 italic">{EMAIL_DELIVERY_LABELS[ticket.emailDelivery.status]}</p>
+                  )}
+                </>
+              ) : (
+                <p className="text-sm text-slate-400 italic">Sin borrador de correo.</p>
+              )}
+            </Section>
+
+            {ticket.attachments && ticket.attachments.length > 0 && (
+              <Section icon={<Paperclip className="w-3 h-3" />} title="Adjuntos">
+                <ul className="space-y-1">
+                  {ticket.attachments.map(attachment => (
+                    <li key={attachment.id} className="text-sm">
+                      <a
+                        href={`/api/tickets/${encodeURIComponent(ticket.ticketId)}/attachments/${attachment.id}`}
+                        target="_blank"
+                        rel="noreferrer"
+                        className="text-blue-600 hover:underline"
+                      >
+                        {attachment.name}
+                      </a>
+                      <span className="text-xs text-slate-400 ml-2">{formatFileSize(attachment.size)}</span>
+                    </li>
+                  ))}
+                </ul>
+              </Section>
+            )}
+
+            {ticket.recording && (
+              <Section icon={<Disc className="w-3 h-3" />} title="Grabación de la llamada">
+                <audio
+                  controls
+                  preload="none"
+                  src={`/api/tickets/${encodeURIComponent(ticket.ticketId)}/recording`}
+                  className="w-full"
+                />
+                <p className="text-xs text-slate-400 mt-2">
+                  {Math.floor(ticket.recording.durationSeconds / 60)}:{String(ticket.recording.durationSeconds % 60).padStart(2, '0')} min · {formatFileSize(ticket.recording.size)} · Consentimiento: {new Date(ticket.recording.consentAt).toLocaleString()}
+                </p>
+              </Section>
+            )}
+
+            {ticket.transcript && ticket.transcript.length > 0 && (
+              <Section icon={<MessageSquare className="w-3 h-3" />} title="Transcripción de la llamada">
+                <pre className="text-xs text-slate-600 whitespace-pre-wrap font-sans max-h-64 overflow-y-auto">{formatTranscript(ticket.transcript)}</pre>
+              </Section>
+            )}
+
+            {ticket.auditLog && ticket.auditLog.length > 0 && (
+              <Section icon={<ScrollText className="w-3 h-3" />} title="Registro de la sesión">
+                <ul className="space-y-1 max-h-64 overflow-y-auto">
+                  {ticket.auditLog.map((event, idx) => (
+                    <li key={idx} className="text-xs text-slate-600">
+                      <span className="text-slate-400">{new Date(event.timestamp).toLocaleTimeString()}</span>
+                      <span className="font-semibold ml-2">{AUDIT_EVENT_LABELS[event.type]}</span>
+                      {event.detail && <span className="ml-1">{event.detail}</span>}
+                    </li>
+                  ))}
+                </ul>
+              </Section>
+            )}
+          </div>
+
+          <div className="space-y-4">
+            <Section icon={<History className="w-3 h-3" />} title="Estado">
+              <div className="flex flex-wrap gap-2 mb-2">
+                {STATUS_TRANSITIONS[ticket.status].map(status => (
+                  <button
+                    key={status}
+                    onClick={() => handleTransition(status)}
+                    disabled={saving}
+                    className="px-3 py-1.5 rounded-lg text-sm font-semibold bg-blue-600 text-white hover:bg-blue-700 disabled:bg-slate-300"
+                  >
+                    {TRANSITION_LABELS[status]}
+                  </button>
+                ))}
+              </div>
+              <textarea
+                value={statusNote}
+                onChange={(e) => setStatusNote(e.target.value)}
+                placeholder="Nota para el funcionario (opcional, visible al consultar el ticket)"
+                rows={2}
+                className="w-full px-3 py-2 rounded-lg border border-slate-300 text-sm"
+              />
+              <ul className="mt-3 space-y-2">
+                {[...ticket.history].reverse().map((entry, idx) => (
+                  <li key={idx} className="text-xs text-slate-600">
+                    <span className="font-semibold">{TICKET_STATUS_LABELS[entry.status]}</span>
+                    <span className="text-slate-400"> · {new Date(entry.timestamp).toLocaleString()}</span>
+                    {entry.note && <p className="text-slate-500">{entry.note}</p>}
+                  </li>
+                ))}
+              </ul>
+            </Section>
+
+            {(ticket.parentTicketId || related.length > 0) && (
+              <Section icon={<Link2 className="w-3 h-3" />} title="Incidente">
+                {ticket.parentTicketId && (
+                  <div className="flex items-center justify-between gap-2 text-sm">
+                    <span className="text-slate-600">
+                      Vinculado a{' '}
+                      <button onClick={() => onOpen(ticket.parentTicketId!)} className="font-semibold text-blue-600 hover:underline">
+                        {ticket.parentTicketId}
+                      </button>
+                    </span>
+                    <button
+                      onClick={() => apply({ parentTicketId: '' })}
+                      disabled={saving}
+                      className="text-xs font-semibold text-slate-500 hover:text-red-600"
+                    >
+                      Desvincular
+                    </button>
+                  </div>
+                )}
+                {related.length > 0 && (
+                  <>
+                    <p className="text-xs text-slate-500 mb-1">{related.length} ticket(s) reportan el mismo problema:</p>
+                    <ul className="space-y-1">
+                      {related.map(child => (
+                        <li key={child.ticketId} className="text-sm flex items-center gap-2">
+                          <button onClick={() => onOpen(child.ticketId)} className="font-semibold text-blue-600 hover:underline">
+                            {child.ticketId}
+                          </button>
+                          <span className="text-xs text-slate-500 truncate">{child.municipalidad}</span>
+                          <span className={`ml-auto text-[10px] font-semibold px-2 py-0.5 rounded-full border whitespace-nowrap ${STATUS_STYLES[child.status]}`}>
+                            {TICKET_STATUS_LABELS[child.status]}
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                  </>
+                )}
+              </Section>
+            )}
+
+            <Section icon={<UserCog className="w-3 h-3" />} title="Técnico asignado">
+              <div className="flex gap-2">
+                <input
+                  value={assignee}
+                  onChange={(e) => setAssignee(e.target.value)}
+                  onBlur={() => assignee !== (ticket.assignedTechnician ?? '') && handleAssign(assignee)}
+                  placeholder="Sin asignar"
+                  className="flex-1 px-3 py-2 rounded-lg border border-slate-300 text-sm"
+                />
+                {technician && ticket.assignedTechnician !== technician && (
+                  <button
+                    onClick={() => handleAssign(technician)}
+                    disabled={saving}
+                    className="px-3 py-2 rounded-lg text-sm font-semibold border border-blue-600 text-blue-600 hover:bg-blue-50"
+                  >
+                    Asignarme
+                  </button>
+                )}
+              </div>
+            </Section>
+
+            <Section icon={<Lock className="w-3 h-3" />} title="Notas internas">
+              <ul className="space-y-2 mb-3">
+                {(ticket.internalNotes ?? []).map((note, idx) => (
+                  <li key={idx} className="text-xs bg-slate-50 border border-slate-100 rounded-lg p-2">
+                    <p className="text-slate-700 whitespace-pre-wrap">{note.text}</p>
+                    <p className="text-slate-400 mt-1">{note.author} · {new Date(note.timestamp).toLocaleString()}</p>
+                  </li>
+                ))}
+                {!ticket.internalNotes?.length && <li className="text-xs text-slate-400 italic">Sin notas internas.</li>}
+              </ul>
+              <form onSubmit={handleAddNote} className="space-y-2">
+                <textarea
+                  value={internalNote}
+                  onChange={(e) => setInternalNote(e.target.value)}
+                  placeholder="Solo visible para el equipo de soporte"
+                  rows={2}
+                  className="w-full px-3 py-2 rounded-lg border border-slate-300 text-sm"
+                />
+                <button
+                  type="submit"
+                  disabled={saving || !internalNote.trim()}
+                  className="px-3 py-1.5 rounded-lg text-sm font-semibold bg-slate-700 text-white disabled:bg-slate-300"
+                >
+                  Agregar nota
+                </button>
+              </form>
+            </Section>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TicketDetail;
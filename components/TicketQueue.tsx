@@ -0,0 +1,182 @@
+import React, { useEffect, useState } from 'react';
+import { Search, RefreshCw, ArrowUp, ArrowDown, Inbox } from 'lucide-react';
+import { StoredTicket, TicketStatus } from '../types';
+import { TICKET_STATUS_LABELS } from '../services/ticketStore';
+import { ticketApi } from '../services/ticketApiClient';
+import { MUNICIPALITIES, SUPPORTED_SYSTEMS } from '../services/catalog';
+import { AGE_FILTERS, DEFAULT_QUEUE_SORT, QueueSort, QueueSortKey, formatAge, sortTickets, ticketAgeHours } from '../services/ticketQueue';
+import { STATUS_STYLES } from './MyTicketsPanel';
+import PriorityBadge from './PriorityBadge';
+
+interface TicketQueueProps {
+  onOpen: (ticketId: string) => void;
+}
+
+const COLUMNS: { key: QueueSortKey; label: string }[] = [
+  { key: 'ticketId', label: 'N° Ticket' },
+  { key: 'municipalidad', label: 'Municipalidad' },
+  { key: 'sistema', label: 'Sistema' },
+  { key: 'priority', label: 'Prioridad' },
+  { key: 'status', label: 'Estado' },
+  { key: 'assignedTechnician', label: 'Técnico' },
+  { key: 'timestamp', label: 'Antigüedad' },
+];
+
+// Ticket queue for support staff, read from the ticket API
+const TicketQueue: React.FC<TicketQueueProps> = ({ onOpen }) => {
+  const [tickets, setTickets] = useState<StoredTicket[]>([]);
+  const [query, setQuery] = useState('');
+  const [status, setStatus] = useState<TicketStatus | ''>('');
+  const [municipalidad, setMunicipalidad] = useState('');
+  const [sistema, setSistema] = useState('');
+  const [minAgeHours, setMinAgeHours] = useState(0);
+  const [sort, setSort] = useState<QueueSort>(DEFAULT_QUEUE_SORT);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+  const [reloadKey, setReloadKey] = useState(0);
+
+  // The municipality filter applies once a catalog name is picked, not while typing
+  const municipalityFilter = MUNICIPALITIES.some(entry => entry.name === municipalidad) ? municipalidad : undefined;
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    ticketApi.list({ query, status: status || undefined, municipalidad: municipalityFilter, sistema: sistema || undefined })
+      .then(result => {
+        if (cancelled) return;
+        setTickets(result);
+        setError('');
+      })
+      .catch(e => {
+        console.error('Error loading ticket queue', e);
+        if (!cancelled) setError(e.message || 'No se pudo cargar la cola de tickets.');
+      })
+      .finally(() => { if (!cancelled) setLoading(false); });
+    return () => {
+      cancelled = true;
+    };
+  }, [query, status, municipalityFilter, sistema, reloadKey]);
+
+  const handleSort = (key: QueueSortKey) => {
+    setSort(prev => ({ key, descending: prev.key === key ? !prev.descending : false }));
+  };
+
+  const now = Date.now();
+  const visible = sortTickets(tickets.filter(ticket => ticketAgeHours(ticket, now) >= minAgeHours), sort);
+
+  return (
+    <div className="flex flex-col h-full">
+      {/* Filters */}
+      <div className="p-4 flex flex-wrap gap-2 border-b border-slate-200 bg-white">
+        <div className="relative flex-1 min-w-[200px]">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400" />
+          <input
+            type="text"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Buscar por N°, descripción o correo"
+            className="w-full pl-9 pr-3 py-2 rounded-lg border border-slate-300 text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          />
+        </div>
+        <input
+          list="queue-municipalities"
+          value={municipalidad}
+          onChange={(e) => setMunicipalidad(e.target.value)}
+          placeholder="Todas las municipalidades"
+          className="px-3 py-2 rounded-lg border border-slate-300 text-sm bg-white"
+        />
+        <datalist id="queue-municipalities">
+          {MUNICIPALITIES.map(entry => <option key={entry.name} value={entry.name} />)}
+        </datalist>
+        <select
+          value={sistema}
+          onChange={(e) => setSistema(e.target.value)}
+          className="px-3 py-2 rounded-lg border border-slate-300 text-sm bg-white"
+        >
+          <option value="">Todos los sistemas</option>
+          {SUPPORTED_SYSTEMS.map(entry => <option key={entry.name} value={entry.name}>{entry.name}</option>)}
+        </select>
+        <select
+          value={status}
+          onChange={(e) => setStatus(e.target.value as TicketStatus | '')}
+          className="px-3 py-2 rounded-lg border border-slate-300 text-sm bg-white"
+        >
+          <option value="">Todos los estados</option>
+          {(Object.keys(TICKET_STATUS_LABELS) as TicketStatus[]).map(key => (
+            <option key={key} value={key}>{TICKET_STATUS_LABELS[key]}</option>
+          ))}
+        </select>
+        <select
+          value={minAgeHours}
+          onChange={(e) => setMinAgeHours(Number(e.target.value))}
+          className="px-3 py-2 rounded-lg border border-slate-300 text-sm bg-white"
+        >
+          <option value={0}>Cualquier antigüedad</option>
+          {AGE_FILTERS.map(filter => <option key={filter.hours} value={filter.hours}>{filter.label}</option>)}
+        </select>
+        <button
+          onClick={() => setReloadKey(key => key + 1)}
+          title="Actualizar"
+          className="p-2 rounded-lg border border-slate-300 text-slate-500 hover:text-blue-600 bg-white"
+        >
+          <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+        </button>
+      </div>
+
+      {error && (
+        <p className="mx-4 mt-4 text-sm text-red-600 bg-red-50 border border-red-100 rounded-lg px-4 py-2">{error}</p>
+      )}
+
+      {/* Queue */}
+      <div className="flex-1 overflow-auto p-4">
+        {visible.length === 0 ? (
+          <div className="h-full flex flex-col items-center justify-center text-slate-400 text-center space-y-3">
+            <Inbox className="w-8 h-8 text-slate-300" />
+            <p className="text-sm">No hay tickets que coincidan con los filtros.</p>
+          </div>
+        ) : (
+          <table className="w-full text-sm bg-white border border-slate-200 rounded-lg overflow-hidden">
+            <thead className="bg-slate-50 text-xs text-slate-500 uppercase tracking-wider">
+              <tr>
+                {COLUMNS.map(column => (
+                  <th key={column.key} className="text-left font-semibold px-3 py-2">
+                    <button onClick={() => handleSort(column.key)} className="flex items-center gap-1 uppercase">
+                      {column.label}
+                      {sort.key === column.key && (sort.descending ? <ArrowDown className="w-3 h-3" /> : <ArrowUp className="w-3 h-3" />)}
+                    </button>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {visible.map(ticket => (
+                <tr key={ticket.ticketId} onClick={() => onOpen(ticket.ticketId)} className="hover:bg-slate-50 cursor-pointer">
+                  <td className="px-3 py-2 font-bold text-slate-800 whitespace-nowrap">
+                    {ticket.ticketId}
+                    {ticket.parentTicketId && <p className="text-[10px] font-medium text-amber-700">Incidente {ticket.parentTicketId}</p>}
+                  </td>
+                  <td className="px-3 py-2 text-slate-700">{ticket.municipalidad}</td>
+                  <td className="px-3 py-2 text-slate-700">{ticket.sistema}</td>
+                  <td className="px-3 py-2">
+                    {ticket.classification ? <PriorityBadge priority={ticket.classification.priority} /> : <span className="text-slate-400 italic">—</span>}
+                  </td>
+                  <td className="px-3 py-2">
+                    <span className={`text-[10px] font-semibold px-2 py-0.5 rounded-full border whitespace-nowrap ${STATUS_STYLES[ticket.status]}`}>
+                      {TICKET_STATUS_LABELS[ticket.status]}
+                    </span>
+                  </td>
+                  <td className="px-3 py-2 text-slate-600">{ticket.assignedTechnician || <span className="text-slate-400 italic">Sin asignar</span>}</td>
+                  <td className="px-3 py-2 text-slate-600 whitespace-nowrap" title={new Date(ticket.timestamp).toLocaleString()}>
+                    {formatAge(ticketAgeHours(ticket, now))}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TicketQueue;
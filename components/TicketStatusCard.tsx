@@ -0,0 +1,49 @@
+import React from 'react';
+import { Search, UserCog, MessageSquare } from 'lucide-react';
+import { StoredTicket } from '../types';
+import { TICKET_STATUS_LABELS, latestNote } from '../services/ticketStore';
+import { STATUS_STYLES } from './MyTicketsPanel';
+
+interface TicketStatusCardProps {
+  ticket: StoredTicket;
+}
+
+// Result of a voice status lookup for an existing ticket
+const TicketStatusCard: React.FC<TicketStatusCardProps> = ({ ticket }) => {
+  const note = latestNote(ticket);
+
+  return (
+    <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 animate-fade-in-up space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <Search className="w-5 h-5 text-blue-500" />
+          <h3 className="font-semibold text-blue-800 text-sm">Consulta de Ticket</h3>
+        </div>
+        <span className={`text-[10px] font-semibold px-2 py-0.5 rounded-full border ${STATUS_STYLES[ticket.status]}`}>
+          {TICKET_STATUS_LABELS[ticket.status]}
+        </span>
+      </div>
+
+      <div>
+        <p className="text-slate-800 text-xl font-bold">{ticket.ticketId}</p>
+        <p className="text-xs text-slate-600">{ticket.municipalidad} · {ticket.sistema}</p>
+      </div>
+
+      <div className="flex items-center gap-2 text-xs text-slate-700">
+        <UserCog className="w-4 h-4 text-slate-400" />
+        {ticket.assignedTechnician || 'Sin técnico asignado'}
+      </div>
+
+      <div className="flex items-start gap-2 text-xs text-slate-700">
+        <MessageSquare className="w-4 h-4 text-slate-400 flex-shrink-0" />
+        <span>{note || 'Sin notas registradas.'}</span>
+      </div>
+
+      <div className="text-right">
+        <span className="text-[10px] text-slate-400">Actualizado: {new Date(ticket.updatedAt).toLocaleString()}</span>
+      </div>
+    </div>
+  );
+};
+
+export default TicketStatusCard;
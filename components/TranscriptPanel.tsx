@@ -0,0 +1,74 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { MessageSquare, SendHorizontal } from 'lucide-react';
+import { TranscriptEntry } from '../types';
+import { SPEAKER_LABELS } from '../services/transcript';
+
+interface TranscriptPanelProps {
+  entries: TranscriptEntry[];
+  // When provided the panel works as a chat and shows a message box
+  onSend?: (text: string) => void;
+}
+
+const TranscriptPanel: React.FC<TranscriptPanelProps> = ({ entries, onSend }) => {
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const [draft, setDraft] = useState('');
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft.trim() || !onSend) return;
+    onSend(draft);
+    setDraft('');
+  };
+
+  // Keep the latest turn in view
+  useEffect(() => {
+    const el = scrollRef.current;
+    if (el) el.scrollTop = el.scrollHeight;
+  }, [entries]);
+
+  return (
+    <div className="w-full bg-white border border-slate-200 rounded-lg shadow-sm">
+      <div className="px-3 py-2 border-b border-slate-100 flex items-center gap-2">
+        <MessageSquare className="w-4 h-4 text-slate-400" />
+        <h3 className="text-xs font-semibold text-slate-500 uppercase tracking-wider">{onSend ? 'Chat' : 'Transcripción'}</h3>
+      </div>
+      <div ref={scrollRef} className="h-48 overflow-y-auto p-3 space-y-2">
+        {entries.length === 0 ? (
+          <p className="text-xs text-slate-400 text-center mt-16">La conversación aparecerá aquí.</p>
+        ) : (
+          entries.map((entry, idx) => (
+            <div key={idx} className={`flex flex-col ${entry.speaker === 'usuario' ? 'items-end' : 'items-start'}`}>
+              <span className="text-[10px] text-slate-400">
+                {SPEAKER_LABELS[entry.speaker]} · {new Date(entry.timestamp).toLocaleTimeString()}
+              </span>
+              <p className={`text-xs px-3 py-1.5 rounded-lg max-w-[85%] ${entry.speaker === 'usuario' ? 'bg-blue-600 text-white' : 'bg-slate-100 text-slate-800'}`}>
+                {entry.text}
+              </p>
+            </div>
+          ))
+        )}
+      </div>
+      {onSend && (
+        <form onSubmit={handleSubmit} className="flex items-center gap-2 p-2 border-t border-slate-100">
+          <input
+            type="text"
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            placeholder="Escriba su mensaje..."
+            className="flex-1 px-3 py-2 rounded-lg border border-slate-300 text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            autoFocus
+          />
+          <button
+            type="submit"
+            disabled={!draft.trim()}
+            className="p-2 rounded-lg bg-blue-600 text-white disabled:bg-slate-300"
+          >
+            <SendHorizontal className="w-4 h-4" />
+          </button>
+        </form>
+      )}
+    </div>
+  );
+};
+
+export default TranscriptPanel;
@@ -1,6 +1,31 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import BackOffice from './components/BackOffice';
+
+// #/soporte shows the technician queue, #/soporte/metricas the support metrics and
+// #/soporte/<ticketId> a ticket; anything else the call app
+const METRICS_ROUTE = /^#\/soporte\/metricas\/?$/;
+const BACK_OFFICE_ROUTE = /^#\/soporte(?:\/([^/]+))?\/?$/;
+
+const Root = () => {
+  const [hash, setHash] = useState(window.location.hash);
+
+  useEffect(() => {
+    const handleHashChange = () => setHash(window.location.hash);
+    window.addEventListener('hashchange', handleHashChange);
+    return () => window.removeEventListener('hashchange', handleHashChange);
+  }, []);
+
+  if (METRICS_ROUTE.test(hash)) {
+    return <BackOffice view="metricas" />;
+  }
+  const backOffice = hash.match(BACK_OFFICE_ROUTE);
+  if (backOffice) {
+    return <BackOffice ticketId={backOffice[1] ? decodeURIComponent(backOffice[1]) : undefined} />;
+  }
+  return <App />;
+};
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
@@ -10,6 +35,6 @@ if (!rootElement) {
 const root = ReactDOM.createRoot(rootElement);
 root.render(
   <React.StrictMode>
-    <App />
+    <Root />
   </React.StrictMode>
-);
\ No newline at end of file
+);
@@ -0,0 +1,79 @@
+import type { Connect } from 'vite';
+import { AnalyticsEvent } from '../types';
+import { isAnalyticsEventType } from '../services/analytics';
+import { isCategory } from '../services/classification';
+import { AnalyticsStore } from './analyticsStore';
+import { HttpError, readJsonBody, sendError, sendJson } from './http';
+import { TechnicianAuth } from './technicianAuth';
+
+const ROUTE = /^\/api\/analytics\/?$/;
+
+// Clients send their pending events in batches of at most this many
+const MAX_BATCH_EVENTS = 1000;
+
+const optionalText = (value: unknown): string | undefined =>
+  typeof value === 'string' && value.trim() ? value.trim().slice(0, 500) : undefined;
+
+const optionalNumber = (value: unknown): number | undefined =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 0 ? value : undefined;
+
+function parseEvent(value: any): AnalyticsEvent {
+  if (!isAnalyticsEventType(value?.type) || typeof value.sessionId !== 'string' || isNaN(Date.parse(value.timestamp))) {
+    throw new HttpError(400, 'Evento de métricas no válido.');
+  }
+  const event: AnalyticsEvent = {
+    timestamp: value.timestamp,
+    type: value.type,
+    sessionId: value.sessionId.slice(0, 100),
+    ticketId: optionalText(value.ticketId),
+    municipalidad: optionalText(value.municipalidad),
+    sistema: optionalText(value.sistema),
+    category: isCategory(value.category) ? value.category : undefined,
+    tool: optionalText(value.tool),
+    durationMs: optionalNumber(value.durationMs),
+    ok: typeof value.ok === 'boolean' ? value.ok : undefined,
+    detail: optionalText(value.detail),
+  };
+  // Drop fields that were not sent
+  return Object.fromEntries(Object.entries(event).filter(([, field]) => field !== undefined)) as AnalyticsEvent;
+}
+
+const parsePeriodParam = (value: string | null): string | undefined => {
+  if (!value) return undefined;
+  if (isNaN(Date.parse(value))) {
+    throw new HttpError(400, `Fecha no válida: ${value}.`);
+  }
+  return new Date(value).toISOString();
+};
+
+// Any client posts its events; only the support staff read them back
+export function createAnalyticsApi(store: AnalyticsStore, staff: TechnicianAuth): Connect.NextHandleFunction {
+  return async (req, res, next) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    if (!ROUTE.test(url.pathname)) return next();
+
+    try {
+      if (req.method === 'POST') {
+        const body = await readJsonBody<unknown>(req);
+        if (!Array.isArray(body) || body.length > MAX_BATCH_EVENTS) {
+          throw new HttpError(400, `Se esperaba una lista de hasta ${MAX_BATCH_EVENTS} eventos.`);
+        }
+        const events = body.map(parseEvent);
+        await store.append(events);
+        return sendJson(res, 202, { stored: events.length });
+      }
+
+      if (req.method === 'GET') {
+        staff.require(req);
+        return sendJson(res, 200, await store.list({
+          from: parsePeriodParam(url.searchParams.get('from')),
+          to: parsePeriodParam(url.searchParams.get('to')),
+        }));
+      }
+
+      throw new HttpError(405, 'Método no permitido.');
+    } catch (e) {
+      sendError(res, e);
+    }
+  };
+}
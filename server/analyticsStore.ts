@@ -0,0 +1,46 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { AnalyticsEvent } from '../types';
+import { AnalyticsPeriod } from '../services/analytics';
+
+// Appends events to a JSON Lines file, one event per line. Appends are
+// serialized so concurrent batches never interleave.
+export class AnalyticsStore {
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(private filePath: string) {}
+
+  async append(events: AnalyticsEvent[]): Promise<void> {
+    if (events.length === 0) return;
+    const lines = events.map(event => JSON.stringify(event)).join('\n') + '\n';
+    const write = this.writeQueue.then(async () => {
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      await fs.appendFile(this.filePath, lines, 'utf-8');
+    });
+    this.writeQueue = write.catch(() => undefined);
+    await write;
+  }
+
+  async list(period: AnalyticsPeriod = {}): Promise<AnalyticsEvent[]> {
+    let content: string;
+    try {
+      content = await fs.readFile(this.filePath, 'utf-8');
+    } catch (e: any) {
+      if (e.code === 'ENOENT') return [];
+      throw e;
+    }
+    return content
+      .split('\n')
+      .filter(Boolean)
+      .map(line => {
+        try {
+          return JSON.parse(line) as AnalyticsEvent;
+        } catch {
+          // A line cut short by a crash is skipped
+          return null;
+        }
+      })
+      .filter((event): event is AnalyticsEvent => !!event)
+      .filter(event => (!period.from || event.timestamp >= period.from) && (!period.to || event.timestamp < period.to));
+  }
+}
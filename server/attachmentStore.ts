@@ -0,0 +1,44 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { TicketAttachment } from '../types';
+import { checkAttachment } from '../services/attachments';
+import { HttpError } from './http';
+
+// Keeps attachment contents as files under <dir>/<ticketId>/<attachmentId>,
+// so tickets.json and ticket listings only carry metadata.
+export class AttachmentStore {
+  constructor(private dir: string) {}
+
+  filePath(ticketId: string, attachmentId: string): string {
+    return path.join(this.dir, ticketId, attachmentId);
+  }
+
+  // Writes the entries that carry data and returns the list without it. Entries
+  // without data must already belong to the ticket.
+  async store(ticketId: string, attachments: TicketAttachment[], existing: TicketAttachment[] = []): Promise<TicketAttachment[]> {
+    const stored: TicketAttachment[] = [];
+    for (const { data, ...attachment } of attachments) {
+      if (data === undefined) {
+        const known = existing.find(a => a.id === attachment.id);
+        if (!known) {
+          throw new HttpError(400, `El adjunto ${attachment.id} no existe en el ticket ${ticketId}.`);
+        }
+        stored.push(known);
+        continue;
+      }
+      const content = Buffer.from(data, 'base64');
+      const problem = checkAttachment({ ...attachment, size: content.length }, stored.length);
+      if (problem) {
+        throw new HttpError(400, problem);
+      }
+      await fs.mkdir(path.join(this.dir, ticketId), { recursive: true });
+      await fs.writeFile(this.filePath(ticketId, attachment.id), content);
+      stored.push({ ...attachment, size: content.length });
+    }
+    return stored;
+  }
+
+  read(ticketId: string, attachmentId: string): Promise<Buffer> {
+    return fs.readFile(this.filePath(ticketId, attachmentId));
+  }
+}
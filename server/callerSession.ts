@@ -0,0 +1,62 @@
+import { randomBytes } from 'crypto';
+import type { IncomingMessage, ServerResponse } from 'http';
+import { VerifiedEmail } from '../types';
+import { HttpError, readCookie, setSessionCookie } from './http';
+import { signToken, verifyToken } from './signedToken';
+
+const COOKIE = 'soporte_sesion';
+// Covers a long call and the uploads when it ends; afterwards the address is verified again
+export const CALLER_SESSION_TTL_MS = 2 * 60 * 60 * 1000;
+
+interface CallerClaims {
+  rol: 'funcionario';
+  correo: string;
+  municipalidad?: string;
+  codeVerifiedAt?: string;
+  openedAt: number;
+}
+
+export interface CallerSession extends VerifiedEmail {
+  // ms since epoch
+  openedAt: number;
+}
+
+// Officials get a signed session once their address is verified: with the
+// one-time code when requireCode is on, against the domain allowlist otherwise.
+// The ticket and Gemini APIs take the caller's address from it, never from the
+// request body. Without SESSION_SECRET a random one is used, so a restart ends
+// every session.
+export class CallerSessions {
+  private secret: string;
+
+  constructor(secret?: string) {
+    this.secret = secret || randomBytes(32).toString('base64url');
+  }
+
+  open(req: IncomingMessage, res: ServerResponse, caller: VerifiedEmail, now: number = Date.now()): VerifiedEmail {
+    const claims: CallerClaims = {
+      rol: 'funcionario',
+      correo: caller.correo,
+      municipalidad: caller.municipalidad,
+      codeVerifiedAt: caller.codeVerifiedAt,
+      openedAt: now,
+    };
+    setSessionCookie(req, res, COOKIE, signToken(this.secret, claims, CALLER_SESSION_TTL_MS, now), CALLER_SESSION_TTL_MS);
+    return { ...caller, sessionExpiresAt: new Date(now + CALLER_SESSION_TTL_MS).toISOString() };
+  }
+
+  caller(req: IncomingMessage, now: number = Date.now()): CallerSession | null {
+    const token = readCookie(req, COOKIE);
+    const claims = token ? verifyToken<CallerClaims>(this.secret, token, now) : null;
+    if (claims?.rol !== 'funcionario') return null;
+    return { correo: claims.correo, municipalidad: claims.municipalidad, codeVerifiedAt: claims.codeVerifiedAt, openedAt: claims.openedAt };
+  }
+
+  require(req: IncomingMessage): CallerSession {
+    const caller = this.caller(req);
+    if (!caller) {
+      throw new HttpError(401, 'La sesión venció o el correo no fue verificado. Ingrese su correo nuevamente.');
+    }
+    return caller;
+  }
+}
@@ -0,0 +1,86 @@
+import { createHash, randomInt, timingSafeEqual } from 'crypto';
+import { EmailCodeRequest, VerifiedEmail } from '../types';
+import { EMAIL_CODE_LENGTH } from '../services/emailPolicy';
+import { MailTransport } from './mailTransport';
+import { HttpError } from './http';
+
+interface PendingCode {
+  municipalidad?: string;
+  codeHash: Buffer;
+  expiresAt: number;
+  sentAt: number;
+  attempts: number;
+}
+
+export interface EmailVerifierOptions {
+  from: string;
+  codeTtlMs?: number;
+  maxAttempts?: number;
+  // Minimum time between two codes for the same address
+  resendIntervalMs?: number;
+}
+
+const hashCode = (code: string) => createHash('sha256').update(code).digest();
+
+// Mails one-time codes through any MailTransport and checks them. Pending codes
+// live in memory only: they expire in minutes, and a restart just asks for a new one.
+export class EmailVerifier {
+  private pending = new Map<string, PendingCode>();
+
+  constructor(private transport: MailTransport, private options: EmailVerifierOptions) {}
+
+  async requestCode(correo: string, municipalidad: string | undefined, now: number = Date.now()): Promise<EmailCodeRequest> {
+    const previous = this.pending.get(correo);
+    const resendIntervalMs = this.options.resendIntervalMs ?? 60 * 1000;
+    if (previous && now - previous.sentAt < resendIntervalMs) {
+      throw new HttpError(429, 'Ya enviamos un código a este correo. Espere un minuto antes de pedir otro.');
+    }
+
+    const code = String(randomInt(0, 10 ** EMAIL_CODE_LENGTH)).padStart(EMAIL_CODE_LENGTH, '0');
+    const ttlMs = this.options.codeTtlMs ?? 10 * 60 * 1000;
+    try {
+      await this.transport.send({
+        from: this.options.from,
+        to: correo,
+        subject: 'Código de verificación - Soporte Sistemas',
+        text: `Su código para iniciar la atención de Soporte Sistemas es: ${code}\n\n` +
+          `Vence en ${Math.round(ttlMs / 60000)} minutos. Si usted no lo solicitó, ignore este mensaje.`,
+      });
+    } catch (e) {
+      console.error('Error sending verification code', e);
+      throw new HttpError(502, 'No se pudo enviar el código de verificación. Inténtelo más tarde.');
+    }
+
+    const expiresAt = now + ttlMs;
+    this.pending.set(correo, { municipalidad, codeHash: hashCode(code), expiresAt, sentAt: now, attempts: 0 });
+    this.prune(now);
+    return { correo, expiresAt: new Date(expiresAt).toISOString() };
+  }
+
+  confirmCode(correo: string, code: string, now: number = Date.now()): VerifiedEmail {
+    const entry = this.pending.get(correo);
+    if (!entry || entry.expiresAt <= now) {
+      this.pending.delete(correo);
+      throw new HttpError(410, 'El código venció o no fue solicitado. Pida uno nuevo.');
+    }
+
+    entry.attempts++;
+    if (!timingSafeEqual(entry.codeHash, hashCode(code.trim()))) {
+      const remaining = (this.options.maxAttempts ?? 5) - entry.attempts;
+      if (remaining <= 0) {
+        this.pending.delete(correo);
+        throw new HttpError(429, 'Demasiados intentos fallidos. Pida un nuevo código.');
+      }
+      throw new HttpError(400, `El código no es correcto. Le quedan ${remaining} intentos.`);
+    }
+
+    this.pending.delete(correo);
+    return { correo, municipalidad: entry.municipalidad, codeVerifiedAt: new Date(now).toISOString() };
+  }
+
+  private prune(now: number) {
+    this.pending.forEach((entry, correo) => {
+      if (entry.expiresAt <= now) this.pending.delete(correo);
+    });
+  }
+}
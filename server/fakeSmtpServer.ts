@@ -0,0 +1,113 @@
+import net from 'net';
+import path from 'path';
+import { promises as fs } from 'fs';
+
+export interface ReceivedMail {
+  from: string;
+  to: string[];
+  data: string;
+}
+
+// Minimal SMTP server for local development and tests. It accepts every
+// message, keeps it in memory and optionally writes it as an .eml file.
+export class FakeSmtpServer {
+  readonly received: ReceivedMail[] = [];
+  private server: net.Server | null = null;
+  private failures = 0;
+
+  // Port 0 picks a free one; read it back with `port` after listen()
+  constructor(private options: { port: number; host?: string; outputDir?: string }) {}
+
+  get port(): number {
+    const address = this.server?.address();
+    return address && typeof address === 'object' ? address.port : this.options.port;
+  }
+
+  // Rejects the next messages with a temporary error, as a busy relay would
+  failNext(count: number) {
+    this.failures = count;
+  }
+
+  listen(): Promise<void> {
+    this.server = net.createServer(socket => this.handle(socket));
+    return new Promise((resolve, reject) => {
+      this.server!.once('error', reject);
+      this.server!.listen(this.options.port, this.options.host ?? '127.0.0.1', () => resolve());
+    });
+  }
+
+  close(): Promise<void> {
+    return new Promise(resolve => (this.server ? this.server.close(() => resolve()) : resolve()));
+  }
+
+  private handle(socket: net.Socket) {
+    let buffer = '';
+    let inData = false;
+    let mail: ReceivedMail = { from: '', to: [], data: '' };
+    const reply = (line: string) => socket.write(`${line}\r\n`);
+
+    reply('220 fake-smtp ESMTP ready');
+
+    socket.on('data', chunk => {
+      buffer += chunk.toString('utf-8');
+
+      while (true) {
+        if (inData) {
+          const end = buffer.indexOf('\r\n.\r\n');
+          if (end === -1) return;
+          mail.data = buffer.slice(0, end).replace(/^\.\./gm, '.');
+          buffer = buffer.slice(end + 5);
+          inData = false;
+          if (this.failures > 0) {
+            this.failures -= 1;
+            reply('451 Temporary failure, try again later');
+          } else {
+            this.store(mail);
+            reply('250 OK: message queued');
+          }
+          mail = { from: '', to: [], data: '' };
+          continue;
+        }
+
+        const lineEnd = buffer.indexOf('\r\n');
+        if (lineEnd === -1) return;
+        const line = buffer.slice(0, lineEnd);
+        buffer = buffer.slice(lineEnd + 2);
+        const command = line.slice(0, 4).toUpperCase();
+
+        if (command === 'EHLO' || command === 'HELO') {
+          reply('250 fake-smtp');
+        } else if (command === 'MAIL') {
+          mail.from = line.replace(/^MAIL FROM:\s*/i, '');
+          reply('250 OK');
+        } else if (command === 'RCPT') {
+          mail.to.push(line.replace(/^RCPT TO:\s*/i, ''));
+          reply('250 OK');
+        } else if (command === 'DATA') {
+          inData = true;
+          reply('354 End data with <CR><LF>.<CR><LF>');
+        } else if (command === 'RSET' || command === 'NOOP') {
+          reply('250 OK');
+        } else if (command === 'QUIT') {
+          reply('221 Bye');
+          socket.end();
+          return;
+        } else {
+          reply('502 Command not implemented');
+        }
+      }
+    });
+  }
+
+  private async store(mail: ReceivedMail) {
+    this.received.push(mail);
+    console.log(`[fake-smtp] Message from ${mail.from} to ${mail.to.join(', ')}`);
+    if (!this.options.outputDir) return;
+    try {
+      await fs.mkdir(this.options.outputDir, { recursive: true });
+      await fs.writeFile(path.join(this.options.outputDir, `${Date.now()}.eml`), mail.data, 'utf-8');
+    } catch (e) {
+      console.error('[fake-smtp] Could not write message', e);
+    }
+  }
+}
@@ -0,0 +1,36 @@
+import { StoredTicket } from '../types';
+import { TicketStoreAdapter } from '../services/ticketStore';
+import { readJsonFile, writeJsonFile } from './jsonFile';
+
+// Persists tickets as a single JSON document. Writes are serialized so
+// concurrent requests never interleave.
+export class FileTicketStore implements TicketStoreAdapter {
+  private cache: Map<string, StoredTicket> | null = null;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(private filePath: string) {}
+
+  async getAll(): Promise<StoredTicket[]> {
+    return Array.from((await this.load()).values());
+  }
+
+  async get(ticketId: string): Promise<StoredTicket | null> {
+    return (await this.load()).get(ticketId) ?? null;
+  }
+
+  async put(ticket: StoredTicket): Promise<void> {
+    const tickets = await this.load();
+    tickets.set(ticket.ticketId, ticket);
+    const write = this.writeQueue.then(() => writeJsonFile(this.filePath, Array.from(tickets.values())));
+    this.writeQueue = write.catch(() => undefined);
+    await write;
+  }
+
+  private async load(): Promise<Map<string, StoredTicket>> {
+    if (!this.cache) {
+      const tickets = await readJsonFile<StoredTicket[]>(this.filePath, []);
+      this.cache = new Map(tickets.map(ticket => [ticket.ticketId, ticket]));
+    }
+    return this.cache;
+  }
+}
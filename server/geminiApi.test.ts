@@ -0,0 +1,79 @@
+import os from 'os';
+import path from 'path';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { promises as fs } from 'fs';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { CONTENT_MODEL } from '../services/liveTransport';
+import { CallerSessions } from './callerSession';
+import { GeminiBackend, createGeminiApi } from './geminiApi';
+import { DEFAULT_USAGE_LIMITS, UsageLimiter } from './usageLimiter';
+
+const CALLER = { correo: 'ana.rojas@munistgo.cl', municipalidad: 'Santiago' };
+
+describe('Gemini proxy', () => {
+  let dataDir: string;
+  let server: http.Server;
+  let baseUrl: string;
+  let sessions: CallerSessions;
+  let prompts: string[];
+
+  beforeEach(async () => {
+    dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'gemini-api-'));
+    sessions = new CallerSessions('secreto-de-prueba');
+    prompts = [];
+    const backend: GeminiBackend = {
+      createLiveToken: async () => 'token-efimero',
+      generateContent: async params => {
+        prompts.push(String(params.contents));
+        return { text: 'respuesta' };
+      },
+    };
+    const limiter = new UsageLimiter(path.join(dataDir, 'usage.json'), {
+      ...DEFAULT_USAGE_LIMITS,
+      generate: { burst: 2, windowMs: 60 * 1000, daily: 300 },
+    });
+    const handler = createGeminiApi(backend, sessions, limiter);
+    server = http.createServer((req, res) => {
+      // Stands in for POST /api/verification/session
+      if (req.url === '/session') {
+        sessions.open(req, res, CALLER);
+        return res.end();
+      }
+      handler(req, res, () => {
+        res.statusCode = 404;
+        res.end();
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => server.close(resolve));
+    await fs.rm(dataDir, { recursive: true, force: true });
+  });
+
+  const verify = async () => (await fetch(`${baseUrl}/session`)).headers.get('set-cookie')!.split(';')[0];
+
+  const generate = (cookie: string | null, correo: string) => fetch(`${baseUrl}/api/gemini/generate`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...(cookie ? { Cookie: cookie } : {}) },
+    body: JSON.stringify({ correo, model: CONTENT_MODEL, contents: 'Genera consejos' }),
+  });
+
+  it('refuses callers without a verified session, whatever address they send', async () => {
+    expect((await generate(null, CALLER.correo)).status).toBe(401);
+    expect(prompts).toEqual([]);
+  });
+
+  it('counts the requests against the session address, not the one in the body', async () => {
+    const cookie = await verify();
+    expect((await generate(cookie, 'otro1@munistgo.cl')).status).toBe(200);
+    expect((await generate(cookie, 'otro2@munistgo.cl')).status).toBe(200);
+
+    const limited = await generate(cookie, 'otro3@munistgo.cl');
+    expect(limited.status).toBe(429);
+    expect((await limited.json()).error).toContain(CALLER.correo);
+  });
+});
@@ -0,0 +1,117 @@
+import type { Connect } from 'vite';
+import { GenerateContentParameters, GoogleGenAI } from '@google/genai';
+import { CONTENT_MODEL, LIVE_MODEL } from '../services/liveTransport';
+import { CallerSessions } from './callerSession';
+import { UsageLimiter } from './usageLimiter';
+import { HttpError, readJsonBody, sendError, sendJson } from './http';
+
+const ROUTE = /^\/api\/gemini\/(live-token|generate)\/?$/;
+
+// A Live session lasts until its token expires; Gemini then closes the socket
+// and LiveManager reconnects with a new token
+const LIVE_TOKEN_TTL_MS = 30 * 60 * 1000;
+// The socket has to be opened within a minute of issuing the token
+const NEW_SESSION_WINDOW_MS = 60 * 1000;
+
+// Tips, classification and email prompts are well under this
+const MAX_PROMPT_CHARS = 20000;
+
+// Only the options the app's own prompts use are forwarded
+const CONTENT_CONFIG_FIELDS = ['responseMimeType', 'responseSchema'];
+
+// The calls the proxy makes with the server's API key
+export interface GeminiBackend {
+  createLiveToken(model: string, expireTime: Date, newSessionExpireTime: Date): Promise<string>;
+  generateContent(params: GenerateContentParameters): Promise<{ text?: string }>;
+}
+
+export class GoogleGeminiBackend implements GeminiBackend {
+  private ai: GoogleGenAI;
+
+  constructor(apiKey: string) {
+    this.ai = new GoogleGenAI({ apiKey });
+  }
+
+  // Single-use token locked to the model
+  async createLiveToken(model: string, expireTime: Date, newSessionExpireTime: Date): Promise<string> {
+    const token = await this.ai.authTokens.create({
+      config: {
+        uses: 1,
+        expireTime: expireTime.toISOString(),
+        newSessionExpireTime: newSessionExpireTime.toISOString(),
+        liveConnectConstraints: { model },
+        httpOptions: { apiVersion: 'v1alpha' },
+      },
+    });
+    if (!token.name) throw new Error('Gemini did not return a token');
+    return token.name;
+  }
+
+  async generateContent(params: GenerateContentParameters): Promise<{ text?: string }> {
+    const response = await this.ai.models.generateContent(params);
+    return { text: response.text };
+  }
+}
+
+function parseContentRequest(body: any): GenerateContentParameters {
+  if (body?.model !== CONTENT_MODEL) {
+    throw new HttpError(400, `Modelo no permitido: ${String(body?.model)}.`);
+  }
+  if (typeof body.contents !== 'string' || !body.contents.trim() || body.contents.length > MAX_PROMPT_CHARS) {
+    throw new HttpError(400, `La consulta debe ser un texto de hasta ${MAX_PROMPT_CHARS} caracteres.`);
+  }
+  const config = Object.fromEntries(
+    Object.entries(body.config ?? {}).filter(([field]) => CONTENT_CONFIG_FIELDS.includes(field)),
+  );
+  return { model: CONTENT_MODEL, contents: body.contents, config };
+}
+
+// Keeps the Gemini API key on the server: the browser gets short-lived Live
+// tokens and sends its generateContent calls here. Both need a verified
+// caller's session and are limited per email and per network address.
+export function createGeminiApi(
+  backend: GeminiBackend | null,
+  sessions: CallerSessions,
+  limiter: UsageLimiter,
+): Connect.NextHandleFunction {
+  const callBackend = async <T>(call: () => Promise<T>): Promise<T> => {
+    try {
+      return await call();
+    } catch (e) {
+      console.error('Gemini request failed:', e);
+      throw new HttpError(502, 'El servicio del asistente no respondió. Inténtelo nuevamente.');
+    }
+  };
+
+  return async (req, res, next) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    const match = url.pathname.match(ROUTE);
+    if (!match) return next();
+
+    try {
+      if (req.method !== 'POST') throw new HttpError(405, 'Método no permitido.');
+      if (!backend) {
+        throw new HttpError(503, 'El servidor no tiene configurada la clave de Gemini (GEMINI_API_KEY).');
+      }
+      const caller = sessions.require(req);
+      const body = await readJsonBody<any>(req);
+
+      if (match[1] === 'live-token') {
+        if (body.model !== LIVE_MODEL) {
+          throw new HttpError(400, `Modelo no permitido: ${String(body.model)}.`);
+        }
+        await limiter.consume(caller.correo, req.socket.remoteAddress, 'live');
+        const now = Date.now();
+        const expiresAt = new Date(now + LIVE_TOKEN_TTL_MS);
+        const token = await callBackend(() => backend.createLiveToken(LIVE_MODEL, expiresAt, new Date(now + NEW_SESSION_WINDOW_MS)));
+        return sendJson(res, 200, { token, expiresAt: expiresAt.toISOString() });
+      }
+
+      const params = parseContentRequest(body);
+      await limiter.consume(caller.correo, req.socket.remoteAddress, 'generate');
+      return sendJson(res, 200, await callBackend(() => backend.generateContent(params)));
+    } catch (e) {
+      sendError(res, e);
+    }
+  };
+}
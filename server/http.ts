@@ -0,0 +1,75 @@
+import type { IncomingMessage, ServerResponse } from 'http';
+
+const MAX_BODY_BYTES = 1024 * 1024;
+
+// Error carrying the HTTP status to answer with
+export class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+export function sendJson(res: ServerResponse, status: number, payload: unknown) {
+  res.statusCode = status;
+  res.setHeader('Content-Type', 'application/json; charset=utf-8');
+  res.end(JSON.stringify(payload));
+}
+
+export function sendError(res: ServerResponse, error: unknown) {
+  if (error instanceof HttpError) {
+    sendJson(res, error.status, { error: error.message });
+  } else {
+    console.error('Unexpected API error:', error);
+    sendJson(res, 500, { error: 'Error interno del servidor.' });
+  }
+}
+
+export async function readRawBody(req: IncomingMessage, maxBytes: number = MAX_BODY_BYTES): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > maxBytes) {
+      throw new HttpError(413, 'El cuerpo de la solicitud es demasiado grande.');
+    }
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks);
+}
+
+export async function readJsonBody<T>(req: IncomingMessage, maxBytes: number = MAX_BODY_BYTES): Promise<T> {
+  const body = await readRawBody(req, maxBytes);
+  if (body.length === 0) return {} as T;
+
+  try {
+    return JSON.parse(body.toString('utf-8')) as T;
+  } catch {
+    throw new HttpError(400, 'El cuerpo de la solicitud no es JSON válido.');
+  }
+}
+
+export function readCookie(req: IncomingMessage, name: string): string | undefined {
+  for (const pair of (req.headers.cookie ?? '').split(';')) {
+    const separator = pair.indexOf('=');
+    if (separator > 0 && pair.slice(0, separator).trim() === name) {
+      return decodeURIComponent(pair.slice(separator + 1).trim());
+    }
+  }
+  return undefined;
+}
+
+// Session cookies are only sent to the API and never readable from scripts.
+// A maxAgeMs of 0 deletes the cookie.
+export function setSessionCookie(req: IncomingMessage, res: ServerResponse, name: string, value: string, maxAgeMs: number) {
+  const attributes = [
+    `${name}=${encodeURIComponent(value)}`,
+    'Path=/api',
+    `Max-Age=${Math.floor(maxAgeMs / 1000)}`,
+    'HttpOnly',
+    'SameSite=Strict',
+  ];
+  if ((req.socket as { encrypted?: boolean }).encrypted) {
+    attributes.push('Secure');
+  }
+  res.setHeader('Set-Cookie', attributes.join('; '));
+}
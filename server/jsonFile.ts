@@ -0,0 +1,19 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+
+export async function readJsonFile<T>(filePath: string, fallback: T): Promise<T> {
+  try {
+    return JSON.parse(await fs.readFile(filePath, 'utf-8')) as T;
+  } catch (e: any) {
+    if (e.code === 'ENOENT') return fallback;
+    throw e;
+  }
+}
+
+// Writes to a temporary file first so a crash never leaves a half-written document
+export async function writeJsonFile(filePath: string, data: unknown): Promise<void> {
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  const tmpPath = `${filePath}.tmp`;
+  await fs.writeFile(tmpPath, JSON.stringify(data, null, 2), 'utf-8');
+  await fs.rename(tmpPath, filePath);
+}
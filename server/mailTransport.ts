@@ -0,0 +1,70 @@
+import nodemailer from 'nodemailer';
+
+// Read from disk by nodemailer when the message is sent
+export interface MailAttachment {
+  filename: string;
+  contentType: string;
+  path: string;
+}
+
+export interface MailMessage {
+  from: string;
+  to: string;
+  cc?: string;
+  subject: string;
+  text: string;
+  attachments?: MailAttachment[];
+}
+
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  secure: boolean;
+  user?: string;
+  pass?: string;
+  // Only for the local fake server, which does not offer STARTTLS
+  ignoreTLS?: boolean;
+}
+
+export class SmtpMailTransport implements MailTransport {
+  private transporter: nodemailer.Transporter;
+
+  constructor(config: SmtpConfig) {
+    this.transporter = nodemailer.createTransport({
+      host: config.host,
+      port: config.port,
+      secure: config.secure,
+      auth: config.user ? { user: config.user, pass: config.pass } : undefined,
+      ignoreTLS: config.ignoreTLS ?? false,
+    });
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    await this.transporter.sendMail(message);
+  }
+}
+
+export interface MailSettings {
+  smtp: SmtpConfig;
+  from: string;
+  supportMailbox: string;
+}
+
+export function mailSettingsFromEnv(env: Record<string, string>): MailSettings {
+  return {
+    smtp: {
+      host: env.SMTP_HOST || '127.0.0.1',
+      port: Number(env.SMTP_PORT || 2525),
+      secure: env.SMTP_SECURE === 'true',
+      user: env.SMTP_USER || undefined,
+      pass: env.SMTP_PASS || undefined,
+      ignoreTLS: env.SMTP_FAKE === 'true',
+    },
+    from: env.MAIL_FROM || 'Soporte Sistemas <no-responder@sistemas.cl>',
+    supportMailbox: env.SUPPORT_MAILBOX || 'soporte@sistemas.cl',
+  };
+}
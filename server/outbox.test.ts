@@ -0,0 +1,134 @@
+import os from 'os';
+import path from 'path';
+import { promises as fs } from 'fs';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { MemoryTicketAdapter, TicketRepository } from '../services/ticketStore';
+import { FakeSmtpServer } from './fakeSmtpServer';
+import { SmtpMailTransport, mailSettingsFromEnv } from './mailTransport';
+import { Outbox } from './outbox';
+
+const BASE_DELAY_MS = 1000;
+
+describe('Outbox over SMTP', () => {
+  let smtp: FakeSmtpServer;
+  let dataDir: string;
+  let repository: TicketRepository;
+  let outbox: Outbox;
+
+  beforeEach(async () => {
+    // Only the clock is faked: the SMTP conversation needs real sockets and timers
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2026-03-02T12:00:00Z'));
+    smtp = new FakeSmtpServer({ port: 0 });
+    await smtp.listen();
+    dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'outbox-'));
+    repository = new TicketRepository(new MemoryTicketAdapter());
+    const settings = mailSettingsFromEnv({ SMTP_PORT: String(smtp.port), SMTP_FAKE: 'true' });
+    outbox = new Outbox(new SmtpMailTransport(settings.smtp), repository, {
+      filePath: path.join(dataDir, 'outbox.json'),
+      from: settings.from,
+      supportMailbox: settings.supportMailbox,
+      maxAttempts: 3,
+      baseRetryDelayMs: BASE_DELAY_MS,
+    });
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    await smtp.close();
+    await fs.rm(dataDir, { recursive: true, force: true });
+  });
+
+  const createTicket = () => repository.create({
+    ticketId: 'T-2026-SANT-00042-K',
+    correo: 'ana.rojas@munistgo.cl',
+    municipalidad: 'Santiago',
+    sistema: 'Contabilidad',
+    descripcion: 'No puedo cerrar el mes contable, mi RUT es 12.345.678-5',
+    timestamp: new Date().toISOString(),
+    transcript: [{ speaker: 'usuario', text: 'Hola, no puedo cerrar el mes', timestamp: new Date().toISOString() }],
+  });
+
+  const queued = async () => JSON.parse(await fs.readFile(path.join(dataDir, 'outbox.json'), 'utf-8'));
+
+  it('delivers the email built from the stored ticket to support with the official in CC', async () => {
+    const ticket = await createTicket();
+    await outbox.enqueue(ticket);
+    await outbox.process();
+
+    expect(smtp.received).toHaveLength(1);
+    const [mail] = smtp.received;
+    expect(mail.to).toEqual(['<soporte@sistemas.cl>', '<ana.rojas@munistgo.cl>']);
+    expect(mail.data).toContain('Subject: Ticket T-2026-SANT-00042-K - Soporte Santiago - Contabilidad');
+    expect(mail.data).toContain('No puedo cerrar el mes contable');
+    expect(mail.data).toContain('Transcripci');
+    expect(mail.data).not.toContain('12.345.678-5');
+
+    const stored = await repository.get(ticket.ticketId);
+    expect(stored!.emailDelivery).toMatchObject({ status: 'enviado', attempts: 1 });
+    expect(await queued()).toEqual([]);
+  });
+
+  it('retries a rejected message with exponential backoff until it is accepted', async () => {
+    smtp.failNext(2);
+    const ticket = await createTicket();
+    const start = Date.now();
+
+    await outbox.enqueue(ticket);
+    await outbox.process();
+    expect(smtp.received).toHaveLength(0);
+    expect((await repository.get(ticket.ticketId))!.emailDelivery).toMatchObject({ status: 'pendiente', attempts: 1 });
+    expect((await queued())[0].nextAttemptAt).toBe(start + BASE_DELAY_MS);
+
+    // Not due yet: nothing is attempted
+    vi.setSystemTime(start + BASE_DELAY_MS - 1);
+    await outbox.process();
+    expect((await queued())[0].attempts).toBe(1);
+
+    vi.setSystemTime(start + BASE_DELAY_MS);
+    await outbox.process();
+    expect((await queued())[0]).toMatchObject({ attempts: 2, nextAttemptAt: start + 3 * BASE_DELAY_MS });
+
+    vi.setSystemTime(start + 3 * BASE_DELAY_MS);
+    await outbox.process();
+    expect(smtp.received).toHaveLength(1);
+    expect((await repository.get(ticket.ticketId))!.emailDelivery).toMatchObject({ status: 'enviado', attempts: 3 });
+    expect(await queued()).toEqual([]);
+  });
+
+  it('marks the delivery as failed once the attempts run out', async () => {
+    smtp.failNext(3);
+    const ticket = await createTicket();
+
+    await outbox.enqueue(ticket);
+    for (let attempt = 1; attempt <= 3; attempt++) {
+      await outbox.process();
+      vi.setSystemTime(Date.now() + BASE_DELAY_MS * 2 ** attempt);
+    }
+
+    const delivery = (await repository.get(ticket.ticketId))!.emailDelivery;
+    expect(delivery).toMatchObject({ status: 'fallido', attempts: 3 });
+    expect(delivery!.lastError).toContain('451');
+    expect(await queued()).toEqual([]);
+  });
+
+  it('does not reject when the queue cannot be saved', async () => {
+    const ticket = await createTicket();
+    await outbox.enqueue(ticket);
+    await fs.rm(dataDir, { recursive: true, force: true });
+    await fs.writeFile(dataDir, 'not a directory');
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    await expect(outbox.process()).resolves.toBeUndefined();
+    expect(error).toHaveBeenCalled();
+    error.mockRestore();
+    await fs.rm(dataDir);
+  });
+});
+
+describe('mailSettingsFromEnv', () => {
+  it('only skips STARTTLS for the fake server', () => {
+    expect(mailSettingsFromEnv({ SMTP_HOST: 'relay.municipio.cl', SMTP_PORT: '25' }).smtp.ignoreTLS).toBe(false);
+    expect(mailSettingsFromEnv({ SMTP_FAKE: 'true' }).smtp.ignoreTLS).toBe(true);
+  });
+});
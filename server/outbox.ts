@@ -0,0 +1,153 @@
+import { EmailDelivery, StoredTicket } from '../types';
+import { TicketRepository } from '../services/ticketStore';
+import { MailMessage, MailTransport } from './mailTransport';
+import { readJsonFile, writeJsonFile } from './jsonFile';
+import { appendTranscriptToBody } from '../services/transcript';
+import { maskText } from '../services/sanitization';
+import { AttachmentStore } from './attachmentStore';
+import { buildTicketEmail } from './ticketEmail';
+
+interface OutboxEntry {
+  ticketId: string;
+  message: MailMessage;
+  attempts: number;
+  nextAttemptAt: number;
+  lastError?: string;
+}
+
+export interface OutboxOptions {
+  filePath: string;
+  from: string;
+  supportMailbox: string;
+  // Where the files of ticket attachments are kept
+  attachments?: AttachmentStore;
+  maxAttempts?: number;
+  baseRetryDelayMs?: number;
+  pollIntervalMs?: number;
+}
+
+// Queue of ticket emails. Entries survive restarts and failed sends are
+// retried with exponential backoff; the delivery state is mirrored on the ticket.
+export class Outbox {
+  private entries: OutboxEntry[] | null = null;
+  private processing: Promise<void> | null = null;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(
+    private transport: MailTransport,
+    private repository: TicketRepository,
+    private options: OutboxOptions,
+  ) {}
+
+  start() {
+    if (this.timer) return;
+    this.timer = setInterval(() => this.process(), this.options.pollIntervalMs ?? 15000);
+    this.process();
+  }
+
+  stop() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  async enqueue(ticket: StoredTicket): Promise<StoredTicket> {
+    const entries = await this.load();
+    const draft = buildTicketEmail(ticket);
+    const message: MailMessage = {
+      from: this.options.from,
+      to: this.options.supportMailbox,
+      cc: ticket.correo || undefined,
+      subject: draft.subject,
+      // Transcripts stored before masking existed may still carry RUTs or passwords
+      text: maskText(appendTranscriptToBody(draft.body, ticket.transcript)),
+    };
+    const { attachments } = this.options;
+    if (attachments && ticket.attachments?.length) {
+      message.attachments = ticket.attachments.map(a => ({
+        filename: a.name,
+        contentType: a.mimeType,
+        path: attachments.filePath(ticket.ticketId, a.id),
+      }));
+    }
+
+    // Re-sending replaces any pending entry for the same ticket
+    this.entries = [
+      ...entries.filter(entry => entry.ticketId !== ticket.ticketId),
+      { ticketId: ticket.ticketId, message, attempts: 0, nextAttemptAt: Date.now() },
+    ];
+    await this.save();
+
+    const updated = await this.setDelivery(ticket.ticketId, { status: 'pendiente', attempts: 0 });
+    this.process();
+    return updated;
+  }
+
+  // Sends every due entry. Overlapping calls share the same run, which never
+  // rejects: it is started from timers that nobody awaits.
+  process(): Promise<void> {
+    if (!this.processing) {
+      this.processing = this.sendDue()
+        .catch(e => console.error('Outbox run failed:', e))
+        .finally(() => {
+          this.processing = null;
+        });
+    }
+    return this.processing;
+  }
+
+  private async sendDue() {
+    const entries = await this.load();
+    const now = Date.now();
+    const maxAttempts = this.options.maxAttempts ?? 5;
+    const baseDelay = this.options.baseRetryDelayMs ?? 60000;
+
+    for (const entry of entries.filter(e => e.nextAttemptAt <= now)) {
+      entry.attempts += 1;
+      try {
+        await this.transport.send(entry.message);
+        this.entries = this.entries!.filter(e => e !== entry);
+        await this.save();
+        await this.setDelivery(entry.ticketId, {
+          status: 'enviado',
+          attempts: entry.attempts,
+          sentAt: new Date().toISOString(),
+        });
+      } catch (err: any) {
+        entry.lastError = err?.message || String(err);
+        const exhausted = entry.attempts >= maxAttempts;
+        if (exhausted) {
+          this.entries = this.entries!.filter(e => e !== entry);
+        } else {
+          entry.nextAttemptAt = Date.now() + baseDelay * 2 ** (entry.attempts - 1);
+        }
+        await this.save();
+        console.error(`Email for ticket ${entry.ticketId} failed (attempt ${entry.attempts}):`, entry.lastError);
+        await this.setDelivery(entry.ticketId, {
+          status: exhausted ? 'fallido' : 'pendiente',
+          attempts: entry.attempts,
+          lastError: entry.lastError,
+        });
+      }
+    }
+  }
+
+  private setDelivery(ticketId: string, delivery: Omit<EmailDelivery, 'updatedAt'>): Promise<StoredTicket> {
+    return this.repository.patch(ticketId, {
+      emailDelivery: { ...delivery, updatedAt: new Date().toISOString() },
+    });
+  }
+
+  private async load(): Promise<OutboxEntry[]> {
+    if (!this.entries) {
+      this.entries = await readJsonFile<OutboxEntry[]>(this.options.filePath, []);
+    }
+    return this.entries;
+  }
+
+  private save(): Promise<void> {
+    const write = this.writeQueue.then(() => writeJsonFile(this.options.filePath, this.entries ?? []));
+    this.writeQueue = write.catch(() => undefined);
+    return write;
+  }
+}
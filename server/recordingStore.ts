@@ -0,0 +1,21 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+
+// Keeps call recordings as files under <dir>/<ticketId>; the ticket only
+// carries the metadata
+export class RecordingStore {
+  constructor(private dir: string) {}
+
+  filePath(ticketId: string): string {
+    return path.join(this.dir, ticketId);
+  }
+
+  async store(ticketId: string, content: Buffer): Promise<void> {
+    await fs.mkdir(this.dir, { recursive: true });
+    await fs.writeFile(this.filePath(ticketId), content);
+  }
+
+  read(ticketId: string): Promise<Buffer> {
+    return fs.readFile(this.filePath(ticketId));
+  }
+}
@@ -0,0 +1,28 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+
+// Tokens are the base64url JSON claims, a dot and their HMAC-SHA256 with the
+// server's secret. Every token carries its expiry in exp (ms since epoch).
+export interface TokenClaims {
+  exp: number;
+}
+
+const signature = (secret: string, payload: string) => createHmac('sha256', secret).update(payload).digest('base64url');
+
+export function signToken<T extends object>(secret: string, claims: T, ttlMs: number, now: number = Date.now()): string {
+  const payload = Buffer.from(JSON.stringify({ ...claims, exp: now + ttlMs })).toString('base64url');
+  return `${payload}.${signature(secret, payload)}`;
+}
+
+// Returns null for a token that was altered, signed with another secret or has expired
+export function verifyToken<T extends object>(secret: string, token: string, now: number = Date.now()): (T & TokenClaims) | null {
+  const [payload, given, ...rest] = token.split('.');
+  if (!payload || !given || rest.length) return null;
+  const expected = Buffer.from(signature(secret, payload));
+  if (Buffer.byteLength(given) !== expected.length || !timingSafeEqual(Buffer.from(given), expected)) return null;
+  try {
+    const claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf-8'));
+    return typeof claims?.exp === 'number' && claims.exp > now ? claims : null;
+  } catch {
+    return null;
+  }
+}
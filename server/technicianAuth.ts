@@ -0,0 +1,75 @@
+import { createHash, timingSafeEqual } from 'crypto';
+import type { IncomingMessage } from 'http';
+import type { Connect } from 'vite';
+import { HttpError, readCookie, readJsonBody, sendError, sendJson, setSessionCookie } from './http';
+import { signToken, verifyToken } from './signedToken';
+
+const ROUTE = /^\/api\/support\/session\/?$/;
+const COOKIE = 'soporte_tecnico';
+// About a work shift; then the key is asked for again
+const SESSION_TTL_MS = 12 * 60 * 60 * 1000;
+
+const digest = (value: string) => createHash('sha256').update(value).digest();
+
+// Support staff share one key, SUPPORT_STAFF_KEY. Entering it in the back-office
+// opens a session cookie signed with the key, so plain links to attachments and
+// recordings are authorized too. Without a key the staff routes stay closed.
+export class TechnicianAuth {
+  constructor(private key: string | undefined) {}
+
+  isTechnician(req: IncomingMessage): boolean {
+    const token = readCookie(req, COOKIE);
+    return !!this.key && !!token && verifyToken<{ rol: string }>(this.key, token)?.rol === 'tecnico';
+  }
+
+  require(req: IncomingMessage) {
+    this.requireKey();
+    if (!this.isTechnician(req)) {
+      throw new HttpError(401, 'Ingrese la clave de la mesa de ayuda.');
+    }
+  }
+
+  // Returns the token of a new session
+  open(key: string, now: number = Date.now()): string {
+    this.requireKey();
+    if (!timingSafeEqual(digest(key), digest(this.key!))) {
+      throw new HttpError(401, 'La clave de la mesa de ayuda no es correcta.');
+    }
+    return signToken(this.key!, { rol: 'tecnico' }, SESSION_TTL_MS, now);
+  }
+
+  private requireKey() {
+    if (!this.key) {
+      throw new HttpError(503, 'La mesa de ayuda no tiene una clave configurada (SUPPORT_STAFF_KEY).');
+    }
+  }
+}
+
+// GET tells whether the back-office session is open, POST opens it with the
+// key and DELETE closes it
+export function createTechnicianSessionApi(auth: TechnicianAuth): Connect.NextHandleFunction {
+  return async (req, res, next) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    if (!ROUTE.test(url.pathname)) return next();
+
+    try {
+      if (req.method === 'GET') {
+        auth.require(req);
+        return sendJson(res, 200, { open: true });
+      }
+      if (req.method === 'POST') {
+        const body = await readJsonBody<any>(req);
+        const token = auth.open(typeof body?.clave === 'string' ? body.clave : '');
+        setSessionCookie(req, res, COOKIE, token, SESSION_TTL_MS);
+        return sendJson(res, 200, { open: true });
+      }
+      if (req.method === 'DELETE') {
+        setSessionCookie(req, res, COOKIE, '', 0);
+        return sendJson(res, 200, { open: false });
+      }
+      throw new HttpError(405, 'Método no permitido.');
+    } catch (e) {
+      sendError(res, e);
+    }
+  };
+}
@@ -0,0 +1,208 @@
+import os from 'os';
+import path from 'path';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { promises as fs } from 'fs';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { MemoryTicketAdapter, REOPEN_NOTE, TicketRepository } from '../services/ticketStore';
+import { TicketIdGenerator } from '../services/ticketIdGenerator';
+import { AttachmentStore } from './attachmentStore';
+import { RecordingStore } from './recordingStore';
+import { Outbox } from './outbox';
+import { MailMessage, MailTransport } from './mailTransport';
+import { TechnicianAuth, createTechnicianSessionApi } from './technicianAuth';
+import { CallerSessions } from './callerSession';
+import { EmailVerifier } from './emailVerifier';
+import { createVerificationApi } from './verificationApi';
+import { createTicketApi } from './ticketApi';
+import { parseEmailDomainConfig } from '../services/emailPolicy';
+
+const STAFF_KEY = 'clave-de-prueba';
+const TICKET_ID = 'T-2026-SANT-00042-K';
+const OWNER = 'ana.rojas@munistgo.cl';
+const DOMAINS = parseEmailDomainConfig(JSON.stringify({
+  schemaVersion: 1,
+  requireCode: true,
+  municipalities: [{ municipalidad: 'Santiago', domains: ['munistgo.cl'] }],
+}));
+
+describe('ticket API access', () => {
+  let dataDir: string;
+  let repository: TicketRepository;
+  let server: http.Server;
+  let baseUrl: string;
+  let mails: MailMessage[];
+
+  beforeEach(async () => {
+    dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'ticket-api-'));
+    repository = new TicketRepository(new MemoryTicketAdapter());
+    await repository.create({
+      ticketId: TICKET_ID,
+      correo: OWNER,
+      municipalidad: 'Santiago',
+      sistema: 'Contabilidad',
+      descripcion: 'No puedo cerrar el mes contable',
+      timestamp: new Date().toISOString(),
+    });
+    const attachments = new AttachmentStore(path.join(dataDir, 'attachments'));
+    mails = [];
+    const transport: MailTransport = { send: async message => { mails.push(message); } };
+    const outbox = new Outbox(transport, repository, {
+      filePath: path.join(dataDir, 'outbox.json'), attachments, from: 'soporte@sistemas.cl', supportMailbox: 'soporte@sistemas.cl',
+    });
+    const staff = new TechnicianAuth(STAFF_KEY);
+    const sessions = new CallerSessions('secreto-de-prueba');
+    const recordings = new RecordingStore(path.join(dataDir, 'recordings'));
+    const handlers = [
+      createTicketApi(repository, new TicketIdGenerator(async () => []), outbox, attachments, recordings, staff, sessions),
+      createTechnicianSessionApi(staff),
+      createVerificationApi(DOMAINS, new EmailVerifier(transport, { from: 'soporte@sistemas.cl' }), sessions),
+    ];
+    server = http.createServer((req, res) => {
+      // Stands in for POST /api/verification/session with requireCode off
+      if (req.url === '/session-without-code') {
+        sessions.open(req, res, { correo: OWNER, municipalidad: 'Santiago' });
+        return res.end();
+      }
+      const run = (index: number) => {
+        if (index === handlers.length) {
+          res.statusCode = 404;
+          return res.end();
+        }
+        handlers[index](req, res, () => run(index + 1));
+      };
+      run(0);
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => server.close(resolve));
+    await fs.rm(dataDir, { recursive: true, force: true });
+  });
+
+  const request = (route: string, init: RequestInit = {}) =>
+    fetch(baseUrl + route, { ...init, headers: { 'Content-Type': 'application/json', ...init.headers } });
+
+  const login = async (clave = STAFF_KEY) => {
+    const response = await request('/api/support/session', { method: 'POST', body: JSON.stringify({ clave }) });
+    return { response, cookie: response.headers.get('set-cookie')?.split(';')[0] ?? '' };
+  };
+
+  // Session of an official who entered the code mailed to their address
+  const verify = async (correo = OWNER) => {
+    expect((await request('/api/verification', { method: 'POST', body: JSON.stringify({ correo }) })).status).toBe(202);
+    const code = mails.at(-1)!.text.match(/\d{6}/)![0];
+    const response = await request('/api/verification/confirm', { method: 'POST', body: JSON.stringify({ correo, code }) });
+    expect(response.status).toBe(200);
+    return response.headers.get('set-cookie')!.split(';')[0];
+  };
+
+  it('keeps the queue, attachments and recordings for the staff', async () => {
+    for (const route of ['/api/tickets', `/api/tickets/${TICKET_ID}/recording`, `/api/tickets/${TICKET_ID}/attachments/adjunto-1`]) {
+      expect((await request(route)).status).toBe(401);
+    }
+    expect((await request(`/api/tickets/${TICKET_ID}`, { method: 'PATCH', body: JSON.stringify({ assignedTechnician: 'Pedro' }) })).status).toBe(401);
+  });
+
+  it('sends uploaded files as downloads that the browser does not sniff', async () => {
+    // Only the declared type is checked, so the content can be anything
+    const html = '<html><script>alert(document.cookie)</script></html>';
+    const attachment = {
+      id: 'adjunto-1', name: 'captura.png', mimeType: 'image/png', size: html.length,
+      timestamp: new Date().toISOString(), data: Buffer.from(html).toString('base64'),
+    };
+    const uploaded = await request(`/api/tickets/${TICKET_ID}`, {
+      method: 'PATCH', headers: { Cookie: await verify() }, body: JSON.stringify({ attachments: [attachment] }),
+    });
+    expect(uploaded.status).toBe(200);
+
+    const { cookie } = await login();
+    const response = await request(`/api/tickets/${TICKET_ID}/attachments/adjunto-1`, { headers: { Cookie: cookie } });
+    expect(response.status).toBe(200);
+    expect(response.headers.get('x-content-type-options')).toBe('nosniff');
+    expect(response.headers.get('content-disposition')).toBe("attachment; filename*=UTF-8''captura.png");
+    expect(await response.text()).toBe(html);
+  });
+
+  it('opens a session only with the configured key', async () => {
+    expect((await login('otra clave')).response.status).toBe(401);
+
+    const { response, cookie } = await login();
+    expect(response.status).toBe(200);
+    expect(response.headers.get('set-cookie')).toContain('HttpOnly');
+    expect((await request('/api/support/session', { headers: { Cookie: cookie } })).status).toBe(200);
+
+    const queue = await request('/api/tickets', { headers: { Cookie: cookie } });
+    expect(queue.status).toBe(200);
+    expect(await queue.json()).toHaveLength(1);
+    const assigned = await request(`/api/tickets/${TICKET_ID}`, {
+      method: 'PATCH', headers: { Cookie: cookie }, body: JSON.stringify({ assignedTechnician: 'Pedro' }),
+    });
+    expect(await assigned.json()).toMatchObject({ assignedTechnician: 'Pedro' });
+  });
+
+  it('rejects a forged session cookie', async () => {
+    const { cookie } = await login();
+    const [name, value] = cookie.split('=');
+    const forged = `${name}=${value.replace(/^./, c => (c === 'a' ? 'b' : 'a'))}`;
+    expect((await request('/api/tickets', { headers: { Cookie: forged } })).status).toBe(401);
+  });
+
+  it('lets the official reopen a ticket without touching the staff fields', async () => {
+    await repository.patch(TICKET_ID, { status: 'en_curso' });
+    await repository.patch(TICKET_ID, { status: 'resuelto' });
+    const cookie = await verify();
+    const reopen = (body: unknown) => request(`/api/tickets/${TICKET_ID}`, { method: 'PATCH', headers: { Cookie: cookie }, body: JSON.stringify(body) });
+
+    expect((await reopen({ status: 'cerrado' })).status).toBe(401);
+    const reopened = await reopen({ status: 'nuevo', note: 'Cualquier texto' });
+    expect(reopened.status).toBe(200);
+    expect((await reopened.json()).history?.at(-1)).toMatchObject({ status: 'nuevo', note: REOPEN_NOTE });
+  });
+
+  it('registers tickets only for a verified caller, under the verified address', async () => {
+    const body = { correo: 'otro@munistgo.cl', municipalidad: 'Santiago', sistema: 'Contabilidad', descripcion: 'No cuadra el balance' };
+    expect((await request('/api/tickets', { method: 'POST', body: JSON.stringify(body) })).status).toBe(401);
+
+    const created = await request('/api/tickets', { method: 'POST', headers: { Cookie: await verify() }, body: JSON.stringify(body) });
+    expect(created.status).toBe(201);
+    expect(await created.json()).toMatchObject({ correo: OWNER, municipalidad: 'Santiago' });
+  });
+
+  it("answers another official's ticket as if it did not exist", async () => {
+    const owner = await verify();
+    const other = await verify('pedro.soto@munistgo.cl');
+    expect((await request(`/api/tickets/${TICKET_ID}`)).status).toBe(401);
+    expect((await request(`/api/tickets/${TICKET_ID}`, { headers: { Cookie: other } })).status).toBe(404);
+    expect((await request(`/api/tickets/${TICKET_ID}/email`, { method: 'POST', headers: { Cookie: other } })).status).toBe(404);
+    expect((await request(`/api/tickets/${TICKET_ID}`, { headers: { Cookie: owner } })).status).toBe(200);
+
+    const listed = await request(`/api/tickets?correo=${encodeURIComponent(OWNER)}`, { headers: { Cookie: other } });
+    expect(await listed.json()).toEqual([]);
+  });
+
+  it('does not open a session for an address outside the allowlist or without the code', async () => {
+    const outside = await request('/api/verification', { method: 'POST', body: JSON.stringify({ correo: 'alguien@gmail.com' }) });
+    expect(outside.status).toBe(403);
+    expect(mails).toEqual([]);
+    const withoutCode = await request('/api/verification/session', { method: 'POST', body: JSON.stringify({ correo: OWNER }) });
+    expect(withoutCode.status).toBe(403);
+    expect(withoutCode.headers.get('set-cookie')).toBeNull();
+  });
+
+  it('shows a session opened without a code only the tickets registered during it', async () => {
+    const cookie = (await fetch(`${baseUrl}/session-without-code`)).headers.get('set-cookie')!.split(';')[0];
+    expect((await request(`/api/tickets/${TICKET_ID}`, { headers: { Cookie: cookie } })).status).toBe(404);
+    expect((await request(`/api/tickets/${TICKET_ID}`, {
+      method: 'PATCH', headers: { Cookie: cookie }, body: JSON.stringify({ transcript: [] }),
+    })).status).toBe(404);
+
+    const body = { municipalidad: 'Santiago', sistema: 'Contabilidad', descripcion: 'No cuadra el balance' };
+    const created = await (await request('/api/tickets', { method: 'POST', headers: { Cookie: cookie }, body: JSON.stringify(body) })).json();
+    const listed = await (await request('/api/tickets', { headers: { Cookie: cookie } })).json();
+    expect(listed.map((ticket: { ticketId: string }) => ticket.ticketId)).toEqual([created.ticketId]);
+    expect((await request(`/api/tickets/${created.ticketId}`, { headers: { Cookie: cookie } })).status).toBe(200);
+  });
+});
@@ -0,0 +1,455 @@
+import fs from 'fs';
+import path from 'path';
+import type { ServerResponse } from 'http';
+import type { Connect, Plugin } from 'vite';
+import { AuditEvent, CatalogField, NewTicketInput, StoredTicket, TicketAttachment, TicketClassification, TicketPatch, TicketRecording, TicketStatus, TranscriptEntry } from '../types';
+import { TicketRepository, TICKET_STATUS_LABELS, REOPEN_NOTE, canTransition } from '../services/ticketStore';
+import { SPEAKER_LABELS } from '../services/transcript';
+import { AUDIT_EVENT_LABELS } from '../services/auditLog';
+import { MAX_RECORDING_BYTES, RECORDING_MIME_TYPES } from '../services/callRecorder';
+import { TicketIdGenerator, validateTicketId } from '../services/ticketIdGenerator';
+import { CATALOG_FIELD_LABELS, normalizeTicketFields } from '../services/catalog';
+import { isCategory, isPriority, slaDeadline } from '../services/classification';
+import { findDuplicate } from '../services/duplicates';
+import { isValidEmail, parseEmailDomainConfig } from '../services/emailPolicy';
+import { findInstructions, sanitizeDescription } from '../services/sanitization';
+import { ATTACHMENT_ID, MAX_ATTACHMENT_BYTES, MAX_ATTACHMENTS_PER_TICKET, attachmentMimeType } from '../services/attachments';
+import { FileTicketStore } from './fileTicketStore';
+import { AttachmentStore } from './attachmentStore';
+import { RecordingStore } from './recordingStore';
+import { AnalyticsStore } from './analyticsStore';
+import { createAnalyticsApi } from './analyticsApi';
+import { createVerificationApi } from './verificationApi';
+import { EmailVerifier } from './emailVerifier';
+import { GoogleGeminiBackend, createGeminiApi } from './geminiApi';
+import { UsageLimiter, usageLimitsFromEnv } from './usageLimiter';
+import { HttpError, readJsonBody, readRawBody, sendError, sendJson } from './http';
+import { Outbox } from './outbox';
+import { buildTicketEmail } from './ticketEmail';
+import { SmtpMailTransport, mailSettingsFromEnv } from './mailTransport';
+import { FakeSmtpServer } from './fakeSmtpServer';
+import { TechnicianAuth, createTechnicianSessionApi } from './technicianAuth';
+import { CallerSession, CallerSessions } from './callerSession';
+
+const ROUTE = /^\/api\/tickets(?:\/([^/]+))?(\/email|\/recording)?\/?$/;
+const ATTACHMENT_ROUTE = /^\/api\/tickets\/([^/]+)\/attachments\/([^/]+)\/?$/;
+
+// Room for the largest allowed attachments once base64 encoded
+const MAX_TICKET_BODY_BYTES = Math.ceil((MAX_ATTACHMENT_BYTES * MAX_ATTACHMENTS_PER_TICKET * 4) / 3) + 1024 * 1024;
+
+export interface TicketApiOptions {
+  dataDir: string;
+  // Allowlist of municipal email domains, also bundled into the app
+  emailDomainsFile: string;
+  env: Record<string, string>;
+}
+
+const requireString = (body: any, field: string): string => {
+  const value = body?.[field];
+  if (typeof value !== 'string' || !value.trim()) {
+    throw new HttpError(400, `El campo "${field}" es obligatorio.`);
+  }
+  return value.trim();
+};
+
+const optionalString = (body: any, field: string): string | undefined => {
+  const value = body?.[field];
+  if (value === undefined) return undefined;
+  if (typeof value !== 'string') {
+    throw new HttpError(400, `El campo "${field}" debe ser texto.`);
+  }
+  return value.trim();
+};
+
+const parseStatus = (value: unknown): TicketStatus | undefined => {
+  if (value === undefined) return undefined;
+  if (typeof value !== 'string' || !(value in TICKET_STATUS_LABELS)) {
+    throw new HttpError(400, `Estado de ticket no válido: ${String(value)}.`);
+  }
+  return value as TicketStatus;
+};
+
+const parseTranscript = (value: unknown): TranscriptEntry[] | undefined => {
+  if (value === undefined) return undefined;
+  const valid = Array.isArray(value) && value.every(entry =>
+    entry && entry.speaker in SPEAKER_LABELS && typeof entry.text === 'string' && typeof entry.timestamp === 'string'
+  );
+  if (!valid) {
+    throw new HttpError(400, 'La transcripción no tiene un formato válido.');
+  }
+  return (value as TranscriptEntry[]).map(({ speaker, text, timestamp }) => ({ speaker, text, timestamp }));
+};
+
+const parseAttachments = (value: unknown): TicketAttachment[] | undefined => {
+  if (value === undefined) return undefined;
+  const valid = Array.isArray(value) && value.length <= MAX_ATTACHMENTS_PER_TICKET && value.every(entry =>
+    entry && typeof entry.id === 'string' && ATTACHMENT_ID.test(entry.id) &&
+    typeof entry.name === 'string' && typeof entry.mimeType === 'string' && typeof entry.timestamp === 'string' &&
+    (entry.data === undefined || typeof entry.data === 'string')
+  );
+  if (!valid) {
+    throw new HttpError(400, 'Los adjuntos no tienen un formato válido.');
+  }
+  return (value as TicketAttachment[]).map(({ id, name, mimeType, size, timestamp, data }) => ({
+    id,
+    name: path.basename(name),
+    mimeType: attachmentMimeType(name, mimeType),
+    size: Number(size) || 0,
+    timestamp,
+    data,
+  }));
+};
+
+const parseAuditLog = (value: unknown): AuditEvent[] | undefined => {
+  if (value === undefined) return undefined;
+  const valid = Array.isArray(value) && value.every(entry =>
+    entry && entry.type in AUDIT_EVENT_LABELS && typeof entry.timestamp === 'string' &&
+    (entry.detail === undefined || typeof entry.detail === 'string')
+  );
+  if (!valid) {
+    throw new HttpError(400, 'El registro de auditoría no tiene un formato válido.');
+  }
+  return (value as AuditEvent[]).map(({ timestamp, type, detail }) => ({ timestamp, type, detail }));
+};
+
+const RECORDING_TYPES = RECORDING_MIME_TYPES.map(type => type.split(';')[0]);
+
+// Checks the upload of a call recording, sent as raw audio with its metadata in the query string
+function parseRecordingUpload(contentType: string | undefined, params: URLSearchParams, size: number): TicketRecording {
+  const mimeType = (contentType ?? '').split(';')[0].trim();
+  if (!RECORDING_TYPES.includes(mimeType)) {
+    throw new HttpError(400, `Formato de grabación no permitido: ${mimeType || 'desconocido'}.`);
+  }
+  const consentAt = params.get('consentAt');
+  const startedAt = params.get('startedAt');
+  if (!consentAt || isNaN(Date.parse(consentAt))) {
+    throw new HttpError(400, 'La grabación no registra el consentimiento del funcionario.');
+  }
+  if (!startedAt || isNaN(Date.parse(startedAt))) {
+    throw new HttpError(400, 'Falta la hora de inicio de la grabación.');
+  }
+  if (size === 0) {
+    throw new HttpError(400, 'La grabación está vacía.');
+  }
+  return { mimeType, size, durationSeconds: Number(params.get('durationSeconds')) || 0, startedAt, consentAt };
+}
+
+// The SLA deadline is recomputed when the ticket is stored, from the server's clock
+const parseClassification = (value: any): TicketClassification | undefined => {
+  if (value === undefined) return undefined;
+  if (!isPriority(value?.priority) || !isCategory(value?.category)) {
+    throw new HttpError(400, 'La clasificación del ticket no es válida.');
+  }
+  return {
+    priority: value.priority,
+    category: value.category,
+    slaDeadline: '',
+    reason: typeof value.reason === 'string' ? value.reason.trim() : undefined,
+  };
+};
+
+// Municipality and system end up in prompts and emails, so text that reads like
+// an order for the model is refused rather than stored
+const requireCatalogValue = (body: any, field: CatalogField): string => {
+  const value = requireString(body, field);
+  if (findInstructions(value).length) {
+    throw new HttpError(400, `${CATALOG_FIELD_LABELS[field]} contiene texto no permitido.`);
+  }
+  return value;
+};
+
+// Municipality and system are normalized against the catalog; unknown values are flagged
+function parseNewTicket(body: any): NewTicketInput {
+  const correo = requireString(body, 'correo').toLowerCase();
+  if (!isValidEmail(correo)) {
+    throw new HttpError(400, `"${correo}" no es un correo válido.`);
+  }
+  return normalizeTicketFields({
+    correo,
+    municipalidad: requireCatalogValue(body, 'municipalidad'),
+    sistema: requireCatalogValue(body, 'sistema'),
+    descripcion: sanitizeDescription(requireString(body, 'descripcion')),
+    solutions: body?.solutions,
+    transcript: parseTranscript(body?.transcript),
+    attachments: parseAttachments(body?.attachments),
+    classification: parseClassification(body?.classification),
+    flowVersion: optionalString(body, 'flowVersion'),
+    auditLog: parseAuditLog(body?.auditLog),
+  });
+}
+
+function parsePatch(body: any): TicketPatch {
+  const patch: TicketPatch = {
+    status: parseStatus(body?.status),
+    note: optionalString(body, 'note'),
+    assignedTechnician: optionalString(body, 'assignedTechnician'),
+    transcript: parseTranscript(body?.transcript),
+    attachments: parseAttachments(body?.attachments),
+    parentTicketId: optionalString(body, 'parentTicketId'),
+    auditLog: parseAuditLog(body?.auditLog),
+  };
+  // The email is built by the server from the stored fields when it is sent
+  if (body?.emailDraft !== undefined) {
+    throw new HttpError(400, 'El borrador de correo lo genera el servidor y no se puede modificar.');
+  }
+  if (body?.solutions !== undefined) {
+    patch.solutions = body.solutions;
+  }
+  if (body?.internalNote !== undefined) {
+    patch.internalNote = {
+      author: requireString(body.internalNote, 'author'),
+      text: requireString(body.internalNote, 'text'),
+    };
+  }
+  // Drop fields that were not sent so they do not overwrite stored values
+  return Object.fromEntries(Object.entries(patch).filter(([, value]) => value !== undefined));
+}
+
+// What the official's app sends: the call's transcript, files, audit log and
+// tips, and reopening a resolved ticket. The rest is the support staff's work.
+const OFFICIAL_PATCH_FIELDS: (keyof TicketPatch)[] = ['transcript', 'attachments', 'auditLog', 'solutions', 'status', 'note'];
+
+const isOfficialPatch = (patch: TicketPatch) =>
+  Object.keys(patch).every(field => OFFICIAL_PATCH_FIELDS.includes(field as keyof TicketPatch)) &&
+  (patch.status === undefined ? patch.note === undefined : patch.status === 'nuevo');
+
+// Files come from the caller and are sent with the type they declared, so the
+// browser must neither sniff nor render them: an uploaded HTML or SVG file would
+// otherwise run in the back-office's origin
+const setDownloadHeaders = (res: ServerResponse, mimeType: string, fileName: string) => {
+  res.setHeader('Content-Type', mimeType);
+  res.setHeader('X-Content-Type-Options', 'nosniff');
+  res.setHeader('Content-Disposition', `attachment; filename*=UTF-8''${encodeURIComponent(fileName)}`);
+};
+
+// Without the mailed code the session only proves the address is on the
+// allowlist, so it reaches just the tickets registered since it was opened
+const isReachable = (caller: CallerSession, ticket: StoredTicket) =>
+  ticket.correo === caller.correo && (!!caller.codeVerifiedAt || Date.parse(ticket.timestamp) >= caller.openedAt);
+
+export function createTicketApi(
+  repository: TicketRepository,
+  ticketIds: TicketIdGenerator,
+  outbox: Outbox,
+  attachments: AttachmentStore,
+  recordings: RecordingStore,
+  staff: TechnicianAuth,
+  sessions: CallerSessions,
+): Connect.NextHandleFunction {
+  const findTicket = async (rawId: string) => {
+    const validation = validateTicketId(rawId);
+    if (!validation.valid) {
+      throw new HttpError(400, validation.reason!);
+    }
+    const ticket = await repository.get(validation.ticket!.ticketId);
+    if (!ticket) {
+      throw new HttpError(404, `No existe un ticket con el número ${validation.ticket!.ticketId}.`);
+    }
+    return ticket;
+  };
+
+  // Staff reach every ticket. An official only reaches those registered with
+  // the session's address; anyone else's answers as if it did not exist.
+  const findOwnTicket = async (req: Connect.IncomingMessage, rawId: string) => {
+    const caller = staff.isTechnician(req) ? null : sessions.require(req);
+    const ticket = await findTicket(rawId);
+    if (caller && !isReachable(caller, ticket)) {
+      throw new HttpError(404, `No existe un ticket con el número ${ticket.ticketId}.`);
+    }
+    return ticket;
+  };
+
+  return async (req, res, next) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    const attachmentMatch = url.pathname.match(ATTACHMENT_ROUTE);
+    const match = url.pathname.match(ROUTE);
+    if (!match && !attachmentMatch) return next();
+
+    try {
+      if (attachmentMatch) {
+        if (req.method !== 'GET') throw new HttpError(405, 'Método no permitido.');
+        staff.require(req);
+        const ticket = await findTicket(decodeURIComponent(attachmentMatch[1]));
+        const attachment = ticket.attachments?.find(a => a.id === decodeURIComponent(attachmentMatch[2]));
+        if (!attachment) {
+          throw new HttpError(404, `El ticket ${ticket.ticketId} no tiene ese adjunto.`);
+        }
+        res.statusCode = 200;
+        setDownloadHeaders(res, attachment.mimeType, attachment.name);
+        return res.end(await attachments.read(ticket.ticketId, attachment.id));
+      }
+
+      const rawId = match[1] ? decodeURIComponent(match[1]) : undefined;
+      const action = match[2];
+
+      if (rawId && action === '/recording') {
+        if (req.method === 'GET') {
+          staff.require(req);
+        }
+        const ticket = await findOwnTicket(req, rawId);
+        if (req.method === 'GET') {
+          if (!ticket.recording) {
+            throw new HttpError(404, `El ticket ${ticket.ticketId} no tiene grabación.`);
+          }
+          res.statusCode = 200;
+          setDownloadHeaders(res, ticket.recording.mimeType, `grabacion-${ticket.ticketId}.${ticket.recording.mimeType.includes('ogg') ? 'ogg' : 'webm'}`);
+          return res.end(await recordings.read(ticket.ticketId));
+        }
+        if (req.method !== 'PUT') throw new HttpError(405, 'Método no permitido.');
+        const content = await readRawBody(req, MAX_RECORDING_BYTES);
+        const recording = parseRecordingUpload(req.headers['content-type'], url.searchParams, content.length);
+        await recordings.store(ticket.ticketId, content);
+        return sendJson(res, 200, await repository.patch(ticket.ticketId, { recording }));
+      }
+
+      if (rawId && action === '/email') {
+        if (req.method !== 'POST') throw new HttpError(405, 'Método no permitido.');
+        const ticket = await findOwnTicket(req, rawId);
+        // Each ticket is mailed once; only a failed delivery can be retried
+        if (ticket.emailDelivery && ticket.emailDelivery.status !== 'fallido') {
+          throw new HttpError(409, `El correo del ticket ${ticket.ticketId} ya fue ${ticket.emailDelivery.status === 'enviado' ? 'enviado' : 'encolado'}.`);
+        }
+        return sendJson(res, 202, await outbox.enqueue(ticket));
+      }
+
+      if (!rawId && req.method === 'GET') {
+        // Officials list their own tickets; the whole queue is for the staff
+        const caller = staff.isTechnician(req) ? null : sessions.require(req);
+        const correo = caller ? caller.correo : url.searchParams.get('correo') ?? undefined;
+        const tickets = await repository.list({
+          query: url.searchParams.get('q') ?? undefined,
+          correo,
+          status: parseStatus(url.searchParams.get('status') ?? undefined),
+          municipalidad: url.searchParams.get('municipalidad') ?? undefined,
+          sistema: url.searchParams.get('sistema') ?? undefined,
+          parentTicketId: url.searchParams.get('parent') ?? undefined,
+        });
+        return sendJson(res, 200, caller ? tickets.filter(ticket => isReachable(caller, ticket)) : tickets);
+      }
+
+      if (!rawId && req.method === 'POST') {
+        // Registered under the verified address, whatever the body says
+        const caller = sessions.require(req);
+        const body = await readJsonBody<any>(req, MAX_TICKET_BODY_BYTES);
+        const { solutions, ...fields } = parseNewTicket({ ...body, correo: caller.correo });
+        const ticketId = await ticketIds.next(fields.municipalidad);
+        const timestamp = new Date().toISOString();
+        if (fields.attachments) {
+          fields.attachments = await attachments.store(ticketId, fields.attachments);
+        }
+        if (fields.classification) {
+          fields.classification.slaDeadline = slaDeadline(fields.classification.priority, new Date(timestamp));
+        }
+        // Reports of a problem already being worked are linked to its incident
+        const duplicate = findDuplicate(fields, await repository.list({ sistema: fields.sistema }));
+        const ticket = await repository.create(
+          { ...fields, ticketId, timestamp, parentTicketId: duplicate?.parentTicketId },
+          { solutions },
+        );
+        // Shown to the official; the same text is rebuilt from the stored fields when sent
+        return sendJson(res, 201, await repository.attachEmailDraft(ticketId, buildTicketEmail(ticket)));
+      }
+
+      if (rawId && req.method === 'GET') {
+        return sendJson(res, 200, await findOwnTicket(req, rawId));
+      }
+
+      if (rawId && req.method === 'PATCH') {
+        const patch = parsePatch(await readJsonBody(req, MAX_TICKET_BODY_BYTES));
+        if (!staff.isTechnician(req)) {
+          if (!isOfficialPatch(patch)) staff.require(req);
+          if (patch.status) patch.note = REOPEN_NOTE;
+        }
+        const ticket = await findOwnTicket(req, rawId);
+        if (patch.status && !canTransition(ticket.status, patch.status)) {
+          throw new HttpError(409, `El ticket ${ticket.ticketId} no puede pasar de "${TICKET_STATUS_LABELS[ticket.status]}" a "${TICKET_STATUS_LABELS[patch.status]}".`);
+        }
+        if (patch.attachments) {
+          patch.attachments = await attachments.store(ticket.ticketId, patch.attachments, ticket.attachments);
+        }
+        if (patch.parentTicketId) {
+          const parent = await findTicket(patch.parentTicketId);
+          if (parent.ticketId === ticket.ticketId || parent.parentTicketId) {
+            throw new HttpError(409, `El ticket ${parent.ticketId} no puede ser el incidente de ${ticket.ticketId}.`);
+          }
+          patch.parentTicketId = parent.ticketId;
+        }
+        return sendJson(res, 200, await repository.patch(ticket.ticketId, patch));
+      }
+
+      throw new HttpError(405, 'Método no permitido.');
+    } catch (e) {
+      sendError(res, e);
+    }
+  };
+}
+
+// Serves the ticket, analytics, email verification, Gemini proxy and back-office
+// session APIs from the Vite dev and preview servers.
+// Set SMTP_FAKE=true to start a local fake SMTP server on SMTP_PORT.
+export function ticketApiPlugin(options: TicketApiOptions): Plugin {
+  const repository = new TicketRepository(new FileTicketStore(path.join(options.dataDir, 'tickets.json')));
+  const ticketIds = new TicketIdGenerator(async () => (await repository.list()).map(t => t.ticketId));
+  const attachments = new AttachmentStore(path.join(options.dataDir, 'attachments'));
+  const recordings = new RecordingStore(path.join(options.dataDir, 'recordings'));
+  const mail = mailSettingsFromEnv(options.env);
+  const outbox = new Outbox(new SmtpMailTransport(mail.smtp), repository, {
+    filePath: path.join(options.dataDir, 'outbox.json'),
+    attachments,
+    from: mail.from,
+    supportMailbox: mail.supportMailbox,
+  });
+  const staff = new TechnicianAuth(options.env.SUPPORT_STAFF_KEY);
+  const sessions = new CallerSessions(options.env.SESSION_SECRET);
+  const handler = createTicketApi(repository, ticketIds, outbox, attachments, recordings, staff, sessions);
+  const analyticsHandler = createAnalyticsApi(new AnalyticsStore(path.join(options.dataDir, 'analytics.jsonl')), staff);
+  const staffSessionHandler = createTechnicianSessionApi(staff);
+  const emailDomains = parseEmailDomainConfig(fs.readFileSync(options.emailDomainsFile, 'utf-8'));
+  const verificationHandler = createVerificationApi(
+    emailDomains,
+    new EmailVerifier(new SmtpMailTransport(mail.smtp), { from: mail.from }),
+    sessions,
+  );
+  const geminiHandler = createGeminiApi(
+    options.env.GEMINI_API_KEY ? new GoogleGeminiBackend(options.env.GEMINI_API_KEY) : null,
+    sessions,
+    new UsageLimiter(path.join(options.dataDir, 'usage.json'), usageLimitsFromEnv(options.env)),
+  );
+
+  const start = async (httpServer: { once(event: 'close', listener: () => void): unknown } | null) => {
+    let fakeSmtp: FakeSmtpServer | null = null;
+    if (options.env.SMTP_FAKE === 'true') {
+      fakeSmtp = new FakeSmtpServer({
+        port: mail.smtp.port,
+        host: mail.smtp.host,
+        outputDir: path.join(options.dataDir, 'fake-smtp'),
+      });
+      await fakeSmtp.listen();
+    }
+    outbox.start();
+    httpServer?.once('close', () => {
+      outbox.stop();
+      fakeSmtp?.close();
+    });
+  };
+
+  return {
+    name: 'soporte-ticket-api',
+    async configureServer(server) {
+      server.middlewares.use(handler);
+      server.middlewares.use(analyticsHandler);
+      server.middlewares.use(verificationHandler);
+      server.middlewares.use(geminiHandler);
+      server.middlewares.use(staffSessionHandler);
+      await start(server.httpServer);
+    },
+    async configurePreviewServer(server) {
+      server.middlewares.use(handler);
+      server.middlewares.use(analyticsHandler);
+      server.middlewares.use(verificationHandler);
+      server.middlewares.use(geminiHandler);
+      server.middlewares.use(staffSessionHandler);
+      await start(server.httpServer);
+    },
+  };
+}
@@ -0,0 +1,35 @@
+import { EmailDraft, StoredTicket } from '../types';
+import { CATEGORY_LABELS, PRIORITY_LABELS } from '../services/classification';
+import { maskText } from '../services/sanitization';
+
+const formatDate = (iso: string) =>
+  new Date(iso).toLocaleString('es-CL', { dateStyle: 'short', timeStyle: 'short', timeZone: 'America/Santiago' });
+
+// The email sent to support is built here from the stored fields only, so a
+// client cannot choose the subject or body that leaves through our SMTP server
+export function buildTicketEmail(ticket: StoredTicket): EmailDraft {
+  const lines = [
+    `Ticket: ${ticket.ticketId}`,
+    `Fecha: ${formatDate(ticket.timestamp)}`,
+    `Funcionario: ${ticket.correo}`,
+    `Municipalidad: ${ticket.municipalidad}`,
+    `Sistema: ${ticket.sistema}`,
+  ];
+  if (ticket.classification) {
+    const { priority, category, slaDeadline } = ticket.classification;
+    lines.push(`Prioridad: ${PRIORITY_LABELS[priority]}`, `Categoría: ${CATEGORY_LABELS[category]}`);
+    if (slaDeadline) lines.push(`Plazo de atención: ${formatDate(slaDeadline)}`);
+  }
+  if (ticket.parentTicketId) {
+    lines.push(`Incidente relacionado: ${ticket.parentTicketId}`);
+  }
+  if (ticket.attachments?.length) {
+    lines.push(`Archivos adjuntos: ${ticket.attachments.map(a => a.name).join(', ')}`);
+  }
+  lines.push('', 'Descripción del problema:', ticket.descripcion);
+
+  return {
+    subject: maskText(`Ticket ${ticket.ticketId} - Soporte ${ticket.municipalidad} - ${ticket.sistema}`),
+    body: maskText(lines.join('\n')),
+  };
+}
@@ -0,0 +1,49 @@
+import os from 'os';
+import path from 'path';
+import { promises as fs } from 'fs';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { DEFAULT_USAGE_LIMITS, NETWORK_LIMIT_FACTOR, UsageLimiter } from './usageLimiter';
+
+const NOW = new Date('2026-03-02T12:00:00').getTime();
+const LIMITS = { ...DEFAULT_USAGE_LIMITS, generate: { burst: 2, windowMs: 60 * 1000, daily: 5 } };
+
+describe('UsageLimiter', () => {
+  let dataDir: string;
+  let limiter: UsageLimiter;
+
+  beforeEach(async () => {
+    dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'usage-'));
+    limiter = new UsageLimiter(path.join(dataDir, 'usage.json'), LIMITS);
+  });
+
+  afterEach(async () => {
+    await fs.rm(dataDir, { recursive: true, force: true });
+  });
+
+  it('limits each email within the window', async () => {
+    await limiter.consume('ana@munistgo.cl', '10.0.0.1', 'generate', NOW);
+    await limiter.consume('ana@munistgo.cl', '10.0.0.2', 'generate', NOW);
+    await expect(limiter.consume('ana@munistgo.cl', '10.0.0.3', 'generate', NOW)).rejects.toMatchObject({ status: 429 });
+    await limiter.consume('ana@munistgo.cl', '10.0.0.3', 'generate', NOW + 60 * 1000);
+  });
+
+  it('limits a network that spreads its requests over many addresses', async () => {
+    const networkBurst = LIMITS.generate.burst * NETWORK_LIMIT_FACTOR;
+    for (let i = 0; i < networkBurst; i++) {
+      await limiter.consume(`inventado${i}@munistgo.cl`, '10.0.0.1', 'generate', NOW);
+    }
+    await expect(limiter.consume('otro@munistgo.cl', '10.0.0.1', 'generate', NOW))
+      .rejects.toThrow('Demasiadas solicitudes desde esta red');
+    await limiter.consume('otro@munistgo.cl', '10.0.0.2', 'generate', NOW);
+  });
+
+  it('does not count a refused request against the other limit', async () => {
+    await limiter.consume('ana@munistgo.cl', '10.0.0.1', 'generate', NOW);
+    await limiter.consume('ana@munistgo.cl', '10.0.0.1', 'generate', NOW);
+    for (let i = 0; i < 5; i++) {
+      await expect(limiter.consume('ana@munistgo.cl', '10.0.0.1', 'generate', NOW)).rejects.toMatchObject({ status: 429 });
+    }
+    const usage = JSON.parse(await fs.readFile(path.join(dataDir, 'usage.json'), 'utf-8'));
+    expect(usage.counts['red:10.0.0.1']).toEqual({ generate: 2 });
+  });
+});
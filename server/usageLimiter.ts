@@ -0,0 +1,130 @@
+import { readJsonFile, writeJsonFile } from './jsonFile';
+import { HttpError } from './http';
+
+export type UsageKind = 'live' | 'generate';
+
+export interface UsageLimit {
+  // Requests allowed within any window of windowMs
+  burst: number;
+  windowMs: number;
+  // Requests allowed per calendar day
+  daily: number;
+}
+
+export type UsageLimits = Record<UsageKind, UsageLimit>;
+
+export const DEFAULT_USAGE_LIMITS: UsageLimits = {
+  // Reconnections also take a token, so the hourly limit leaves room for them
+  live: { burst: 12, windowMs: 60 * 60 * 1000, daily: 40 },
+  generate: { burst: 20, windowMs: 60 * 1000, daily: 300 },
+};
+
+const USAGE_LABELS: Record<UsageKind, string> = {
+  live: 'de sesiones',
+  generate: 'de consultas al asistente',
+};
+
+// Officials of a municipality usually reach the server from the same network
+// address, so its limits are this many times those of one email
+export const NETWORK_LIMIT_FACTOR = 10;
+
+// An email or a network address, each counted against its own limits
+interface UsageSubject {
+  key: string;
+  limit: UsageLimit;
+  // "desde <from>" and "<who> alcanzó" in the 429 messages
+  from: string;
+  who: string;
+}
+
+interface DailyUsage {
+  day: string;
+  counts: Record<string, Partial<Record<UsageKind, number>>>;
+}
+
+const positive = (value: string | undefined, fallback: number) => Number(value) > 0 ? Number(value) : fallback;
+
+export function usageLimitsFromEnv(env: Record<string, string>): UsageLimits {
+  const { live, generate } = DEFAULT_USAGE_LIMITS;
+  return {
+    live: { ...live, burst: positive(env.GEMINI_LIVE_PER_HOUR, live.burst), daily: positive(env.GEMINI_LIVE_PER_DAY, live.daily) },
+    generate: {
+      ...generate,
+      burst: positive(env.GEMINI_REQUESTS_PER_MINUTE, generate.burst),
+      daily: positive(env.GEMINI_REQUESTS_PER_DAY, generate.daily),
+    },
+  };
+}
+
+const localDay = (time: number) => {
+  const date = new Date(time);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
+
+// Per-email and per-network limits for the Gemini proxy. Without requireCode
+// any address on the allowlist gets a session, so the network limit is what
+// stops one client from spreading its requests over made-up addresses.
+// The short windows are kept in memory; daily counts are stored in a JSON file
+// so a restart does not reset the quota.
+export class UsageLimiter {
+  private recent = new Map<string, number[]>();
+  private usage: Promise<DailyUsage> | null = null;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(private filePath: string, private limits: UsageLimits = DEFAULT_USAGE_LIMITS) {}
+
+  // Counts one request for the verified email and the network address it came
+  // from, or throws a 429 when either is over a limit
+  async consume(correo: string, ip: string | undefined, kind: UsageKind, now: number = Date.now()): Promise<void> {
+    const usage = await this.load(now);
+    const limit = this.limits[kind];
+    const subjects: UsageSubject[] = [{ key: correo, limit, from: correo, who: `El correo ${correo}` }];
+    if (ip) {
+      subjects.push({
+        key: `red:${ip}`,
+        limit: { ...limit, burst: limit.burst * NETWORK_LIMIT_FACTOR, daily: limit.daily * NETWORK_LIMIT_FACTOR },
+        from: 'esta red',
+        who: 'Esta red',
+      });
+    }
+
+    // Nothing is counted unless every subject is within its limits
+    const windows = subjects.map(subject => {
+      const recent = (this.recent.get(`${kind}:${subject.key}`) ?? []).filter(time => now - time < subject.limit.windowMs);
+      if (recent.length >= subject.limit.burst) {
+        const minutes = Math.ceil((recent[0] + subject.limit.windowMs - now) / 60000);
+        throw new HttpError(429, `Demasiadas solicitudes desde ${subject.from}. Inténtelo nuevamente en ${minutes} min.`);
+      }
+      if ((usage.counts[subject.key]?.[kind] ?? 0) >= subject.limit.daily) {
+        throw new HttpError(429, `${subject.who} alcanzó la cuota diaria ${USAGE_LABELS[kind]}. Se renueva mañana.`);
+      }
+      return recent;
+    });
+
+    subjects.forEach((subject, i) => {
+      this.recent.set(`${kind}:${subject.key}`, [...windows[i], now]);
+      usage.counts[subject.key] = { ...usage.counts[subject.key], [kind]: (usage.counts[subject.key]?.[kind] ?? 0) + 1 };
+    });
+    await this.save(usage);
+  }
+
+  private async load(now: number): Promise<DailyUsage> {
+    const day = localDay(now);
+    // Shared so concurrent first requests read the file only once
+    this.usage ??= readJsonFile<DailyUsage>(this.filePath, { day, counts: {} });
+    const usage = await this.usage;
+    if (usage.day !== day) {
+      // Yesterday's windows go with its counts, so the map does not keep growing
+      usage.day = day;
+      usage.counts = {};
+      this.recent.clear();
+    }
+    return usage;
+  }
+
+  private save(usage: DailyUsage): Promise<void> {
+    const write = this.writeQueue.then(() => writeJsonFile(this.filePath, usage));
+    this.writeQueue = write.catch(() => undefined);
+    return write;
+  }
+}
@@ -0,0 +1,50 @@
+import type { Connect } from 'vite';
+import { EmailDomainConfig, checkEmail, isValidEmail } from '../services/emailPolicy';
+import { EmailVerifier } from './emailVerifier';
+import { CallerSessions } from './callerSession';
+import { HttpError, readJsonBody, sendError, sendJson } from './http';
+
+const ROUTE = /^\/api\/verification(\/confirm|\/session)?\/?$/;
+
+// POST /api/verification mails a one-time code to an allowed address;
+// POST /api/verification/confirm checks it and opens the caller's session.
+// Without requireCode, POST /api/verification/session opens it for any allowed address.
+export function createVerificationApi(
+  domains: EmailDomainConfig,
+  verifier: EmailVerifier,
+  sessions: CallerSessions,
+): Connect.NextHandleFunction {
+  return async (req, res, next) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    const match = url.pathname.match(ROUTE);
+    if (!match) return next();
+
+    try {
+      if (req.method !== 'POST') throw new HttpError(405, 'Método no permitido.');
+      const body = await readJsonBody<any>(req);
+      const check = checkEmail(typeof body?.correo === 'string' ? body.correo : '', domains);
+      if (!check.valid) {
+        // A well-formed address can only fail on the domain allowlist
+        throw new HttpError(isValidEmail(check.correo) ? 403 : 400, check.reason!);
+      }
+
+      if (match[1] === '/confirm') {
+        if (typeof body?.code !== 'string' || !body.code.trim()) {
+          throw new HttpError(400, 'Ingrese el código que recibió por correo.');
+        }
+        return sendJson(res, 200, sessions.open(req, res, verifier.confirmCode(check.correo, body.code)));
+      }
+
+      if (match[1] === '/session') {
+        if (domains.requireCode) {
+          throw new HttpError(403, 'Este correo debe verificarse con el código que se envía por correo.');
+        }
+        return sendJson(res, 200, sessions.open(req, res, { correo: check.correo, municipalidad: check.municipalidad }));
+      }
+
+      return sendJson(res, 202, await verifier.requestCode(check.correo, check.municipalidad));
+    } catch (e) {
+      sendError(res, e);
+    }
+  };
+}
@@ -0,0 +1,112 @@
+import { AnalyticsEvent, AnalyticsEventType } from '../types';
+
+export const ANALYTICS_EVENT_LABELS: Record<AnalyticsEventType, string> = {
+  sesion_inicio: 'Inicio de sesión',
+  sesion_fin: 'Fin de sesión',
+  ticket: 'Ticket registrado',
+  herramienta: 'Llamada a herramienta',
+  error: 'Error',
+  correo_fallido: 'Borrador de correo fallido',
+};
+
+export const isAnalyticsEventType = (value: unknown): value is AnalyticsEventType =>
+  typeof value === 'string' && value in ANALYTICS_EVENT_LABELS;
+
+// Fields a caller provides; LiveManager adds the timestamp and session
+export type AnalyticsEventInput = Omit<AnalyticsEvent, 'timestamp' | 'sessionId'>;
+
+export interface AnalyticsSink {
+  record(event: AnalyticsEvent): void;
+}
+
+export interface AnalyticsPeriod {
+  // ISO timestamps, inclusive from and exclusive to
+  from?: string;
+  to?: string;
+}
+
+const QUEUE_KEY = 'soporte.analytics.pending';
+// Oldest events are dropped beyond this while the server is unreachable
+const MAX_PENDING_EVENTS = 1000;
+const FLUSH_DELAY_MS = 2000;
+const RETRY_DELAY_MS = 30000;
+
+// Sends events to the app's own server in batches. Pending events are kept in
+// localStorage, so a closed tab or an offline server does not lose them.
+export class AnalyticsClient implements AnalyticsSink {
+  private pending: AnalyticsEvent[];
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private flushing = false;
+
+  constructor(private baseUrl: string = '/api/analytics') {
+    this.pending = this.loadPending();
+    if (this.pending.length) this.schedule(FLUSH_DELAY_MS);
+  }
+
+  record(event: AnalyticsEvent) {
+    this.pending = [...this.pending, event].slice(-MAX_PENDING_EVENTS);
+    this.savePending();
+    this.schedule(FLUSH_DELAY_MS);
+  }
+
+  async flush(): Promise<void> {
+    this.timer = null;
+    const batch = this.pending;
+    if (!batch.length || this.flushing) return;
+    this.flushing = true;
+    try {
+      const response = await fetch(this.baseUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(batch),
+      });
+      if (!response.ok) throw new Error(`Error ${response.status} al guardar métricas.`);
+      this.pending = this.pending.slice(batch.length);
+      this.savePending();
+      // Events recorded while the batch was in flight
+      if (this.pending.length) this.schedule(FLUSH_DELAY_MS);
+    } catch (e) {
+      console.warn('Analytics events kept for a later retry', e);
+      this.schedule(RETRY_DELAY_MS);
+    } finally {
+      this.flushing = false;
+    }
+  }
+
+  async list(period: AnalyticsPeriod = {}): Promise<AnalyticsEvent[]> {
+    const params = new URLSearchParams();
+    if (period.from) params.set('from', period.from);
+    if (period.to) params.set('to', period.to);
+    const query = params.toString();
+    const response = await fetch(this.baseUrl + (query ? `?${query}` : ''));
+    const payload = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new Error(payload.error || `Error ${response.status} al cargar las métricas.`);
+    }
+    return payload as AnalyticsEvent[];
+  }
+
+  private schedule(delayMs: number) {
+    if (this.timer) return;
+    this.timer = setTimeout(() => this.flush(), delayMs);
+  }
+
+  private loadPending(): AnalyticsEvent[] {
+    try {
+      const stored = JSON.parse(localStorage.getItem(QUEUE_KEY) ?? '[]');
+      return Array.isArray(stored) ? stored : [];
+    } catch {
+      return [];
+    }
+  }
+
+  private savePending() {
+    try {
+      localStorage.setItem(QUEUE_KEY, JSON.stringify(this.pending));
+    } catch (e) {
+      console.warn('Could not store pending analytics events', e);
+    }
+  }
+}
+
+export const analytics = new AnalyticsClient();
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import {
+  ATTACHMENT_ID,
+  AttachmentError,
+  MAX_ATTACHMENT_BYTES,
+  attachmentKind,
+  attachmentMimeType,
+  checkAttachment,
+  describeAttachments,
+  readAttachment,
+} from './attachments';
+
+describe('attachmentMimeType', () => {
+  it.each([
+    ['captura.png', 'image/png', 'image/png'],
+    ['error.LOG', '', 'text/plain'],
+    ['pantalla.JPEG', 'application/octet-stream', 'image/jpeg'],
+    ['informe.pdf', 'application/pdf', 'application/pdf'],
+  ])('takes %s (%s) as %s', (name, type, expected) => {
+    expect(attachmentMimeType(name, type)).toBe(expected);
+  });
+});
+
+describe('checkAttachment', () => {
+  it('accepts screenshots and logs within the limits', () => {
+    expect(checkAttachment({ name: 'captura.png', mimeType: 'image/png', size: 1024 }, 0)).toBeNull();
+    expect(checkAttachment({ name: 'error.log', mimeType: 'text/plain', size: MAX_ATTACHMENT_BYTES }, 4)).toBeNull();
+  });
+
+  it.each([
+    [{ name: 'informe.pdf', mimeType: 'application/pdf', size: 1024 }, 0, '"informe.pdf" no es un tipo de archivo permitido.'],
+    [{ name: 'vacio.txt', mimeType: 'text/plain', size: 0 }, 0, '"vacio.txt" está vacío.'],
+    [{ name: 'grande.png', mimeType: 'image/png', size: 3 * 1024 * 1024 }, 0, '"grande.png" pesa 3.0 MB; el máximo es 2.0 MB.'],
+    [{ name: 'sexta.png', mimeType: 'image/png', size: 1024 }, 5, 'Solo se pueden adjuntar 5 archivos por ticket.'],
+  ])('rejects %o with %i already attached', (file, attachedCount, reason) => {
+    expect(checkAttachment(file, attachedCount)).toContain(reason);
+  });
+});
+
+describe('readAttachment', () => {
+  it('reads a log without a type as text in base64', async () => {
+    const attachment = await readAttachment(new File(['Error 500 al emitir'], 'tesoreria.log'), 0);
+    expect(attachment).toMatchObject({ name: 'tesoreria.log', mimeType: 'text/plain', size: 19 });
+    expect(attachment.id).toMatch(ATTACHMENT_ID);
+    expect(Buffer.from(attachment.data!, 'base64').toString()).toBe('Error 500 al emitir');
+    expect(attachmentKind(attachment)).toBe('registro');
+  });
+
+  it('throws AttachmentError for a file it does not accept', async () => {
+    const reading = readAttachment(new File(['<html>'], 'pagina.html', { type: 'text/html' }), 0);
+    await expect(reading).rejects.toBeInstanceOf(AttachmentError);
+  });
+});
+
+describe('describeAttachments', () => {
+  it('lists names and sizes for the email', () => {
+    const attachments = [
+      { id: 'a', name: 'captura.png', mimeType: 'image/png', size: 200, timestamp: '2026-03-02T12:00:00.000Z' },
+      { id: 'b', name: 'error.log', mimeType: 'text/plain', size: 1536 * 1024, timestamp: '2026-03-02T12:00:00.000Z' },
+    ];
+    expect(describeAttachments(attachments)).toBe('- captura.png (1 KB)\n- error.log (1.5 MB)');
+    expect(describeAttachments(undefined)).toBe('');
+  });
+});
@@ -0,0 +1,84 @@
+import { TicketAttachment } from '../types';
+import { encodeBase64 } from './audioUtils';
+
+export type AttachmentKind = 'imagen' | 'registro';
+
+// Accepted types. Images go to the Live session as realtime input; logs are sent as text.
+export const ATTACHMENT_TYPES: Record<string, AttachmentKind> = {
+  'image/png': 'imagen',
+  'image/jpeg': 'imagen',
+  'image/webp': 'imagen',
+  'text/plain': 'registro',
+};
+
+// Browsers leave the type empty for most log files
+const EXTENSION_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  webp: 'image/webp',
+  txt: 'text/plain',
+  log: 'text/plain',
+};
+
+export const MAX_ATTACHMENT_BYTES = 2 * 1024 * 1024;
+export const MAX_ATTACHMENTS_PER_TICKET = 5;
+
+// Log text beyond this is not sent to the model, but the whole file is kept on the ticket
+export const MAX_LOG_CHARS_FOR_MODEL = 8000;
+
+export class AttachmentError extends Error {}
+
+// Attachment ids become file names on the server
+export const ATTACHMENT_ID = /^[a-z0-9-]{1,40}$/;
+
+export function attachmentMimeType(name: string, type: string): string {
+  if (type in ATTACHMENT_TYPES) return type;
+  const extension = name.split('.').pop()?.toLowerCase() ?? '';
+  return EXTENSION_TYPES[extension] ?? type;
+}
+
+export const attachmentKind = (attachment: Pick<TicketAttachment, 'mimeType'>): AttachmentKind =>
+  ATTACHMENT_TYPES[attachment.mimeType];
+
+export const formatFileSize = (bytes: number): string =>
+  bytes < 1024 * 1024 ? `${Math.max(1, Math.round(bytes / 1024))} KB` : `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+// Returns the Spanish reason a file cannot be attached, or null when it is accepted
+export function checkAttachment(file: { name: string; mimeType: string; size: number }, attachedCount: number): string | null {
+  if (!(file.mimeType in ATTACHMENT_TYPES)) {
+    return `"${file.name}" no es un tipo de archivo permitido. Adjunte capturas PNG, JPG o WEBP, o archivos de registro .log o .txt.`;
+  }
+  if (file.size === 0) {
+    return `"${file.name}" está vacío.`;
+  }
+  if (file.size > MAX_ATTACHMENT_BYTES) {
+    return `"${file.name}" pesa ${formatFileSize(file.size)}; el máximo es ${formatFileSize(MAX_ATTACHMENT_BYTES)}.`;
+  }
+  if (attachedCount >= MAX_ATTACHMENTS_PER_TICKET) {
+    return `Solo se pueden adjuntar ${MAX_ATTACHMENTS_PER_TICKET} archivos por ticket.`;
+  }
+  return null;
+}
+
+// Reads a dropped file, throwing AttachmentError when it breaks the limits
+export async function readAttachment(file: File, attachedCount: number): Promise<TicketAttachment> {
+  const mimeType = attachmentMimeType(file.name, file.type);
+  const problem = checkAttachment({ name: file.name, mimeType, size: file.size }, attachedCount);
+  if (problem) {
+    throw new AttachmentError(problem);
+  }
+  return {
+    id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    name: file.name,
+    mimeType,
+    size: file.size,
+    timestamp: new Date().toISOString(),
+    data: encodeBase64(new Uint8Array(await file.arrayBuffer())),
+  };
+}
+
+// Plain-text list used in emails
+export function describeAttachments(attachments: TicketAttachment[] | undefined): string {
+  return (attachments ?? []).map(a => `- ${a.name} (${formatFileSize(a.size)})`).join('\n');
+}
@@ -0,0 +1,73 @@
+import { createPcmBlob } from './audioUtils';
+import type { PcmCaptureProcessorOptions, PcmChunkMessage } from './pcmCaptureWorklet';
+import pcmCaptureWorkletUrl from './pcmCaptureWorklet.ts?worker&url';
+
+export interface AudioCaptureOptions {
+  // Sample rate sent to the Live API
+  sampleRate: number;
+  // Duration of each chunk sent with sendRealtimeInput
+  chunkMs: number;
+}
+
+// 4096 samples at 16 kHz, the framing used by the previous ScriptProcessor capture
+export const DEFAULT_CAPTURE_OPTIONS: AudioCaptureOptions = {
+  sampleRate: 16000,
+  chunkMs: 256,
+};
+
+// Speech RMS rarely exceeds 0.25; scale it so the visualizer uses its full range
+const LEVEL_GAIN = 4;
+
+// Captures a microphone stream through the pcm-capture AudioWorklet and
+// hands out base64 PCM chunks ready for sendRealtimeInput.
+export class MicrophoneCapture {
+  private context: AudioContext | null = null;
+  private source: MediaStreamAudioSourceNode | null = null;
+  private worklet: AudioWorkletNode | null = null;
+
+  public onChunk: (blob: { data: string; mimeType: string }) => void = () => {};
+  public onLevel: (level: number) => void = () => {};
+
+  constructor(private options: AudioCaptureOptions = DEFAULT_CAPTURE_OPTIONS) {}
+
+  async start(stream: MediaStream) {
+    // The context runs at the device rate; the worklet resamples
+    const context = new (window.AudioContext || (window as any).webkitAudioContext)();
+    this.context = context;
+    if (!context.audioWorklet) {
+      throw new Error('AudioWorklet no está disponible en este navegador.');
+    }
+    await context.audioWorklet.addModule(pcmCaptureWorkletUrl);
+
+    const processorOptions: PcmCaptureProcessorOptions = {
+      targetSampleRate: this.options.sampleRate,
+      chunkSamples: Math.round((this.options.sampleRate * this.options.chunkMs) / 1000),
+    };
+    this.worklet = new AudioWorkletNode(context, 'pcm-capture', {
+      numberOfInputs: 1,
+      numberOfOutputs: 0,
+      // Stereo microphones are downmixed to mono
+      channelCount: 1,
+      channelCountMode: 'explicit',
+      processorOptions,
+    });
+    this.worklet.port.onmessage = (e: MessageEvent<PcmChunkMessage>) => {
+      this.onLevel(Math.min(1, e.data.level * LEVEL_GAIN));
+      this.onChunk(createPcmBlob(new Int16Array(e.data.pcm), this.options.sampleRate));
+    };
+
+    this.source = context.createMediaStreamSource(stream);
+    this.source.connect(this.worklet);
+  }
+
+  stop() {
+    if (this.worklet) this.worklet.port.onmessage = null;
+    this.worklet?.disconnect();
+    this.source?.disconnect();
+    this.context?.close();
+
+    this.worklet = null;
+    this.source = null;
+    this.context = null;
+  }
+}
@@ -0,0 +1,24 @@
+import { bench, describe } from 'vitest';
+import { LinearResampler, encodeBase64 } from './audioUtils';
+import { legacyEncodeBase64 } from './audioUtils.reference';
+
+// 40 ms of 16 kHz 16-bit mono, the size of a chunk sent to the Live API, and one second of it
+const CHUNK = Uint8Array.from({ length: 1280 }, (_, i) => (i * 37) % 256);
+const SECOND = Uint8Array.from({ length: 32000 }, (_, i) => (i * 37) % 256);
+
+describe('encodeBase64, 40 ms chunk', () => {
+  bench('chunked', () => { encodeBase64(CHUNK); });
+  bench('per byte (previous)', () => { legacyEncodeBase64(CHUNK); });
+});
+
+describe('encodeBase64, 1 s of audio', () => {
+  bench('chunked', () => { encodeBase64(SECOND); });
+  bench('per byte (previous)', () => { legacyEncodeBase64(SECOND); });
+});
+
+// One render quantum, the work the AudioWorklet does every 2.7 ms at 48 kHz
+describe('LinearResampler, 48 kHz to 16 kHz', () => {
+  const block = Float32Array.from({ length: 128 }, (_, i) => Math.sin(i / 10));
+  const resampler = new LinearResampler(48000, 16000);
+  bench('128-sample block', () => { resampler.process(block); });
+});
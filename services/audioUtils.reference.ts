@@ -0,0 +1,12 @@
+// Implementations replaced in audioUtils.ts, kept so the tests and benchmarks
+// can check and measure the new ones against them.
+
+// One string concatenation per byte, as before the chunked version
+export function legacyEncodeBase64(bytes: Uint8Array): string {
+  let binary = '';
+  const len = bytes.byteLength;
+  for (let i = 0; i < len; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+}
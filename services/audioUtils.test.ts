@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { LinearResampler, createPcmBlob, decodeBase64, encodeBase64 } from './audioUtils';
+import { legacyEncodeBase64 } from './audioUtils.reference';
+
+const randomBytes = (length: number) => Uint8Array.from({ length }, () => Math.floor(Math.random() * 256));
+
+const tone = (frequency: number, sampleRate: number, length: number) =>
+  Float32Array.from({ length }, (_, i) => Math.sin((2 * Math.PI * frequency * i) / sampleRate));
+
+const rms = (samples: Float32Array) => Math.sqrt(samples.reduce((sum, s) => sum + s * s, 0) / samples.length);
+
+// Feeds the signal in render quantum sized blocks, as the AudioWorklet does
+const resample = (resampler: LinearResampler, input: Float32Array, blockSize = 128) => {
+  const parts: number[] = [];
+  for (let i = 0; i < input.length; i += blockSize) {
+    parts.push(...resampler.process(input.subarray(i, i + blockSize)));
+  }
+  return Float32Array.from(parts);
+};
+
+describe('encodeBase64', () => {
+  // 0x8000 is the chunk size, so the sizes around it cover the chunk boundaries
+  it.each([0, 1, 2, 3, 1279, 0x8000 - 1, 0x8000, 0x8000 + 1, 3 * 0x8000 + 17])(
+    'matches the previous per-byte implementation for %i bytes', length => {
+      const bytes = randomBytes(length);
+      expect(encodeBase64(bytes)).toBe(legacyEncodeBase64(bytes));
+      expect(encodeBase64(bytes)).toBe(Buffer.from(bytes).toString('base64'));
+    });
+
+  it('round-trips through decodeBase64', () => {
+    const bytes = randomBytes(5000);
+    expect(decodeBase64(encodeBase64(bytes))).toEqual(bytes);
+  });
+
+  it('encodes only the viewed part of a PCM buffer', () => {
+    const samples = new Int16Array([1, -1, 0x7fff, -0x8000]);
+    const { data, mimeType } = createPcmBlob(samples.subarray(1, 3), 16000);
+    expect(mimeType).toBe('audio/pcm;rate=16000');
+    expect(new Int16Array(decodeBase64(data).buffer)).toEqual(new Int16Array([-1, 0x7fff]));
+  });
+});
+
+describe('LinearResampler', () => {
+  const SETTLE = 200;
+
+  it('produces one output sample for every three at 48 kHz to 16 kHz', () => {
+    const output = resample(new LinearResampler(48000, 16000), new Float32Array(48000));
+    expect(Math.abs(output.length - 16000)).toBeLessThanOrEqual(1);
+  });
+
+  it('keeps speech frequencies', () => {
+    const output = resample(new LinearResampler(48000, 16000), tone(1000, 48000, 48000));
+    expect(rms(output.subarray(SETTLE))).toBeCloseTo(Math.SQRT1_2, 1);
+  });
+
+  // 20 kHz would fold back to 4 kHz without the low-pass filter
+  it.each([9000, 12000, 20000])('filters %i Hz instead of aliasing it into the band', frequency => {
+    const output = resample(new LinearResampler(48000, 16000), tone(frequency, 48000, 48000));
+    expect(rms(output.subarray(SETTLE))).toBeLessThan(Math.SQRT1_2 * 0.05);
+  });
+
+  it('gives the same result whatever the block size', () => {
+    const input = tone(440, 44100, 4410);
+    const whole = resample(new LinearResampler(44100, 16000), input, input.length);
+    const blocks = resample(new LinearResampler(44100, 16000), input, 128);
+    // The fractional read position is accumulated per block, so rounding can add a sample at the end
+    expect(Math.abs(blocks.length - whole.length)).toBeLessThanOrEqual(1);
+    whole.subarray(0, Math.min(whole.length, blocks.length)).forEach((sample, i) => expect(blocks[i]).toBeCloseTo(sample, 5));
+  });
+
+  it('passes the input through at the same rate', () => {
+    const input = tone(440, 16000, 160);
+    expect(new LinearResampler(16000, 16000).process(input)).toBe(input);
+  });
+});
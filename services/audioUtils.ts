@@ -9,14 +9,17 @@ export function decodeBase64(base64: string): Uint8Array {
   return bytes;
 }
 
+// Bytes passed to String.fromCharCode per call; large enough to be fast and
+// small enough to stay below the engine's argument limit
+const ENCODE_CHUNK_SIZE = 0x8000;
+
 // Utility to convert Uint8Array to Base64
 export function encodeBase64(bytes: Uint8Array): string {
-  let binary = '';
-  const len = bytes.byteLength;
-  for (let i = 0; i < len; i++) {
-    binary += String.fromCharCode(bytes[i]);
+  const parts: string[] = [];
+  for (let i = 0; i < bytes.byteLength; i += ENCODE_CHUNK_SIZE) {
+    parts.push(String.fromCharCode.apply(null, bytes.subarray(i, i + ENCODE_CHUNK_SIZE) as unknown as number[]));
   }
-  return btoa(binary);
+  return btoa(parts.join(''));
 }
 
 // Decode raw PCM data into an AudioBuffer
@@ -39,17 +42,94 @@ export async function decodeAudioData(
   return buffer;
 }
 
-// Create a blob for sending to the API (PCM 16kHz)
-export function createPcmBlob(data: Float32Array): { data: string; mimeType: string } {
-  const l = data.length;
-  const int16 = new Int16Array(l);
-  for (let i = 0; i < l; i++) {
-    // Clamp values to -1 to 1 before converting
+// Converts float samples to 16-bit PCM, clamping them to [-1, 1]
+export function floatToInt16(data: Float32Array, target: Int16Array = new Int16Array(data.length)): Int16Array {
+  for (let i = 0; i < data.length; i++) {
     const s = Math.max(-1, Math.min(1, data[i]));
-    int16[i] = s < 0 ? s * 0x8000 : s * 0x7FFF;
+    target[i] = s < 0 ? s * 0x8000 : s * 0x7FFF;
   }
+  return target;
+}
+
+// Create a blob for sending to the API
+export function createPcmBlob(data: Float32Array | Int16Array, sampleRate: number = 16000): { data: string; mimeType: string } {
+  const int16 = data instanceof Int16Array ? data : floatToInt16(data);
   return {
-    data: encodeBase64(new Uint8Array(int16.buffer)),
-    mimeType: 'audio/pcm;rate=16000',
+    data: encodeBase64(new Uint8Array(int16.buffer, int16.byteOffset, int16.byteLength)),
+    mimeType: `audio/pcm;rate=${sampleRate}`,
   };
-}
\ No newline at end of file
+}
+
+// Streaming windowed-sinc (Hamming) low-pass FIR. The last taps - 1 samples of
+// each block are kept so the next block is filtered across the boundary.
+export class LowPassFilter {
+  private taps: Float32Array;
+  private history: Float32Array;
+
+  // cutoff is a fraction of the sample rate (0.5 is the Nyquist frequency)
+  constructor(cutoff: number, tapCount: number = 63) {
+    const middle = (tapCount - 1) / 2;
+    const taps = Array.from({ length: tapCount }, (_, k) => {
+      const x = k - middle;
+      const sinc = x === 0 ? 2 * cutoff : Math.sin(2 * Math.PI * cutoff * x) / (Math.PI * x);
+      return sinc * (0.54 - 0.46 * Math.cos((2 * Math.PI * k) / (tapCount - 1)));
+    });
+    // Unity gain at 0 Hz
+    const sum = taps.reduce((total, tap) => total + tap, 0);
+    this.taps = Float32Array.from(taps, tap => tap / sum);
+    this.history = new Float32Array(tapCount - 1);
+  }
+
+  process(input: Float32Array): Float32Array {
+    const { taps, history } = this;
+    const buffer = new Float32Array(history.length + input.length);
+    buffer.set(history);
+    buffer.set(input, history.length);
+    const output = new Float32Array(input.length);
+    for (let i = 0; i < input.length; i++) {
+      let sum = 0;
+      for (let k = 0; k < taps.length; k++) {
+        sum += taps[k] * buffer[i + history.length - k];
+      }
+      output[i] = sum;
+    }
+    this.history = buffer.slice(input.length);
+    return output;
+  }
+}
+
+// Downsampling keeps a margin below the new Nyquist frequency for the filter's transition band
+const ANTI_ALIAS_CUTOFF = 0.4;
+
+// Streaming linear-interpolation resampler. The last sample of each block is
+// kept so the next block interpolates across the boundary without clicks.
+// When downsampling, the input is low-pass filtered first so frequencies above
+// the output's Nyquist limit do not fold back into the speech band.
+export class LinearResampler {
+  // Read position in a block prefixed by the previous sample (index 0)
+  private position = 0;
+  private previous = 0;
+  private filter: LowPassFilter | null;
+
+  constructor(private inputRate: number, private outputRate: number) {
+    this.filter = inputRate > outputRate ? new LowPassFilter((ANTI_ALIAS_CUTOFF * outputRate) / inputRate) : null;
+  }
+
+  process(block: Float32Array): Float32Array {
+    if (this.inputRate === this.outputRate || block.length === 0) return block;
+    const input = this.filter ? this.filter.process(block) : block;
+
+    const step = this.inputRate / this.outputRate;
+    const sample = (i: number) => (i === 0 ? this.previous : input[i - 1]);
+    const output = new Float32Array(Math.ceil((input.length - this.position) / step));
+    let count = 0;
+    for (; this.position < input.length; this.position += step) {
+      const index = Math.floor(this.position);
+      const a = sample(index);
+      output[count++] = a + (sample(index + 1) - a) * (this.position - index);
+    }
+    this.position -= input.length;
+    this.previous = input[input.length - 1];
+    return output.subarray(0, count);
+  }
+}
@@ -0,0 +1,14 @@
+import { AuditEvent, AuditEventType } from '../types';
+
+export const AUDIT_EVENT_LABELS: Record<AuditEventType, string> = {
+  conexion: 'Conexión',
+  reconexion: 'Reconexión',
+  herramienta: 'Herramienta',
+  grabacion: 'Grabación',
+  error: 'Error',
+  desconexion: 'Desconexión',
+};
+
+export const auditEvent = (type: AuditEventType, detail?: string): AuditEvent =>
+  ({ timestamp: new Date().toISOString(), type, detail });
+
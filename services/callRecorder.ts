@@ -0,0 +1,72 @@
+// Formats MediaRecorder is asked for, in order of preference
+export const RECORDING_MIME_TYPES = ['audio/webm;codecs=opus', 'audio/ogg;codecs=opus'];
+
+// Enough for a long call at the recording bitrate
+export const MAX_RECORDING_BYTES = 25 * 1024 * 1024;
+const RECORDING_BITS_PER_SECOND = 32000;
+
+export const RECORDING_CONSENT_NOTICE =
+  'La llamada se grabará (su voz y la del asistente) para dejar constancia de lo acordado con soporte. ' +
+  'La grabación queda asociada a su ticket y solo la escucha el equipo de soporte.';
+
+export interface RecordedCall {
+  blob: Blob;
+  mimeType: string;
+  durationSeconds: number;
+  startedAt: string;
+  consentAt: string;
+}
+
+export const isRecordingSupported = (): boolean =>
+  typeof MediaRecorder !== 'undefined' && RECORDING_MIME_TYPES.some(type => MediaRecorder.isTypeSupported(type));
+
+// Mixes the microphone and the agent's audio into one compressed file. Sources
+// are connected to `input`, a destination node of the playback context.
+export class CallRecorder {
+  readonly input: MediaStreamAudioDestinationNode;
+  private recorder: MediaRecorder;
+  private chunks: Blob[] = [];
+  private startedAt = '';
+
+  constructor(private context: AudioContext, private consentAt: string) {
+    this.input = context.createMediaStreamDestination();
+    const mimeType = RECORDING_MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+    this.recorder = new MediaRecorder(this.input.stream, { mimeType, audioBitsPerSecond: RECORDING_BITS_PER_SECOND });
+    this.recorder.ondataavailable = (e) => {
+      if (e.data.size > 0) this.chunks.push(e.data);
+    };
+  }
+
+  start() {
+    this.startedAt = new Date().toISOString();
+    // One chunk per second instead of a single buffer built at the end
+    this.recorder.start(1000);
+  }
+
+  // Adds a microphone stream to the mix; returns the function that removes it
+  addStream(stream: MediaStream): () => void {
+    const source = this.context.createMediaStreamSource(stream);
+    source.connect(this.input);
+    return () => source.disconnect();
+  }
+
+  // Resolves with the recording, or null when nothing was captured
+  stop(): Promise<RecordedCall | null> {
+    if (this.recorder.state === 'inactive') return Promise.resolve(null);
+    return new Promise(resolve => {
+      this.recorder.onstop = () => {
+        const mimeType = this.recorder.mimeType.split(';')[0] || 'audio/webm';
+        const blob = new Blob(this.chunks, { type: mimeType });
+        this.chunks = [];
+        resolve(blob.size === 0 ? null : {
+          blob,
+          mimeType,
+          durationSeconds: Math.round((Date.now() - new Date(this.startedAt).getTime()) / 1000),
+          startedAt: this.startedAt,
+          consentAt: this.consentAt,
+        });
+      };
+      this.recorder.stop();
+    });
+  }
+}
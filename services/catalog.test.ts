@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { MUNICIPALITIES, MUNICIPALITY_CODE_LENGTH, describeCatalogMatch, matchCatalog, normalizeTicketFields } from './catalog';
+
+describe('matchCatalog', () => {
+  it.each([
+    ['municipalidad', 'Municipalidad de Ñuñoa', 'Ñuñoa'],
+    ['municipalidad', 'nunoa', 'Ñuñoa'],
+    ['municipalidad', 'Pto. Montt', 'Puerto Montt'],
+    ['municipalidad', 'la muni de stgo', 'Santiago'],
+    ['municipalidad', 'Rapa Nui', 'Isla de Pascua'],
+    ['municipalidad', "O'Higgins", "O'Higgins"],
+    ['sistema', 'conta', 'Contabilidad'],
+    ['sistema', 'Sistema de RRHH', 'Recursos Humanos'],
+    ['sistema', 'Módulo de Tesoreria', 'Tesorería'],
+  ] as const)('recognizes %s "%s" as %s', (field, input, name) => {
+    const match = matchCatalog(field, input);
+    expect(match.exact).toBe(true);
+    expect(match.value?.name).toBe(name);
+  });
+
+  it.each([
+    ['municipalidad', 'Valparaizo', 'Valparaíso'],
+    ['municipalidad', 'Peñalolen centro', undefined],
+    ['sistema', 'Remuneracion', 'Remuneraciones'],
+    ['sistema', 'adquisic', 'Adquisiciones'],
+  ] as const)('interprets %s "%s" without taking it as exact', (field, input, name) => {
+    const match = matchCatalog(field, input);
+    expect(match.exact).toBe(false);
+    expect(match.value?.name).toBe(name);
+  });
+
+  it('offers a few candidates when the input is ambiguous', () => {
+    const match = matchCatalog('municipalidad', 'San');
+    expect(match.value).toBeUndefined();
+    expect(match.candidates).toHaveLength(3);
+    match.candidates.forEach(candidate => expect(candidate.name).toMatch(/^San/));
+  });
+
+  it.each(['Springfield', '   ', 'Municipalidad de'])('finds nothing for "%s"', input => {
+    const match = matchCatalog('municipalidad', input);
+    expect(match.value).toBeUndefined();
+    expect(match.candidates).toEqual([]);
+  });
+});
+
+describe('MUNICIPALITIES', () => {
+  it('gives every municipality its own ticket code', () => {
+    const codes = MUNICIPALITIES.map(entry => entry.code!);
+    expect(new Set(codes).size).toBe(MUNICIPALITIES.length);
+    codes.forEach(code => expect(code).toMatch(new RegExp(`^[A-Z0-9]{${MUNICIPALITY_CODE_LENGTH}}$`)));
+    expect(MUNICIPALITIES.find(entry => entry.name === 'Santiago')?.code).toBe('SANT');
+  });
+});
+
+describe('normalizeTicketFields', () => {
+  it('uses the catalog names for exact matches', () => {
+    expect(normalizeTicketFields({ municipalidad: 'muni de viña', sistema: 'sueldos', descripcion: 'x' })).toEqual({
+      municipalidad: 'Viña del Mar',
+      sistema: 'Remuneraciones',
+      descripcion: 'x',
+      unverifiedFields: undefined,
+    });
+  });
+
+  it('keeps what it cannot match exactly and flags it for review', () => {
+    expect(normalizeTicketFields({ municipalidad: 'Valparaizo', sistema: 'Portal de transparencia' })).toEqual({
+      municipalidad: 'Valparaizo',
+      sistema: 'Portal de transparencia',
+      unverifiedFields: ['municipalidad', 'sistema'],
+    });
+  });
+});
+
+describe('describeCatalogMatch', () => {
+  it('asks the agent to confirm an interpreted value', () => {
+    const text = describeCatalogMatch('municipalidad', matchCatalog('municipalidad', 'Valparaizo'));
+    expect(text).toBe('Valor interpretado como Valparaíso (Región de Valparaíso). Pregunte al usuario si es correcto antes de continuar y use exactamente "Valparaíso".');
+  });
+
+  it('lists the candidates of an ambiguous value', () => {
+    const text = describeCatalogMatch('municipalidad', matchCatalog('municipalidad', 'San'));
+    expect(text).toMatch(/^"San" coincide con varias opciones: .+\. Pregunte al usuario cuál corresponde\.$/);
+  });
+
+  it('asks for the value again when it is unknown', () => {
+    expect(describeCatalogMatch('sistema', matchCatalog('sistema', 'Springfield'))).toContain('"Springfield" no está en el catálogo.');
+  });
+});
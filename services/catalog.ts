@@ -0,0 +1,293 @@
+import { CatalogField } from '../types';
+import { editDistance, normalizeText } from './textSearch';
+
+// Communes of Chile grouped by region. Each commune has its own municipality.
+const COMMUNES_BY_REGION: Record<string, string[]> = {
+  'Región de Arica y Parinacota': ['Arica', 'Camarones', 'Putre', 'General Lagos'],
+  'Región de Tarapacá': ['Iquique', 'Alto Hospicio', 'Pozo Almonte', 'Camiña', 'Colchane', 'Huara', 'Pica'],
+  'Región de Antofagasta': [
+    'Antofagasta', 'Mejillones', 'Sierra Gorda', 'Taltal', 'Calama', 'Ollagüe', 'San Pedro de Atacama', 'Tocopilla',
+    'María Elena',
+  ],
+  'Región de Atacama': [
+    'Copiapó', 'Caldera', 'Tierra Amarilla', 'Chañaral', 'Diego de Almagro', 'Vallenar', 'Alto del Carmen', 'Freirina',
+    'Huasco',
+  ],
+  'Región de Coquimbo': [
+    'La Serena', 'Coquimbo', 'Andacollo', 'La Higuera', 'Paiguano', 'Vicuña', 'Illapel', 'Canela', 'Los Vilos',
+    'Salamanca', 'Ovalle', 'Combarbalá', 'Monte Patria', 'Punitaqui', 'Río Hurtado',
+  ],
+  'Región de Valparaíso': [
+    'Valparaíso', 'Casablanca', 'Concón', 'Juan Fernández', 'Puchuncaví', 'Quintero', 'Viña del Mar', 'Isla de Pascua',
+    'Los Andes', 'Calle Larga', 'Rinconada', 'San Esteban', 'La Ligua', 'Cabildo', 'Papudo', 'Petorca', 'Zapallar',
+    'Quillota', 'La Calera', 'Hijuelas', 'La Cruz', 'Nogales', 'San Antonio', 'Algarrobo', 'Cartagena', 'El Quisco',
+    'El Tabo', 'Santo Domingo', 'San Felipe', 'Catemu', 'Llaillay', 'Panquehue', 'Putaendo', 'Santa María', 'Quilpué',
+    'Limache', 'Olmué', 'Villa Alemana',
+  ],
+  'Región Metropolitana de Santiago': [
+    'Santiago', 'Cerrillos', 'Cerro Navia', 'Conchalí', 'El Bosque', 'Estación Central', 'Huechuraba', 'Independencia',
+    'La Cisterna', 'La Florida', 'La Granja', 'La Pintana', 'La Reina', 'Las Condes', 'Lo Barnechea', 'Lo Espejo',
+    'Lo Prado', 'Macul', 'Maipú', 'Ñuñoa', 'Pedro Aguirre Cerda', 'Peñalolén', 'Providencia', 'Pudahuel', 'Quilicura',
+    'Quinta Normal', 'Recoleta', 'Renca', 'San Joaquín', 'San Miguel', 'San Ramón', 'Vitacura', 'Puente Alto', 'Pirque',
+    'San José de Maipo', 'Colina', 'Lampa', 'Tiltil', 'San Bernardo', 'Buin', 'Calera de Tango', 'Paine', 'Melipilla',
+    'Alhué', 'Curacaví', 'María Pinto', 'San Pedro', 'Talagante', 'El Monte', 'Isla de Maipo', 'Padre Hurtado',
+    'Peñaflor',
+  ],
+  "Región del Libertador General Bernardo O'Higgins": [
+    'Rancagua', 'Codegua', 'Coinco', 'Coltauco', 'Doñihue', 'Graneros', 'Las Cabras', 'Machalí', 'Malloa', 'Mostazal',
+    'Olivar', 'Peumo', 'Pichidegua', 'Quinta de Tilcoco', 'Rengo', 'Requínoa', 'San Vicente', 'Pichilemu', 'La Estrella',
+    'Litueche', 'Marchigüe', 'Navidad', 'Paredones', 'San Fernando', 'Chépica', 'Chimbarongo', 'Lolol', 'Nancagua',
+    'Palmilla', 'Peralillo', 'Placilla', 'Pumanque', 'Santa Cruz',
+  ],
+  'Región del Maule': [
+    'Talca', 'Constitución', 'Curepto', 'Empedrado', 'Maule', 'Pelarco', 'Pencahue', 'Río Claro', 'San Clemente',
+    'San Rafael', 'Cauquenes', 'Chanco', 'Pelluhue', 'Curicó', 'Hualañé', 'Licantén', 'Molina', 'Rauco', 'Romeral',
+    'Sagrada Familia', 'Teno', 'Vichuquén', 'Linares', 'Colbún', 'Longaví', 'Parral', 'Retiro', 'San Javier',
+    'Villa Alegre', 'Yerbas Buenas',
+  ],
+  'Región de Ñuble': [
+    'Chillán', 'Bulnes', 'Chillán Viejo', 'El Carmen', 'Pemuco', 'Pinto', 'Quillón', 'San Ignacio', 'Yungay',
+    'Quirihue', 'Cobquecura', 'Coelemu', 'Ninhue', 'Portezuelo', 'Ránquil', 'Treguaco', 'San Carlos', 'Coihueco',
+    'Ñiquén', 'San Fabián', 'San Nicolás',
+  ],
+  'Región del Biobío': [
+    'Concepción', 'Coronel', 'Chiguayante', 'Florida', 'Hualqui', 'Lota', 'Penco', 'San Pedro de la Paz', 'Santa Juana',
+    'Talcahuano', 'Tomé', 'Hualpén', 'Lebu', 'Arauco', 'Cañete', 'Contulmo', 'Curanilahue', 'Los Álamos', 'Tirúa',
+    'Los Ángeles', 'Antuco', 'Cabrero', 'Laja', 'Mulchén', 'Nacimiento', 'Negrete', 'Quilaco', 'Quilleco', 'San Rosendo',
+    'Santa Bárbara', 'Tucapel', 'Yumbel', 'Alto Biobío',
+  ],
+  'Región de La Araucanía': [
+    'Temuco', 'Carahue', 'Cunco', 'Curarrehue', 'Freire', 'Galvarino', 'Gorbea', 'Lautaro', 'Loncoche', 'Melipeuco',
+    'Nueva Imperial', 'Padre Las Casas', 'Perquenco', 'Pitrufquén', 'Pucón', 'Saavedra', 'Teodoro Schmidt', 'Toltén',
+    'Vilcún', 'Villarrica', 'Cholchol', 'Angol', 'Collipulli', 'Curacautín', 'Ercilla', 'Lonquimay', 'Los Sauces',
+    'Lumaco', 'Purén', 'Renaico', 'Traiguén', 'Victoria',
+  ],
+  'Región de Los Ríos': [
+    'Valdivia', 'Corral', 'Lanco', 'Los Lagos', 'Máfil', 'Mariquina', 'Paillaco', 'Panguipulli', 'La Unión', 'Futrono',
+    'Lago Ranco', 'Río Bueno',
+  ],
+  'Región de Los Lagos': [
+    'Puerto Montt', 'Calbuco', 'Cochamó', 'Fresia', 'Frutillar', 'Los Muermos', 'Llanquihue', 'Maullín', 'Puerto Varas',
+    'Castro', 'Ancud', 'Chonchi', 'Curaco de Vélez', 'Dalcahue', 'Puqueldón', 'Queilén', 'Quellón', 'Quemchi',
+    'Quinchao', 'Osorno', 'Puerto Octay', 'Purranque', 'Puyehue', 'Río Negro', 'San Juan de la Costa', 'San Pablo',
+    'Chaitén', 'Futaleufú', 'Hualaihué', 'Palena',
+  ],
+  'Región de Aysén del General Carlos Ibáñez del Campo': [
+    'Coyhaique', 'Lago Verde', 'Aysén', 'Cisnes', 'Guaitecas', 'Cochrane', "O'Higgins", 'Tortel', 'Chile Chico',
+    'Río Ibáñez',
+  ],
+  'Región de Magallanes y de la Antártica Chilena': [
+    'Punta Arenas', 'Laguna Blanca', 'Río Verde', 'San Gregorio', 'Cabo de Hornos', 'Antártica', 'Porvenir', 'Primavera',
+    'Timaukel', 'Natales', 'Torres del Paine',
+  ],
+};
+
+export interface CatalogEntry {
+  name: string;
+  // Extra context read back to the caller when confirming (e.g. the region)
+  detail?: string;
+  aliases?: string[];
+  // Four-character code used in ticket numbers; unique among municipalities
+  code?: string;
+}
+
+// Nicknames heard on calls that edit distance alone would not resolve
+const MUNICIPALITY_ALIASES: Record<string, string[]> = {
+  'Santiago': ['stgo', 'santiago centro'],
+  'Concepción': ['conce'],
+  'Viña del Mar': ['viña'],
+  'Pedro Aguirre Cerda': ['pac'],
+  'Estación Central': ['estacion'],
+  'Isla de Pascua': ['rapa nui'],
+  'Natales': ['puerto natales'],
+  'Aysén': ['puerto aysen'],
+  'Cabo de Hornos': ['puerto williams'],
+  'Mariquina': ['san jose de la mariquina'],
+  'Llaillay': ['llay llay'],
+};
+
+export const MUNICIPALITY_CODE_LENGTH = 4;
+
+// The first letters of the name, e.g. "Santiago" -> "SANT", "La Florida" -> "LAFL"
+const deriveMunicipalityCode = (name: string) =>
+  name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toUpperCase()
+    .replace(/[^A-Z0-9]/g, '')
+    .slice(0, MUNICIPALITY_CODE_LENGTH)
+    .padEnd(MUNICIPALITY_CODE_LENGTH, 'X');
+
+// Communes whose first letters are taken by another one. The best-known commune
+// of each group keeps the derived code, so its existing ticket numbers still read right.
+const MUNICIPALITY_CODES: Record<string, string> = {
+  'Alto del Carmen': 'ALCA', 'Alto Biobío': 'ALBB',
+  'San Pedro de Atacama': 'SPAT', 'San Pedro de la Paz': 'SPPZ', 'San Pablo': 'SPAB',
+  'María Elena': 'MAEL', 'María Pinto': 'MAPI',
+  'Chanco': 'CHCO',
+  'Freirina': 'FRNA',
+  'Cañete': 'CANT',
+  'Concón': 'CCON', 'Conchalí': 'CCHL',
+  'Quinta Normal': 'QNOR', 'Quinta de Tilcoco': 'QTIL', 'Quinchao': 'QCHA',
+  'Isla de Maipo': 'IMAI',
+  'Los Álamos': 'LALM', 'Los Ángeles': 'LANG',
+  'Quilpué': 'QLPU', 'Quilicura': 'QLCU', 'Quillón': 'QLLN', 'Quilaco': 'QLAC', 'Quilleco': 'QLLE',
+  'Santo Domingo': 'STDO', 'Santa María': 'STMA', 'Santa Cruz': 'STCR', 'Santa Juana': 'STJU', 'Santa Bárbara': 'STBA',
+  'San Fernando': 'SFER', 'San Fabián': 'SFAB',
+  'Villa Alemana': 'VALM', 'Villa Alegre': 'VALG',
+  'Cerro Navia': 'CNAV',
+  'Las Cabras': 'LCAB',
+  'Peñaflor': 'PFLO',
+  'San José de Maipo': 'SJMA', 'San Javier': 'SJAV', 'San Juan de la Costa': 'SJCO',
+  'San Rafael': 'SRAF', 'San Rosendo': 'SROS',
+  'Melipeuco': 'MLPC',
+  'Curanilahue': 'CRNL', 'Curarrehue': 'CRRH', 'Curacautín': 'CRCT', 'Curaco de Vélez': 'CRVZ',
+  'Padre Las Casas': 'PLCA',
+  'Pichidegua': 'PCDG',
+  'Talcahuano': 'THNO',
+  'Maullín': 'MLLN',
+  'Pencahue': 'PNCH',
+  'San Clemente': 'SCLE',
+  'Hualañé': 'HLNE', 'Hualqui': 'HLQI', 'Hualaihué': 'HLHU',
+  'Chillán Viejo': 'CHVI', 'Chile Chico': 'CHCH',
+  'Lago Verde': 'LVER',
+  'Puerto Varas': 'PVAR', 'Puerto Octay': 'POCT',
+  'Cochamó': 'CCMO',
+};
+
+export const MUNICIPALITIES: CatalogEntry[] = Object.entries(COMMUNES_BY_REGION).flatMap(([region, communes]) =>
+  communes.map(name => ({
+    name,
+    detail: region,
+    aliases: MUNICIPALITY_ALIASES[name],
+    code: MUNICIPALITY_CODES[name] ?? deriveMunicipalityCode(name),
+  })),
+);
+
+// Product modules we give support for
+export const SUPPORTED_SYSTEMS: CatalogEntry[] = [
+  { name: 'Contabilidad', aliases: ['conta', 'contabilidad gubernamental', 'contable'] },
+  { name: 'Presupuesto', aliases: ['presupuestos', 'presupuestario'] },
+  { name: 'Tesorería', aliases: ['caja', 'recaudacion', 'tesoreria municipal'] },
+  { name: 'Adquisiciones', aliases: ['compras', 'ordenes de compra', 'abastecimiento'] },
+  { name: 'Bodega', aliases: ['inventario', 'existencias'] },
+  { name: 'Activo Fijo', aliases: ['inventario de bienes', 'bienes muebles'] },
+  { name: 'Remuneraciones', aliases: ['sueldos', 'liquidaciones', 'remu'] },
+  { name: 'Recursos Humanos', aliases: ['personal', 'rrhh', 'rr hh'] },
+  { name: 'Permisos de Circulación', aliases: ['permisos', 'permiso de circulacion', 'pcv'] },
+  { name: 'Patentes Comerciales', aliases: ['patentes', 'rentas', 'rentas y patentes'] },
+  { name: 'Licencias de Conducir', aliases: ['licencias', 'transito'] },
+  { name: 'Juzgado de Policía Local', aliases: ['juzgado', 'jpl', 'partes y multas'] },
+  { name: 'Obras Municipales', aliases: ['dom', 'obras', 'direccion de obras'] },
+  { name: 'Oficina de Partes', aliases: ['partes', 'correspondencia', 'documentos'] },
+];
+
+export interface CatalogMatch {
+  input: string;
+  // Canonical name when the input resolves to a single entry
+  value?: CatalogEntry;
+  // true when the input matched a name or alias exactly (ignoring case and accents)
+  exact: boolean;
+  // Close entries to offer the caller when the input is ambiguous or unknown
+  candidates: CatalogEntry[];
+}
+
+const MAX_CANDIDATES = 3;
+
+// Abbreviations common in spoken and written names
+const ABBREVIATIONS: Record<string, string> = {
+  pto: 'puerto', sta: 'santa', sto: 'santo', sn: 'san', gral: 'general', stgo: 'santiago',
+};
+
+const PREFIX = /^(la )?((i|ilustre) )?(muni|municipalidad|comuna|sistema|modulo)( de| del)? /;
+
+const catalogKey = (text: string) =>
+  normalizeText(text)
+    .replace(/['’]/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim()
+    .replace(PREFIX, '')
+    .split(' ')
+    .filter(Boolean)
+    .map(word => ABBREVIATIONS[word] ?? word)
+    .join(' ');
+
+class Catalog {
+  private keys: { key: string; entry: CatalogEntry }[];
+
+  constructor(readonly entries: CatalogEntry[]) {
+    this.keys = entries.flatMap(entry =>
+      [entry.name, ...(entry.aliases ?? [])].map(name => ({ key: catalogKey(name), entry })),
+    );
+  }
+
+  match(input: string): CatalogMatch {
+    const key = catalogKey(input);
+    if (!key) return { input, exact: false, candidates: [] };
+
+    const exact = this.keys.find(k => k.key === key);
+    if (exact) return { input, value: exact.entry, exact: true, candidates: [exact.entry] };
+
+    // Typos scale with length; prefixes cover truncated names ("conta")
+    const tolerance = Math.max(1, Math.floor(key.length / 5));
+    const scored = this.keys
+      .map(k => ({
+        entry: k.entry,
+        distance: key.length >= 3 && k.key.startsWith(key) ? 0 : editDistance(key, k.key),
+      }))
+      .filter(s => s.distance <= tolerance)
+      .sort((a, b) => a.distance - b.distance);
+
+    const candidates = Array.from(new Set(scored.map(s => s.entry))).slice(0, MAX_CANDIDATES);
+    return { input, value: candidates.length === 1 ? candidates[0] : undefined, exact: false, candidates };
+  }
+}
+
+export const municipalityCatalog = new Catalog(MUNICIPALITIES);
+export const systemCatalog = new Catalog(SUPPORTED_SYSTEMS);
+
+export const CATALOG_FIELD_LABELS: Record<CatalogField, string> = {
+  municipalidad: 'Municipalidad',
+  sistema: 'Sistema',
+};
+
+const catalogFor = (field: CatalogField) => (field === 'municipalidad' ? municipalityCatalog : systemCatalog);
+
+export const matchCatalog = (field: CatalogField, input: string) => catalogFor(field).match(input);
+
+// Replaces municipalidad and sistema with their canonical names. Only exact
+// matches are applied: by registration time the agent has already confirmed
+// the value with the caller, so anything else is kept as given and listed in
+// unverifiedFields for a technician to review.
+export function normalizeTicketFields<T extends { municipalidad: string; sistema: string }>(
+  fields: T,
+): T & { unverifiedFields?: CatalogField[] } {
+  const result: T & { unverifiedFields?: CatalogField[] } = { ...fields };
+  const unverified: CatalogField[] = [];
+  (['municipalidad', 'sistema'] as CatalogField[]).forEach(field => {
+    const match = matchCatalog(field, fields[field]);
+    if (match.value && match.exact) {
+      result[field] = match.value.name as T[CatalogField];
+    } else {
+      unverified.push(field);
+    }
+  });
+  result.unverifiedFields = unverified.length > 0 ? unverified : undefined;
+  return result;
+}
+
+// Tool reply used by the Live agent to confirm a value with the caller
+export function describeCatalogMatch(field: CatalogField, match: CatalogMatch): string {
+  const describe = (entry: CatalogEntry) => (entry.detail ? `${entry.name} (${entry.detail})` : entry.name);
+
+  if (match.value && match.exact) {
+    return `Valor reconocido en el catálogo de ${CATALOG_FIELD_LABELS[field].toLowerCase()}: ${describe(match.value)}. Confirme con el usuario y use exactamente "${match.value.name}".`;
+  }
+  if (match.value) {
+    return `Valor interpretado como ${describe(match.value)}. Pregunte al usuario si es correcto antes de continuar y use exactamente "${match.value.name}".`;
+  }
+  if (match.candidates.length > 0) {
+    return `"${match.input}" coincide con varias opciones: ${match.candidates.map(describe).join('; ')}. Pregunte al usuario cuál corresponde.`;
+  }
+  return `"${match.input}" no está en el catálogo. Pida al usuario que lo repita o deletree; si lo confirma, registre el valor tal cual y quedará marcado para revisión.`;
+}
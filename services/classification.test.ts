@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { classifyTicket, parseClassificationResponse, slaDeadline } from './classification';
+
+const FROM = new Date('2026-03-02T12:00:00.000Z');
+
+describe('classifyTicket', () => {
+  it.each([
+    ['No se pueden pagar las remuneraciones, el módulo quedó bloqueado', 'critica', 'Afecta el pago de remuneraciones.'],
+    ['Ningún usuario puede entrar a Tesorería', 'critica', 'Afecta a toda la municipalidad.'],
+    ['El servidor está caído desde la mañana', 'critica', 'El sistema no está disponible.'],
+    ['Las cajas detenidas por un error al emitir', 'critica', 'Detiene pagos o la atención de público.'],
+    ['Es urgente, no cuadra el cierre de mes', 'alta', 'Tiene un plazo inmediato.'],
+  ] as const)('raises "%s" to %s', (descripcion, priority, reason) => {
+    expect(classifyTicket(descripcion, null, FROM)).toMatchObject({ priority, reason });
+  });
+
+  it.each([
+    ['Necesito una capacitación del módulo de bodega', 'capacitacion'],
+    ['¿Cómo anulo un comprobante?', 'consulta'],
+    ['Solicito crear un usuario para la nueva cajera', 'requerimiento'],
+    ['El informe sale en blanco', 'error'],
+  ] as const)('takes "%s" as %s without the model', (descripcion, category) => {
+    expect(classifyTicket(descripcion, null, FROM)).toMatchObject({ priority: 'media', category });
+  });
+
+  it('never lowers the priority given by the model', () => {
+    const model = { priority: 'critica' as const, category: 'error' as const, reason: 'Bloquea la emisión de permisos.' };
+    expect(classifyTicket('Es urgente, vence hoy', model, FROM)).toEqual({
+      priority: 'critica',
+      category: 'error',
+      slaDeadline: '2026-03-02T16:00:00.000Z',
+      reason: 'Bloquea la emisión de permisos.',
+    });
+  });
+
+  it('keeps the category chosen by the model', () => {
+    const model = { priority: 'baja' as const, category: 'requerimiento' as const, reason: '' };
+    expect(classifyTicket('¿Cómo solicito un nuevo usuario?', model, FROM)).toEqual({
+      priority: 'baja',
+      category: 'requerimiento',
+      slaDeadline: '2026-03-05T12:00:00.000Z',
+      reason: undefined,
+    });
+  });
+});
+
+describe('slaDeadline', () => {
+  it.each([
+    ['critica', '2026-03-02T16:00:00.000Z'],
+    ['alta', '2026-03-02T20:00:00.000Z'],
+    ['media', '2026-03-03T12:00:00.000Z'],
+    ['baja', '2026-03-05T12:00:00.000Z'],
+  ] as const)('gives %s tickets until %s', (priority, deadline) => {
+    expect(slaDeadline(priority, FROM)).toBe(deadline);
+  });
+});
+
+describe('parseClassificationResponse', () => {
+  it('reads a reply that follows the schema', () => {
+    expect(parseClassificationResponse('{"priority":"alta","category":"consulta","reason":" Cierre de mes. "}'))
+      .toEqual({ priority: 'alta', category: 'consulta', reason: 'Cierre de mes.' });
+  });
+
+  it.each([
+    ['no JSON', 'alta'],
+    ['an unknown priority', '{"priority":"urgente","category":"error","reason":""}'],
+    ['an unknown category', '{"priority":"alta","category":"reclamo","reason":""}'],
+    ['an empty reply', undefined],
+  ])('rejects a reply with %s', (_case, text) => {
+    expect(parseClassificationResponse(text)).toBeNull();
+  });
+});
@@ -0,0 +1,109 @@
+import { Type, Schema } from '@google/genai';
+import { TicketCategory, TicketClassification, TicketPriority } from '../types';
+import { normalizeText } from './textSearch';
+
+export const PRIORITY_LABELS: Record<TicketPriority, string> = {
+  critica: 'Crítica',
+  alta: 'Alta',
+  media: 'Media',
+  baja: 'Baja',
+};
+
+export const CATEGORY_LABELS: Record<TicketCategory, string> = {
+  error: 'Error',
+  requerimiento: 'Requerimiento',
+  consulta: 'Consulta',
+  capacitacion: 'Capacitación',
+};
+
+// Most urgent first
+const PRIORITIES = Object.keys(PRIORITY_LABELS) as TicketPriority[];
+const CATEGORIES = Object.keys(CATEGORY_LABELS) as TicketCategory[];
+
+// Hours to attend a ticket, counted from its registration
+export const SLA_HOURS: Record<TicketPriority, number> = {
+  critica: 4,
+  alta: 8,
+  media: 24,
+  baja: 72,
+};
+
+// JSON schema requested from the model to classify a ticket
+export const CLASSIFICATION_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    priority: { type: Type.STRING, enum: PRIORITIES, description: 'critica si detiene un proceso de toda la municipalidad (pagos, remuneraciones, atención de público); alta si bloquea el trabajo de un área; media si tiene una alternativa; baja si es menor.' },
+    category: { type: Type.STRING, enum: CATEGORIES, description: 'error si algo falla; requerimiento si pide un cambio o un acceso; consulta si pregunta cómo hacer algo; capacitacion si pide formación.' },
+    reason: { type: Type.STRING, description: 'Motivo de la prioridad en una oración, en español.' },
+  },
+  required: ['priority', 'category', 'reason'],
+  propertyOrdering: ['priority', 'category', 'reason'],
+};
+
+interface ClassificationRule {
+  // Matched against the normalized description, without accents
+  pattern: RegExp;
+  priority?: TicketPriority;
+  category?: TicketCategory;
+  reason: string;
+}
+
+// Keyword rules. A rule can raise the model's priority but never lower it.
+export const CLASSIFICATION_RULES: ClassificationRule[] = [
+  { pattern: /\b(remuneraciones|sueldos|liquidaciones)\b.*\b(no se pueden? (pagar|procesar|emitir)|bloquead|caid)/, priority: 'critica', reason: 'Afecta el pago de remuneraciones.' },
+  { pattern: /\b(nadie|ningun usuario|todos los usuarios|toda la municipalidad|todo el municipio)\b/, priority: 'critica', reason: 'Afecta a toda la municipalidad.' },
+  { pattern: /\b(sistema|servidor|plataforma) (esta |se )?(caid|abajo|no responde|no levanta)/, priority: 'critica', reason: 'El sistema no está disponible.' },
+  { pattern: /\b(pago a proveedores|pagos? de proveedores|atencion de publico|cajas? detenid)/, priority: 'critica', reason: 'Detiene pagos o la atención de público.' },
+  { pattern: /\b(urgente|plazo legal|vence hoy|cierre (de mes|mensual|anual))\b/, priority: 'alta', reason: 'Tiene un plazo inmediato.' },
+  { pattern: /\b(capacitacion|capacitar|curso|induccion|aprender a usar)\b/, category: 'capacitacion', reason: 'Solicita capacitación.' },
+  { pattern: /^[¿\s]*(como|donde|cual|que) |\b(consulta|duda|pregunta)\b/, category: 'consulta', reason: 'Es una consulta de uso.' },
+  { pattern: /\b(solicito|necesito|requiero|crear (un )?usuario|nuevo usuario|habilitar|dar acceso|permiso para)\b/, category: 'requerimiento', reason: 'Solicita un cambio o un acceso.' },
+];
+
+export const isPriority = (value: unknown): value is TicketPriority => PRIORITIES.includes(value as TicketPriority);
+export const isCategory = (value: unknown): value is TicketCategory => CATEGORIES.includes(value as TicketCategory);
+
+const moreUrgent = (a: TicketPriority, b: TicketPriority): TicketPriority =>
+  PRIORITIES.indexOf(a) <= PRIORITIES.indexOf(b) ? a : b;
+
+export const slaDeadline = (priority: TicketPriority, from: Date = new Date()): string =>
+  new Date(from.getTime() + SLA_HOURS[priority] * 3_600_000).toISOString();
+
+export interface ModelClassification {
+  priority: TicketPriority;
+  category: TicketCategory;
+  reason: string;
+}
+
+// Validates the model reply. Returns null when it does not match the schema.
+export function parseClassificationResponse(text: string | undefined): ModelClassification | null {
+  let data: any;
+  try {
+    data = JSON.parse(text || '');
+  } catch {
+    return null;
+  }
+  if (!isPriority(data?.priority) || !isCategory(data?.category)) return null;
+  return { priority: data.priority, category: data.category, reason: typeof data.reason === 'string' ? data.reason.trim() : '' };
+}
+
+// Combines the model reply (null when it failed) with the keyword rules
+export function classifyTicket(descripcion: string, model: ModelClassification | null, from: Date = new Date()): TicketClassification {
+  const text = normalizeText(descripcion);
+  let priority: TicketPriority = model?.priority ?? 'media';
+  let category: TicketCategory | undefined = model?.category;
+  let reason = model?.reason || undefined;
+
+  for (const rule of CLASSIFICATION_RULES) {
+    if (!rule.pattern.test(text)) continue;
+    if (rule.priority && moreUrgent(rule.priority, priority) !== priority) {
+      priority = rule.priority;
+      reason = rule.reason;
+    }
+    if (rule.category && !category) {
+      category = rule.category;
+    }
+  }
+
+  return { priority, category: category ?? 'error', slaDeadline: slaDeadline(priority, from), reason };
+}
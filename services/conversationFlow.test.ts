@@ -0,0 +1,117 @@
+import { describe, expect, it } from 'vitest';
+import {
+  ConversationFlow,
+  ConversationFlowError,
+  buildSystemInstruction,
+  loadConversationFlow,
+  missingFlowTools,
+  parseConversationFlow,
+  validateConversationFlow,
+} from './conversationFlow';
+
+const FLOW: ConversationFlow = {
+  schemaVersion: 1,
+  version: '2.0.0',
+  voice: 'Kore',
+  agentName: 'Mesa de Ayuda',
+  role: 'Eres {{agente}}.',
+  initialContext: 'El correo es "{{correo}}".',
+  steps: [
+    { id: 'municipalidad', instruction: 'Pregunta la municipalidad.', collects: 'municipalidad', tool: 'lookupCatalog' },
+    { id: 'sistema', instruction: 'Pregunta el sistema: {{sistemas}}.', collects: 'sistema' },
+    { id: 'descripcion', instruction: 'Escucha el problema.', collects: 'descripcion' },
+    { id: 'registro', instruction: 'Registra el ticket.', tool: 'registerSupportTicket', requires: ['municipalidad', 'sistema', 'descripcion'], say: 'Su caso quedó registrado.' },
+  ],
+  rules: ['Habla siempre en español.'],
+  farewell: 'Gracias por llamar a {{agente}}.',
+  style: 'Cordial.',
+};
+
+const CALLER = { correo: 'ana@munistgo.cl', municipalidad: 'Santiago' };
+
+describe('validateConversationFlow', () => {
+  it('accepts the flow shipped in config/conversation-flow.json', () => {
+    const flow = loadConversationFlow();
+    expect(flow.steps.length).toBeGreaterThan(0);
+    expect(missingFlowTools(flow, name => ['lookupCatalog', 'analyzeProblem', 'registerSupportTicket', 'lookupTicket'].includes(name))).toEqual([]);
+  });
+
+  it('lists every problem in one pass', () => {
+    const problems = validateConversationFlow({
+      ...FLOW,
+      schemaVersion: 2,
+      voice: 'Robot',
+      farewell: '',
+      steps: [
+        { id: 'sistema', instruction: 'Pregunta por {{modulo}}.', collects: 'modulo' },
+        { id: 'sistema', instruction: '' },
+        { id: 'registro', instruction: 'Registra.', tool: 'registerSupportTicket', requires: ['descripcion'] },
+      ],
+    });
+    expect(problems).toEqual([
+      'schemaVersion debe ser 1 (se recibió 2).',
+      expect.stringMatching(/^La voz "Robot" no existe\./),
+      'Falta "farewell".',
+      'Paso 1 (sistema): el campo "modulo" no existe.',
+      'Paso 2 (sistema): el id está repetido.',
+      'Paso 2 (sistema): falta "instruction".',
+      'Paso 3 (registro): requiere descripcion, que ningún paso anterior obtiene.',
+      'Variables desconocidas: modulo. Disponibles: agente, correo, sistemas.',
+    ]);
+  });
+
+  it('asks for at least one step', () => {
+    expect(validateConversationFlow({ ...FLOW, steps: [] })).toEqual(['"steps" debe tener al menos un paso.']);
+  });
+});
+
+describe('parseConversationFlow', () => {
+  it('defaults rules to an empty list', () => {
+    const { rules, ...withoutRules } = FLOW;
+    expect(parseConversationFlow(JSON.stringify(withoutRules)).rules).toEqual([]);
+  });
+
+  it('throws ConversationFlowError with the problems found', () => {
+    expect(() => parseConversationFlow('{ "schemaVersion": 1,')).toThrow(ConversationFlowError);
+    expect(() => parseConversationFlow(JSON.stringify({ ...FLOW, version: ' ' })))
+      .toThrow(expect.objectContaining({ problems: ['Falta "version".'] }));
+  });
+});
+
+describe('missingFlowTools', () => {
+  it('names each unregistered tool once', () => {
+    const flow = { ...FLOW, steps: [...FLOW.steps, { id: 'cierre', instruction: 'Despídete.', tool: 'lookupCatalog' }] };
+    expect(missingFlowTools(flow, name => name === 'registerSupportTicket')).toEqual(['lookupCatalog']);
+  });
+});
+
+describe('buildSystemInstruction', () => {
+  const instruction = buildSystemInstruction(FLOW, CALLER, ['HERRAMIENTA registerSupportTicket: úsala al final.']);
+
+  it('fills the placeholders', () => {
+    expect(instruction).toContain('Eres Mesa de Ayuda.');
+    expect(instruction).toContain('El correo es "ana@munistgo.cl".');
+    expect(instruction).toMatch(/Pregunta el sistema: Contabilidad, Presupuesto, .+, Oficina de Partes\./);
+    expect(instruction).toContain('despídete con: "Gracias por llamar a Mesa de Ayuda."');
+    expect(instruction).not.toContain('{{');
+  });
+
+  it('numbers the steps and skips asking for what the verified email already gives', () => {
+    expect(instruction).toContain('1. Ya conoces la municipalidad por el correo verificado del usuario: "Santiago". NO preguntes por este dato');
+    expect(instruction).toContain('2. Pregunta el sistema:');
+    expect(instruction).toContain("   - PROHIBIDO ejecutar 'registerSupportTicket' sin tener la municipalidad, el sistema y la descripción del error.");
+    expect(instruction).toContain('   - Di: "Su caso quedó registrado."');
+    expect(instruction).toContain('- Habla siempre en español.');
+    expect(instruction).toContain('HERRAMIENTA registerSupportTicket: úsala al final.');
+  });
+
+  it('asks for the municipality when the email did not give it', () => {
+    expect(buildSystemInstruction(FLOW, { correo: CALLER.correo }, [])).toContain('1. Pregunta la municipalidad.');
+  });
+
+  it('keeps a crafted address from breaking out of its quotes', () => {
+    const crafted = buildSystemInstruction(FLOW, { correo: '"}{{agente}}"@munistgo.cl' }, []);
+    expect(crafted).not.toContain('"}');
+    expect(crafted).not.toContain('{{');
+  });
+});
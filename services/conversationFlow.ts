@@ -0,0 +1,208 @@
+import rawFlow from '../config/conversation-flow.json?raw';
+import { SUPPORTED_SYSTEMS } from './catalog';
+import { VerifiedEmail } from '../types';
+import { escapeForPrompt } from './sanitization';
+
+// Format of config/conversation-flow.json understood by this version of the app
+export const FLOW_SCHEMA_VERSION = 1;
+
+// Prebuilt voices of the Live native audio models
+export const LIVE_VOICES = [
+  'Zephyr', 'Puck', 'Charon', 'Kore', 'Fenrir', 'Leda', 'Orus', 'Aoede', 'Callirrhoe', 'Autonoe',
+  'Enceladus', 'Iapetus', 'Umbriel', 'Algieba', 'Despina', 'Erinome', 'Algenib', 'Rasalgethi', 'Laomedeia', 'Achernar',
+  'Alnilam', 'Schedar', 'Gacrux', 'Pulcherrima', 'Achird', 'Zubenelgenubi', 'Vindemiatrix', 'Sadachbia', 'Sadaltager', 'Sulafat',
+];
+
+export type FlowField = 'correo' | 'municipalidad' | 'sistema' | 'descripcion';
+
+const FIELD_LABELS: Record<FlowField, string> = {
+  correo: 'el correo',
+  municipalidad: 'la municipalidad',
+  sistema: 'el sistema',
+  descripcion: 'la descripción del error',
+};
+
+// The correo is typed before the call starts, so it never has to be collected
+const KNOWN_FIELDS: FlowField[] = ['correo'];
+
+const PLACEHOLDERS = ['agente', 'correo', 'sistemas'];
+
+export interface FlowStep {
+  id: string;
+  instruction: string;
+  // Ticket field the agent obtains in this step
+  collects?: FlowField;
+  // Tool run in this step; it must be registered in LiveManager
+  tool?: string;
+  // Fields that must be known before the step, or before its tool runs
+  requires?: FlowField[];
+  // Phrase the agent says as written, e.g. a confirmation
+  say?: string;
+  notes?: string[];
+}
+
+export interface ConversationFlow {
+  schemaVersion: number;
+  // Version of the script, recorded on every ticket registered with it
+  version: string;
+  voice: string;
+  agentName: string;
+  role: string;
+  initialContext: string;
+  steps: FlowStep[];
+  rules: string[];
+  farewell: string;
+  style: string;
+}
+
+export class ConversationFlowError extends Error {
+  constructor(public problems: string[]) {
+    super(`La configuración del flujo de conversación no es válida:\n- ${problems.join('\n- ')}`);
+  }
+}
+
+const isText = (value: unknown): value is string => typeof value === 'string' && value.trim().length > 0;
+const isTextList = (value: unknown): value is string[] => Array.isArray(value) && value.every(isText);
+const isField = (value: unknown): value is FlowField => typeof value === 'string' && value in FIELD_LABELS;
+
+const unknownPlaceholders = (text: string): string[] =>
+  Array.from(text.matchAll(/\{\{\s*(\w+)\s*\}\}/g), match => match[1]).filter(name => !PLACEHOLDERS.includes(name));
+
+// Returns every problem found, so a support lead can fix the file in one pass
+export function validateConversationFlow(data: any): string[] {
+  const problems: string[] = [];
+  if (data?.schemaVersion !== FLOW_SCHEMA_VERSION) {
+    problems.push(`schemaVersion debe ser ${FLOW_SCHEMA_VERSION} (se recibió ${JSON.stringify(data?.schemaVersion)}).`);
+  }
+  if (!isText(data?.version)) problems.push('Falta "version".');
+  if (!LIVE_VOICES.includes(data?.voice)) problems.push(`La voz "${data?.voice}" no existe. Voces disponibles: ${LIVE_VOICES.join(', ')}.`);
+  ['agentName', 'role', 'initialContext', 'farewell', 'style'].forEach(field => {
+    if (!isText(data?.[field])) problems.push(`Falta "${field}".`);
+  });
+  if (data?.rules !== undefined && !isTextList(data.rules)) problems.push('"rules" debe ser una lista de textos.');
+
+  if (!Array.isArray(data?.steps) || data.steps.length === 0) {
+    problems.push('"steps" debe tener al menos un paso.');
+    return problems;
+  }
+
+  const ids = new Set<string>();
+  const known = new Set<FlowField>(KNOWN_FIELDS);
+  data.steps.forEach((step: any, index: number) => {
+    const label = `Paso ${index + 1}${isText(step?.id) ? ` (${step.id})` : ''}`;
+    if (!isText(step?.id)) problems.push(`${label}: falta "id".`);
+    else if (ids.has(step.id)) problems.push(`${label}: el id está repetido.`);
+    else ids.add(step.id);
+    if (!isText(step?.instruction)) problems.push(`${label}: falta "instruction".`);
+    if (step?.tool !== undefined && !isText(step.tool)) problems.push(`${label}: "tool" debe ser el nombre de una herramienta.`);
+    if (step?.say !== undefined && !isText(step.say)) problems.push(`${label}: "say" debe ser texto.`);
+    if (step?.notes !== undefined && !isTextList(step.notes)) problems.push(`${label}: "notes" debe ser una lista de textos.`);
+    if (step?.collects !== undefined && !isField(step.collects)) problems.push(`${label}: el campo "${step.collects}" no existe.`);
+
+    if (isField(step?.collects)) known.add(step.collects);
+    if (step?.requires !== undefined) {
+      if (!Array.isArray(step.requires) || !step.requires.every(isField)) {
+        problems.push(`${label}: "requires" solo puede contener ${Object.keys(FIELD_LABELS).join(', ')}.`);
+      } else {
+        const missing = (step.requires as FlowField[]).filter(field => !known.has(field));
+        if (missing.length) problems.push(`${label}: requiere ${missing.join(', ')}, que ningún paso anterior obtiene.`);
+      }
+    }
+  });
+
+  const texts = [data.role, data.initialContext, data.farewell, data.style, ...(data.rules ?? []),
+    ...data.steps.flatMap((step: any) => [step?.instruction, step?.say, ...(step?.notes ?? [])])];
+  const placeholders = new Set(texts.filter(isText).flatMap(unknownPlaceholders));
+  if (placeholders.size) {
+    problems.push(`Variables desconocidas: ${Array.from(placeholders).join(', ')}. Disponibles: ${PLACEHOLDERS.join(', ')}.`);
+  }
+  return problems;
+}
+
+export function parseConversationFlow(raw: string): ConversationFlow {
+  let data: any;
+  try {
+    data = JSON.parse(raw);
+  } catch (e: any) {
+    throw new ConversationFlowError([`El archivo no es JSON válido: ${e.message}`]);
+  }
+  const problems = validateConversationFlow(data);
+  if (problems.length) {
+    throw new ConversationFlowError(problems);
+  }
+  return { ...data, rules: data.rules ?? [] };
+}
+
+// Tools referenced by the flow that the session does not provide
+export const missingFlowTools = (flow: ConversationFlow, isRegistered: (name: string) => boolean): string[] =>
+  Array.from(new Set(flow.steps.map(step => step.tool).filter((tool): tool is string => !!tool && !isRegistered(tool))));
+
+const joinFields = (fields: FlowField[]): string => {
+  const labels = fields.map(field => FIELD_LABELS[field]);
+  return labels.length > 1 ? `${labels.slice(0, -1).join(', ')} y ${labels[labels.length - 1]}` : labels[0];
+};
+
+// Values known before the call, e.g. the municipality verified from the email domain
+type KnownValues = Partial<Record<FlowField, string>>;
+
+function describeStep(step: FlowStep, index: number, known: KnownValues): string {
+  const value = step.collects && known[step.collects];
+  if (value) {
+    return `${index + 1}. Ya conoces ${FIELD_LABELS[step.collects!]} por el correo verificado del usuario: "${value}". NO preguntes por este dato; continúa con el siguiente paso.`;
+  }
+  const lines = [`${index + 1}. ${step.instruction}`];
+  if (step.requires?.length) {
+    lines.push(step.tool
+      ? `   - PROHIBIDO ejecutar '${step.tool}' sin tener ${joinFields(step.requires)}.`
+      : `   - No avances sin tener ${joinFields(step.requires)}.`);
+  }
+  step.notes?.forEach(note => lines.push(`   - ${note}`));
+  if (step.say) {
+    lines.push(`   - Di: "${step.say}"`);
+  }
+  return lines.join('\n');
+}
+
+// The conversation script; each registered tool appends its own instructions
+export function buildSystemInstruction(flow: ConversationFlow, caller: VerifiedEmail, toolPrompts: string[]): string {
+  // Local parts may contain quotes and braces, which would otherwise end the quoted
+  // value or be expanded as a placeholder
+  const correo = escapeForPrompt(caller.correo);
+  const known: KnownValues = { correo, municipalidad: caller.municipalidad && escapeForPrompt(caller.municipalidad) };
+  const values: Record<string, string> = {
+    agente: flow.agentName,
+    correo,
+    sistemas: SUPPORTED_SYSTEMS.map(system => system.name).join(', '),
+  };
+  const fill = (text: string) => text.replace(/\{\{\s*(\w+)\s*\}\}/g, (_, name) => values[name] ?? '');
+
+  return `
+ROL DEL AGENTE
+${fill(flow.role)}
+
+CONTEXTO INICIAL
+${fill(flow.initialContext)}
+
+FLUJO OBLIGATORIO DE CONVERSACIÓN (NO SALTES PASOS)
+${fill(flow.steps.map((step, index) => describeStep(step, index, known)).join('\n'))}
+
+REGLAS DE ORO:
+- NO saltes pasos ni cambies su orden.
+${flow.rules.map(rule => `- ${fill(rule)}`).join('\n')}
+
+DESPEDIDA: Al terminar la atención, despídete con: "${fill(flow.farewell)}"
+
+${toolPrompts.join('\n\n')}
+
+Estilo de comunicación: ${fill(flow.style)}
+`;
+}
+
+let loadedFlow: ConversationFlow | null = null;
+
+// Parsed and validated on first use rather than at import, so an invalid file
+// is listed in the UI from ConversationFlowError.problems instead of breaking the app
+export function loadConversationFlow(): ConversationFlow {
+  loadedFlow ??= parseConversationFlow(rawFlow);
+  return loadedFlow;
+}
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { StoredTicket } from '../types';
+import { descriptionSimilarity, findDuplicate } from './duplicates';
+
+const NOW = Date.parse('2026-03-02T12:00:00.000Z');
+
+const ticket = (ticketId: string, fields: Partial<StoredTicket> = {}): StoredTicket => ({
+  ticketId,
+  correo: 'ana@munistgo.cl',
+  municipalidad: 'Santiago',
+  sistema: 'Tesorería',
+  descripcion: 'La caja no emite el comprobante de pago del permiso de circulación',
+  timestamp: '2026-03-02T10:00:00.000Z',
+  status: 'nuevo',
+  history: [],
+  updatedAt: '2026-03-02T10:00:00.000Z',
+  ...fields,
+});
+
+const INPUT = { sistema: 'Tesorería', descripcion: 'No se emite el comprobante de pago en caja' };
+
+describe('descriptionSimilarity', () => {
+  it('shares the terms of both descriptions, ignoring accents and stopwords', () => {
+    const { similarity, sharedTerms } = descriptionSimilarity('No imprime la liquidación', 'Liquidacion no se imprime');
+    expect(sharedTerms).toHaveLength(2);
+    expect(similarity).toBe(1);
+  });
+
+  it('is 0 for empty descriptions', () => {
+    expect(descriptionSimilarity('', '')).toEqual({ similarity: 0, sharedTerms: [] });
+  });
+});
+
+describe('findDuplicate', () => {
+  it('links a ticket to an open one of the same system that reports the same problem', () => {
+    const match = findDuplicate(INPUT, [ticket('T-2026-SANT-00001-1')], NOW);
+    expect(match?.parentTicketId).toBe('T-2026-SANT-00001-1');
+    expect(match?.sharedTerms.length).toBeGreaterThanOrEqual(2);
+  });
+
+  it('links to the incident the match already belongs to', () => {
+    const match = findDuplicate(INPUT, [ticket('T-2026-SANT-00002-2', { parentTicketId: 'T-2026-SANT-00001-1' })], NOW);
+    expect(match?.ticket.ticketId).toBe('T-2026-SANT-00002-2');
+    expect(match?.parentTicketId).toBe('T-2026-SANT-00001-1');
+  });
+
+  it('prefers the most similar ticket', () => {
+    const close = ticket('T-2026-SANT-00001-1', { descripcion: 'La caja no emite el comprobante desde la actualización' });
+    const closer = ticket('T-2026-SANT-00002-2', { descripcion: 'No se emite el comprobante de pago' });
+    expect(findDuplicate(INPUT, [close], NOW)?.ticket).toBe(close);
+    expect(findDuplicate(INPUT, [close, closer], NOW)?.ticket).toBe(closer);
+    expect(findDuplicate(INPUT, [closer, close], NOW)?.ticket).toBe(closer);
+  });
+
+  it.each([
+    ['another system', { sistema: 'Contabilidad' }],
+    ['a resolved ticket', { status: 'resuelto' as const }],
+    ['a ticket older than a day', { timestamp: '2026-03-01T11:00:00.000Z' }],
+    ['a different problem', { descripcion: 'No puedo ingresar con mi clave al módulo' }],
+    ['a single shared word', { descripcion: 'comprobante' }],
+  ])('ignores %s', (_case, fields) => {
+    expect(findDuplicate(INPUT, [ticket('T-2026-SANT-00001-1', fields)], NOW)).toBeNull();
+  });
+});
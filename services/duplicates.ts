@@ -0,0 +1,47 @@
+import { StoredTicket, TicketStatus } from '../types';
+import { tokenize } from './textSearch';
+import { ticketAgeHours } from './ticketQueue';
+
+// Only recent tickets still being worked are considered part of an ongoing incident
+export const DUPLICATE_WINDOW_HOURS = 24;
+const OPEN_STATUSES: TicketStatus[] = ['nuevo', 'en_curso'];
+
+// Dice coefficient between the description terms
+export const DUPLICATE_MIN_SIMILARITY = 0.4;
+// A single shared word such as "error" is not enough to link two tickets
+const MIN_SHARED_TERMS = 2;
+
+export interface DuplicateMatch {
+  ticket: StoredTicket;
+  // Incident the new ticket is linked to: the match itself or the incident it already belongs to
+  parentTicketId: string;
+  similarity: number;
+  sharedTerms: string[];
+}
+
+export function descriptionSimilarity(a: string, b: string): { similarity: number; sharedTerms: string[] } {
+  const left = new Set(tokenize(a));
+  const right = new Set(tokenize(b));
+  const sharedTerms = Array.from(left).filter(term => right.has(term));
+  const total = left.size + right.size;
+  return { similarity: total ? (2 * sharedTerms.length) / total : 0, sharedTerms };
+}
+
+// Best open ticket of the same system that probably reports the same problem
+export function findDuplicate(
+  input: { sistema: string; descripcion: string },
+  candidates: StoredTicket[],
+  now: number = Date.now()
+): DuplicateMatch | null {
+  let best: DuplicateMatch | null = null;
+  for (const ticket of candidates) {
+    if (ticket.sistema !== input.sistema || !OPEN_STATUSES.includes(ticket.status)) continue;
+    if (ticketAgeHours(ticket, now) > DUPLICATE_WINDOW_HOURS) continue;
+
+    const { similarity, sharedTerms } = descriptionSimilarity(input.descripcion, ticket.descripcion);
+    if (similarity < DUPLICATE_MIN_SIMILARITY || sharedTerms.length < MIN_SHARED_TERMS) continue;
+    if (best && similarity <= best.similarity) continue;
+    best = { ticket, parentTicketId: ticket.parentTicketId || ticket.ticketId, similarity, sharedTerms };
+  }
+  return best;
+}
@@ -0,0 +1,122 @@
+import { municipalityCatalog } from './catalog';
+
+// Format of config/email-domains.json understood by this version of the app
+export const EMAIL_DOMAINS_SCHEMA_VERSION = 1;
+
+// Digits of the one-time code mailed when requireCode is set
+export const EMAIL_CODE_LENGTH = 6;
+
+export interface MunicipalDomains {
+  // Canonical name from the municipality catalog
+  municipalidad: string;
+  // Subdomains are accepted too (e.g. "rentas.munistgo.cl")
+  domains: string[];
+}
+
+export interface EmailDomainConfig {
+  schemaVersion: number;
+  // Ask for a one-time code sent to the address before every call
+  requireCode: boolean;
+  // Institutional domains allowed to start a call; empty allows any address
+  municipalities: MunicipalDomains[];
+}
+
+export interface EmailCheck {
+  valid: boolean;
+  // Trimmed and lowercased address
+  correo: string;
+  municipalidad?: string;
+  reason?: string;
+}
+
+export class EmailDomainConfigError extends Error {
+  constructor(public problems: string[]) {
+    super(`La configuración de dominios de correo no es válida:\n- ${problems.join('\n- ')}`);
+  }
+}
+
+// RFC 5321 limits and the dot-atom form of RFC 5322. Quoted local parts and IP
+// literals are valid addresses but never used by a municipality, so they are rejected.
+const MAX_EMAIL_LENGTH = 254;
+const MAX_LOCAL_LENGTH = 64;
+const LOCAL_PART = /^[a-z0-9!#$%&'*+/=?^_`{|}~-]+(\.[a-z0-9!#$%&'*+/=?^_`{|}~-]+)*$/i;
+const DOMAIN_LABEL = /^[a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?$/i;
+const TOP_LEVEL_DOMAIN = /^[a-z]{2,63}$/i;
+
+export function isValidDomain(domain: string): boolean {
+  const labels = domain.split('.');
+  return domain.length <= 253 && labels.length >= 2 && labels.every(label => DOMAIN_LABEL.test(label)) &&
+    TOP_LEVEL_DOMAIN.test(labels[labels.length - 1]);
+}
+
+export function isValidEmail(email: string): boolean {
+  const at = email.lastIndexOf('@');
+  if (at <= 0 || email.length > MAX_EMAIL_LENGTH) return false;
+  const local = email.slice(0, at);
+  return local.length <= MAX_LOCAL_LENGTH && LOCAL_PART.test(local) && isValidDomain(email.slice(at + 1));
+}
+
+const belongsTo = (domain: string, allowed: string) => domain === allowed || domain.endsWith(`.${allowed}`);
+
+export function checkEmail(input: string, config: EmailDomainConfig): EmailCheck {
+  const correo = input.trim().toLowerCase();
+  if (!correo) {
+    return { valid: false, correo, reason: 'Ingrese su correo institucional.' };
+  }
+  if (!isValidEmail(correo)) {
+    return { valid: false, correo, reason: `"${correo}" no es un correo válido.` };
+  }
+  if (config.municipalities.length === 0) {
+    return { valid: true, correo };
+  }
+  const domain = correo.slice(correo.lastIndexOf('@') + 1);
+  const owner = config.municipalities.find(entry => entry.domains.some(allowed => belongsTo(domain, allowed)));
+  if (!owner) {
+    return { valid: false, correo, reason: `El dominio ${domain} no corresponde a una municipalidad registrada. Use su correo institucional.` };
+  }
+  return { valid: true, correo, municipalidad: owner.municipalidad };
+}
+
+// Reports every problem in one error, like the conversation flow validator
+export function parseEmailDomainConfig(raw: string): EmailDomainConfig {
+  let data: any;
+  try {
+    data = JSON.parse(raw);
+  } catch (e: any) {
+    throw new EmailDomainConfigError([`El archivo no es JSON válido: ${e.message}`]);
+  }
+
+  const problems: string[] = [];
+  if (data?.schemaVersion !== EMAIL_DOMAINS_SCHEMA_VERSION) {
+    problems.push(`schemaVersion debe ser ${EMAIL_DOMAINS_SCHEMA_VERSION} (se recibió ${JSON.stringify(data?.schemaVersion)}).`);
+  }
+  if (typeof data?.requireCode !== 'boolean') problems.push('"requireCode" debe ser true o false.');
+  if (!Array.isArray(data?.municipalities)) {
+    problems.push('"municipalities" debe ser una lista.');
+    throw new EmailDomainConfigError(problems);
+  }
+
+  const owners = new Map<string, string>();
+  const municipalities: MunicipalDomains[] = data.municipalities.map((entry: any, index: number) => {
+    const match = typeof entry?.municipalidad === 'string' ? municipalityCatalog.match(entry.municipalidad) : undefined;
+    const municipalidad = match?.exact ? match.value!.name : undefined;
+    const label = `Entrada ${index + 1}${typeof entry?.municipalidad === 'string' ? ` (${entry.municipalidad})` : ''}`;
+    if (!municipalidad) problems.push(`${label}: la municipalidad no está en el catálogo.`);
+    if (!Array.isArray(entry?.domains) || entry.domains.length === 0) {
+      problems.push(`${label}: "domains" debe tener al menos un dominio.`);
+      return { municipalidad, domains: [] };
+    }
+    const domains = entry.domains.map((domain: unknown) => String(domain).trim().toLowerCase());
+    domains.forEach((domain: string) => {
+      if (!isValidDomain(domain)) problems.push(`${label}: "${domain}" no es un dominio válido.`);
+      else if (owners.has(domain)) problems.push(`${label}: el dominio ${domain} ya está asignado a ${owners.get(domain)}.`);
+      else owners.set(domain, municipalidad ?? label);
+    });
+    return { municipalidad, domains };
+  });
+
+  if (problems.length) {
+    throw new EmailDomainConfigError(problems);
+  }
+  return { schemaVersion: data.schemaVersion, requireCode: data.requireCode, municipalities };
+}
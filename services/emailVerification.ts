@@ -0,0 +1,52 @@
+import rawDomains from '../config/email-domains.json?raw';
+import { EmailCodeRequest, VerifiedEmail } from '../types';
+import { parseEmailDomainConfig } from './emailPolicy';
+
+// Loaded and validated when the app starts, like the conversation flow
+export const emailDomains = parseEmailDomainConfig(rawDomains);
+
+// Error returned by the verification API. status is 0 when the server was unreachable.
+export class EmailVerificationError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+// One-time codes are generated and mailed by the server, so they never reach the browser
+export class EmailVerificationClient {
+  constructor(private baseUrl: string = '/api/verification') {}
+
+  requestCode(correo: string): Promise<EmailCodeRequest> {
+    return this.post('', { correo });
+  }
+
+  // Both open the server session that the ticket and assistant APIs require
+  confirmCode(correo: string, code: string): Promise<VerifiedEmail> {
+    return this.post('/confirm', { correo, code });
+  }
+
+  // Without requireCode the domain allowlist is the whole check
+  openSession(correo: string): Promise<VerifiedEmail> {
+    return this.post('/session', { correo });
+  }
+
+  private async post<T>(path: string, body: unknown): Promise<T> {
+    let response: Response;
+    try {
+      response = await fetch(this.baseUrl + path, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+    } catch {
+      throw new EmailVerificationError(0, 'No se pudo contactar al servidor para verificar el correo. Inténtelo más tarde.');
+    }
+    const payload = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new EmailVerificationError(response.status, payload.error || `Error ${response.status} al verificar el correo.`);
+    }
+    return payload as T;
+  }
+}
+
+export const emailVerification = new EmailVerificationClient();
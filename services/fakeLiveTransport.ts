@@ -0,0 +1,151 @@
+import {
+  LiveCallbacks,
+  LiveConnectParameters,
+  LiveSendClientContentParameters,
+  LiveSendRealtimeInputParameters,
+  LiveSendToolResponseParameters,
+  LiveServerMessage,
+} from '@google/genai';
+import { ContentGenerator, LiveSession, LiveTransport } from './liveTransport';
+
+export type SentKind = 'realtimeInput' | 'toolResponse' | 'clientContent';
+
+// One step of a scripted session. Steps run in order; each field is optional.
+export interface FakeLiveStep {
+  delayMs?: number;
+  // Waits until the client sends one more message of this kind
+  waitFor?: SentKind;
+  // Delivered to onmessage as is (tool calls, audio, transcriptions, interruptions...)
+  message?: Partial<LiveServerMessage>;
+  // Fires onerror, then closes the socket
+  error?: string;
+  // Closes the socket from the server side
+  close?: boolean;
+}
+
+export interface FakeLiveScript {
+  name?: string;
+  // Steps for each successive connection, so reconnection can be scripted too
+  sessions: FakeLiveStep[][];
+  // Replies returned in order by FakeContentGenerator (tips JSON, email draft...)
+  content?: string[];
+}
+
+export interface SentMessage {
+  kind: SentKind;
+  params: LiveSendRealtimeInputParameters | LiveSendToolResponseParameters | LiveSendClientContentParameters;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export class FakeLiveSession implements LiveSession {
+  readonly sent: SentMessage[] = [];
+  closed = false;
+  private consumed: Record<SentKind, number> = { realtimeInput: 0, toolResponse: 0, clientContent: 0 };
+  private waiters: (() => void)[] = [];
+
+  constructor(readonly params: LiveConnectParameters, private callbacks: LiveCallbacks) {}
+
+  sendRealtimeInput(params: LiveSendRealtimeInputParameters) {
+    this.record('realtimeInput', params);
+  }
+
+  sendToolResponse(params: LiveSendToolResponseParameters) {
+    this.record('toolResponse', params);
+  }
+
+  sendClientContent(params: LiveSendClientContentParameters) {
+    this.record('clientContent', params);
+  }
+
+  close() {
+    this.shutdown(1000, 'Closed by client');
+  }
+
+  async play(steps: FakeLiveStep[]) {
+    for (const step of steps) {
+      if (step.delayMs) await sleep(step.delayMs);
+      if (step.waitFor) await this.waitFor(step.waitFor);
+      if (this.closed) return;
+
+      if (step.message) {
+        this.callbacks.onmessage(step.message as LiveServerMessage);
+      }
+      if (step.error) {
+        this.callbacks.onerror?.({ type: 'error', message: step.error } as ErrorEvent);
+        this.shutdown(1006, step.error);
+      }
+      if (step.close) {
+        this.shutdown(1000, 'Closed by server');
+      }
+    }
+  }
+
+  private record(kind: SentKind, params: SentMessage['params']) {
+    if (this.closed) return;
+    this.sent.push({ kind, params });
+    const waiters = this.waiters;
+    this.waiters = [];
+    waiters.forEach(wake => wake());
+  }
+
+  private async waitFor(kind: SentKind) {
+    while (!this.closed && this.sent.filter(m => m.kind === kind).length <= this.consumed[kind]) {
+      await new Promise<void>(resolve => this.waiters.push(resolve));
+    }
+    this.consumed[kind]++;
+  }
+
+  private shutdown(code: number, reason: string) {
+    if (this.closed) return;
+    this.closed = true;
+    this.waiters.forEach(wake => wake());
+    this.waiters = [];
+    this.callbacks.onclose?.({ type: 'close', code, reason, wasClean: code === 1000 } as CloseEvent);
+  }
+}
+
+// Scripted stand-in for the Live API. Each connect() plays the next session
+// of the script; connecting more times than scripted fails like an unreachable server.
+export class FakeLiveTransport implements LiveTransport {
+  readonly sessions: FakeLiveSession[] = [];
+
+  constructor(private script: FakeLiveScript) {}
+
+  async connect(params: LiveConnectParameters): Promise<LiveSession> {
+    const steps = this.script.sessions[this.sessions.length];
+    if (!steps) {
+      throw new Error('Servidor Live de prueba no disponible.');
+    }
+    const session = new FakeLiveSession(params, params.callbacks);
+    this.sessions.push(session);
+
+    params.callbacks.onopen?.();
+    // Start after connect() resolves, as a real socket would
+    setTimeout(() => session.play(steps), 0);
+    return session;
+  }
+}
+
+export class FakeContentGenerator implements ContentGenerator {
+  readonly requests: unknown[] = [];
+
+  constructor(private replies: string[]) {}
+
+  async generateContent(params: unknown): Promise<{ text?: string }> {
+    const text = this.replies[Math.min(this.requests.length, this.replies.length - 1)];
+    this.requests.push(params);
+    return { text };
+  }
+}
+
+const FIXTURES = import.meta.glob<FakeLiveScript>('../fixtures/live/*.json', { import: 'default' });
+
+// Loads a fixture from fixtures/live by file name, without the extension
+export async function loadFakeLiveScript(name: string): Promise<FakeLiveScript> {
+  const load = FIXTURES[`../fixtures/live/${name}.json`];
+  if (!load) {
+    throw new Error(`No existe el guion de prueba "${name}".`);
+  }
+  return load();
+}
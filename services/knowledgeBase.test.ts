@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { knowledgeBase } from './knowledgeBase';
+
+const matches = (description: string, sistema: string) =>
+  knowledgeBase.search(description, sistema).map(hit => hit.item.id);
+
+describe('KnowledgeBase.search', () => {
+  it.each([
+    ['no puedo entrar, me dice usuario bloqueado', 'Contabilidad', 'KB-GEN-001'],
+    ['olvidé mi contraseña', 'Remuneraciones', 'KB-GEN-001'],
+    ['me sale stock negativo al hacer un despacho', 'Bodega', 'KB-BOD-001'],
+    ['no puedo abrir la caja en la mañana', 'Tesorería', 'KB-TES-001'],
+    ['la orden de compra no tiene disponibilidad presupuestaria', 'Adquisiciones', 'KB-ADQ-001'],
+  ])('finds the article for "%s"', (description, sistema, id) => {
+    expect(matches(description, sistema)[0]).toBe(id);
+  });
+
+  it.each([
+    ['El sistema se cierra solo al guardar un usuario nuevo', 'Bodega'],
+    ['error de acceso a la impresora', 'Tesorería'],
+  ])('does not match on a single word of a keyword phrase: "%s"', (description, sistema) => {
+    expect(matches(description, sistema)).toEqual([]);
+  });
+
+  it('does not offer a closed-period article for a blocked user', () => {
+    expect(matches('no puedo entrar, me dice usuario bloqueado', 'Contabilidad')).not.toContain('KB-CONT-001');
+  });
+});
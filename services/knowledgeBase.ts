@@ -0,0 +1,146 @@
+import { SolutionData, SolutionDifficulty, SolutionSource } from '../types';
+import { MAX_STEPS } from './troubleshooting';
+import { normalizeText, SearchHit, TextIndex, tokenize } from './textSearch';
+
+// Articles with this sistema apply to every system
+export const GENERAL_SYSTEM = 'general';
+
+export interface KnowledgeArticle {
+  id: string;
+  title: string;
+  sistema: string;
+  keywords: string[];
+  difficulty: SolutionDifficulty;
+  requiresTechnician: boolean;
+  summary: string;
+  steps: string[];
+}
+
+const DIFFICULTIES: SolutionDifficulty[] = ['baja', 'media', 'alta'];
+const STEP_LINE = /^\s*(\d+[.)]|[-*•])\s+(.*)$/;
+
+// A hit counts as a match when it shares at least this many terms with the
+// description, or when the description contains one of the article keywords
+// whole: "usuario bloqueado" needs both words, not just "usuario".
+const MIN_MATCHED_TERMS = 2;
+const MAX_SOURCES = 3;
+const RELATED_SCORE_RATIO = 0.5;
+
+const parseFields = (source: string): Record<string, string> =>
+  Object.fromEntries(
+    source.split('\n')
+      .map(line => line.match(/^([A-Za-z]+):\s*(.*)$/))
+      .filter((match): match is RegExpMatchArray => !!match)
+      .map(match => [match[1], match[2].trim()]),
+  );
+
+// Parses a Markdown article with a "key: value" front matter block, or the
+// same fields as a JSON object. Returns null when required fields are missing.
+export function parseArticle(raw: string): KnowledgeArticle | null {
+  let fields: Record<string, any>;
+  let body = '';
+
+  if (raw.trimStart().startsWith('{')) {
+    try {
+      fields = JSON.parse(raw);
+    } catch {
+      return null;
+    }
+  } else {
+    const match = raw.match(/^---\r?\n([\s\S]*?)\r?\n---\r?\n?([\s\S]*)$/);
+    if (!match) return null;
+    fields = parseFields(match[1]);
+    body = match[2];
+  }
+
+  const lines = body.split('\n').map(line => line.trim()).filter(Boolean);
+  const steps = Array.isArray(fields.steps)
+    ? fields.steps.filter((step: unknown) => typeof step === 'string')
+    : lines.map(line => line.match(STEP_LINE)?.[2]).filter((step): step is string => !!step);
+  const summary = typeof fields.summary === 'string'
+    ? fields.summary
+    : lines.filter(line => !STEP_LINE.test(line)).join(' ');
+  const keywords = Array.isArray(fields.keywords)
+    ? fields.keywords
+    : String(fields.keywords ?? '').split(',').map(k => k.trim()).filter(Boolean);
+
+  if (!fields.id || !fields.title || !fields.sistema || steps.length === 0) return null;
+
+  return {
+    id: String(fields.id),
+    title: String(fields.title),
+    sistema: String(fields.sistema),
+    keywords,
+    difficulty: DIFFICULTIES.includes(fields.difficulty) ? fields.difficulty : 'media',
+    requiresTechnician: fields.requiresTechnician === true || fields.requiresTechnician === 'true',
+    summary,
+    steps,
+  };
+}
+
+// "Contabilidad Gubernamental" also matches articles filed under "contabilidad"
+const coversSystem = (article: KnowledgeArticle, sistema: string) =>
+  article.sistema === GENERAL_SYSTEM || normalizeText(sistema).includes(normalizeText(article.sistema));
+
+export class KnowledgeBase {
+  private index: TextIndex<KnowledgeArticle>;
+  private keywordPhrases = new Map<string, string[][]>();
+
+  constructor(readonly articles: KnowledgeArticle[]) {
+    this.index = new TextIndex(articles, article => [
+      { text: article.keywords.join(' '), weight: 3 },
+      { text: article.title, weight: 2 },
+      { text: `${article.summary} ${article.steps.join(' ')}`, weight: 1 },
+    ]);
+    articles.forEach(article => this.keywordPhrases.set(
+      article.id,
+      article.keywords.map(keyword => tokenize(keyword)).filter(terms => terms.length > 0),
+    ));
+  }
+
+  private containsKeyword(articleId: string, terms: string[]): boolean {
+    return (this.keywordPhrases.get(articleId) ?? []).some(phrase =>
+      terms.some((_, start) => phrase.every((term, i) => terms[start + i] === term)));
+  }
+
+  // Articles for the given system (plus general ones) that match the description
+  search(description: string, sistema: string): SearchHit<KnowledgeArticle>[] {
+    const terms = tokenize(description);
+    return this.index
+      .search(description, article => coversSystem(article, sistema))
+      .filter(hit => hit.matchedTerms.length >= MIN_MATCHED_TERMS || this.containsKeyword(hit.item.id, terms));
+  }
+
+  // Builds the tips card from the best matching article
+  findSolution(description: string, sistema: string): SolutionData | null {
+    const hits = this.search(description, sistema);
+    if (hits.length === 0) return null;
+
+    const best = hits[0].item;
+    // Weaker matches are cited only when they score close to the best one
+    const sources: SolutionSource[] = hits
+      .filter(hit => hit.score >= hits[0].score * RELATED_SCORE_RATIO)
+      .slice(0, MAX_SOURCES)
+      .map(hit => ({ id: hit.item.id, title: hit.item.title }));
+    return {
+      title: best.title,
+      steps: best.steps.slice(0, MAX_STEPS),
+      difficulty: best.difficulty,
+      requiresTechnician: best.requiresTechnician,
+      sources,
+    };
+  }
+}
+
+const loadArticles = (): KnowledgeArticle[] => {
+  const files = import.meta.glob<string>('../knowledge/*.{md,json}', { query: '?raw', import: 'default', eager: true });
+  return Object.entries(files)
+    .map(([file, raw]) => {
+      const article = parseArticle(raw);
+      if (!article) console.warn(`Knowledge base article ignored: ${file}`);
+      return article;
+    })
+    .filter((article): article is KnowledgeArticle => !!article);
+};
+
+export const knowledgeBase = new KnowledgeBase(loadArticles());
@@ -0,0 +1,336 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { LiveConnectParameters, LiveSendClientContentParameters } from '@google/genai';
+import { AnalyticsEvent, NewTicketInput, StoredTicket, TicketPatch } from '../types';
+import { LiveManager } from './liveManager';
+import { FakeContentGenerator, FakeLiveTransport, loadFakeLiveScript } from './fakeLiveTransport';
+import { MemoryTicketAdapter, TicketRepository } from './ticketStore';
+import { TicketApiClient, TicketApiError } from './ticketApiClient';
+
+const CALLER = { correo: 'funcionario@munistgo.cl', municipalidad: 'Santiago' };
+
+// Only what LiveManager touches to play the agent's audio
+class FakeAudioContext {
+  currentTime = 0;
+  destination = {};
+  createGain() { return { gain: { value: 1 }, connect() {} }; }
+  createBuffer(_channels: number, length: number, sampleRate: number) {
+    const data = new Float32Array(length);
+    return { duration: length / sampleRate, getChannelData: () => data };
+  }
+  createBufferSource() { return { buffer: null, connect() {}, start() {} }; }
+  close() { return Promise.resolve(); }
+}
+
+// The ticket API is unreachable, so the ticket is kept locally with a provisional number
+const unreachable = async () => { throw new TicketApiError(0, 'Failed to fetch'); };
+const offlineApi = { create: unreachable, get: unreachable, list: unreachable, update: unreachable } as unknown as TicketApiClient;
+
+describe('LiveManager replaying fixtures/live', () => {
+  let repository: TicketRepository;
+  let events: AnalyticsEvent[];
+
+  const createManager = async (fixture: string, reconnectPolicy = { maxAttempts: 1, baseDelayMs: 10, maxDelayMs: 10 }) => {
+    const script = await loadFakeLiveScript(fixture);
+    const live = new FakeLiveTransport(script);
+    const manager = new LiveManager({
+      live,
+      content: new FakeContentGenerator(script.content ?? []),
+      tickets: repository,
+      api: offlineApi,
+      analytics: { record: event => events.push(event) },
+      reconnectPolicy,
+    });
+    return { live, manager };
+  };
+
+  beforeEach(() => {
+    vi.stubGlobal('window', { AudioContext: FakeAudioContext });
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    repository = new TicketRepository(new MemoryTicketAdapter());
+    events = [];
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('registers the ticket of ticket-flow for the verified caller', async () => {
+    const { live, manager } = await createManager('ticket-flow');
+    const onTicketCreated = vi.fn();
+    manager.onTicketCreated = onTicketCreated;
+
+    await manager.connect(CALLER, 'texto');
+    const session = live.sessions[0];
+    await vi.waitFor(() => {
+      expect(session.sent.filter(m => m.kind === 'toolResponse')).toHaveLength(4);
+      expect(manager['call'].transcript.at(-1)?.text).toContain('Su caso quedó registrado');
+    }, { timeout: 5000 });
+
+    expect(onTicketCreated).toHaveBeenCalledOnce();
+    const [created] = onTicketCreated.mock.calls[0];
+    expect(created).toMatchObject({
+      correo: CALLER.correo,
+      municipalidad: 'Santiago',
+      sistema: 'Contabilidad',
+      descripcion: 'El balance de comprobación sale en blanco',
+      offline: true,
+    });
+    expect(created.ticketId).toMatch(/^P-\d{4}-SANT-00001-/);
+    expect(created.solutions?.title).toBe('Balance en blanco');
+    expect(events.filter(e => e.type === 'herramienta').every(e => e.ok)).toBe(true);
+
+    manager.disconnect();
+    const finished = await manager.finishSession();
+    const stored = await repository.get(created.ticketId);
+    expect(stored).toEqual(finished);
+    expect(stored?.transcript?.map(entry => entry.speaker)).toEqual([
+      'agente', 'usuario', 'agente', 'usuario', 'agente', 'usuario', 'agente', 'usuario', 'agente', 'agente',
+    ]);
+    expect(stored?.emailDraft?.subject).toBe('Balance de comprobación sin datos - Municipalidad de Santiago');
+  });
+
+  it('stores the transcript when the call drops after the ticket was registered', async () => {
+    const { live, manager } = await createManager('ticket-flow');
+    const onClose = vi.fn();
+    manager.onClose = onClose;
+
+    await manager.connect(CALLER, 'texto');
+    await vi.waitFor(() => expect(manager['call'].transcript.at(-1)?.text).toContain('Su caso quedó registrado'), { timeout: 5000 });
+    // The script has a single session, so the reconnection fails and the call ends
+    live.sessions[0]['shutdown'](1006, 'Connection reset');
+    await vi.waitFor(() => expect(onClose).toHaveBeenCalledOnce(), { timeout: 5000 });
+
+    const ticketId = manager['call'].ticket!.ticketId!;
+    await vi.waitFor(async () => expect((await repository.get(ticketId))?.auditLog?.map(event => event.detail))
+      .toContain('Sin conexión tras 1 intentos.'));
+    expect((await repository.get(ticketId))?.transcript).toEqual(manager['call'].transcript);
+    expect(await manager.finishSession()).toEqual(await repository.get(ticketId));
+  });
+
+  it('stores the transcript when the page is closed during the call', async () => {
+    const { manager } = await createManager('ticket-flow');
+    await manager.connect(CALLER, 'texto');
+    await vi.waitFor(() => expect(manager['call'].transcript.at(-1)?.text).toContain('Su caso quedó registrado'), { timeout: 5000 });
+
+    manager.finishOnPageHide();
+    expect(manager['active']).toBe(false);
+    const stored = await manager.finishSession();
+    expect(stored?.transcript).toHaveLength(manager['call'].transcript.length);
+    expect(stored?.auditLog?.at(-1)?.detail).toBe('Sesión finalizada.');
+  });
+
+  it('sends typed messages as user turns and stays in chat when the microphone is refused', async () => {
+    const { live, manager } = await createManager('ticket-flow');
+    const onWarning = vi.fn();
+    const onModeChange = vi.fn();
+    Object.assign(manager, { onWarning, onModeChange });
+    vi.stubGlobal('navigator', {
+      mediaDevices: { getUserMedia: async () => { throw Object.assign(new Error('denied'), { name: 'NotAllowedError' }); } },
+    });
+
+    await manager.connect(CALLER, 'texto');
+    await vi.waitFor(() => expect(manager['call'].transcript.at(-1)?.text).toContain('Su caso quedó registrado'), { timeout: 5000 });
+    // The agent's audio is muted while chatting
+    expect(manager['outputNode']?.gain.value).toBe(0);
+
+    const session = live.sessions[0];
+    const sentBefore = session.sent.length;
+    manager.sendText('   ');
+    manager.sendText('  Gracias, eso era todo  ');
+    await vi.waitFor(() => expect(session.sent).toHaveLength(sentBefore + 1));
+    expect(session.sent.at(-1)).toMatchObject({
+      kind: 'clientContent',
+      params: { turns: [{ role: 'user', parts: [{ text: 'Gracias, eso era todo' }] }], turnComplete: true },
+    });
+    expect(manager['call'].transcript.at(-1)).toMatchObject({ speaker: 'usuario', text: 'Gracias, eso era todo' });
+
+    await manager.setMode('voz');
+    expect(manager.getMode()).toBe('texto');
+    expect(onModeChange).toHaveBeenLastCalledWith('texto');
+    expect(onWarning).toHaveBeenCalledWith('Permiso de micrófono denegado. Puede continuar la atención escribiendo en el chat.');
+    expect(manager['outputNode']?.gain.value).toBe(0);
+    manager.disconnect();
+  });
+
+  it('merges transcription fragments until the speaker changes or the turn ends', async () => {
+    const { live, manager } = await createManager('ticket-flow');
+    await manager.connect(CALLER, 'texto');
+    await vi.waitFor(() => expect(manager['call'].transcript.at(-1)?.text).toContain('Su caso quedó registrado'), { timeout: 5000 });
+    const before = manager['call'].transcript.length;
+    const deliver = (serverContent: object) => live.sessions[0]['callbacks'].onmessage({ serverContent } as never);
+
+    deliver({ turnComplete: true });
+    deliver({ inputTranscription: { text: ' Una' } });
+    deliver({ inputTranscription: { text: ' consulta más' } });
+    deliver({ outputTranscription: { text: 'Dígame.' } });
+    deliver({ turnComplete: true });
+    deliver({ outputTranscription: { text: ' ¿Algo más?' } });
+
+    expect(manager['call'].transcript.slice(before).map(({ speaker, text }) => ({ speaker, text }))).toEqual([
+      { speaker: 'usuario', text: 'Una consulta más' },
+      { speaker: 'agente', text: 'Dígame.' },
+      { speaker: 'agente', text: '¿Algo más?' },
+    ]);
+    manager.disconnect();
+  });
+
+  it('fits a long transcript in the keepalive request sent when the page is closed', async () => {
+    const updates: { patch: TicketPatch; keepalive?: boolean }[] = [];
+    const api = {
+      ...offlineApi,
+      create: async (input: NewTicketInput): Promise<StoredTicket> =>
+        ({ ...input, ticketId: 'T-2026-SANT-00042-K', timestamp: new Date().toISOString(), status: 'nuevo', history: [], updatedAt: new Date().toISOString() }),
+      update: async (ticketId: string, patch: TicketPatch, options: { keepalive?: boolean } = {}) => {
+        updates.push({ patch, keepalive: options.keepalive });
+        return { ...(await repository.get(ticketId))!, ...patch };
+      },
+    } as unknown as TicketApiClient;
+    const script = await loadFakeLiveScript('ticket-flow');
+    const manager = new LiveManager({
+      live: new FakeLiveTransport(script),
+      content: new FakeContentGenerator(script.content ?? []),
+      tickets: repository,
+      api,
+      analytics: { record: event => events.push(event) },
+    });
+    await manager.connect(CALLER, 'texto');
+    await vi.waitFor(() => expect(manager['call'].transcript.at(-1)?.text).toContain('Su caso quedó registrado'), { timeout: 5000 });
+    updates.length = 0;
+
+    // About 100 KB of conversation
+    const transcript = manager['call'].transcript;
+    for (let i = 0; i < 200; i++) {
+      transcript.push({ speaker: i % 2 ? 'agente' : 'usuario', text: `Intervención ${i}: ${'á'.repeat(250)}`, timestamp: new Date().toISOString() });
+    }
+    manager.finishOnPageHide();
+    await manager.finishSession();
+
+    expect(updates).toHaveLength(1);
+    const [{ patch, keepalive }] = updates;
+    expect(keepalive).toBe(true);
+    expect(new TextEncoder().encode(JSON.stringify(patch)).length).toBeLessThanOrEqual(64 * 1024);
+    expect(patch.transcript!.at(-1)).toEqual(transcript.at(-1));
+    expect(patch.transcript!.length).toBeLessThan(transcript.length);
+    expect(patch.auditLog!.at(-1)?.detail).toBe(
+      `Página cerrada: se guardaron las últimas ${patch.transcript!.length} de ${transcript.length} intervenciones de la transcripción.`);
+  });
+
+  it('keeps the call going when a tool response cannot be sent', async () => {
+    const { live, manager } = await createManager('ticket-flow');
+    await manager.connect(CALLER, 'texto');
+    live.sessions[0].sendToolResponse = () => { throw new Error('WebSocket is already in CLOSED state.'); };
+
+    await vi.waitFor(() => expect(manager['call'].auditLog.map(event => event.detail))
+      .toContain('No se pudo entregar la respuesta de lookupCatalog.'), { timeout: 5000 });
+    expect(events).toContainEqual(expect.objectContaining({ type: 'error', detail: 'No se pudo entregar la respuesta de lookupCatalog.' }));
+    manager.disconnect();
+  });
+
+  it('drops what cannot be sent while the session is unavailable', async () => {
+    const { live, manager } = await createManager('ticket-flow');
+    await manager.connect(CALLER, 'texto');
+    const unhandled = vi.fn();
+    process.on('unhandledRejection', unhandled);
+    try {
+      live.sessions[0].sendClientContent = () => { throw new Error('WebSocket is already in CLOSED state.'); };
+      manager.sendText('¿Sigue ahí?');
+      manager['sessionPromise'] = Promise.reject(new Error('Servidor Live no disponible.'));
+      manager.sendText('Hola');
+      manager['setScreenShare']('pausada', 'El usuario pausó la pantalla compartida.');
+      await new Promise(resolve => setTimeout(resolve, 20));
+    } finally {
+      process.off('unhandledRejection', unhandled);
+    }
+
+    expect(unhandled).not.toHaveBeenCalled();
+    expect(console.error).toHaveBeenCalledWith('Error sending text message', expect.objectContaining({ message: 'WebSocket is already in CLOSED state.' }));
+    expect(console.error).toHaveBeenCalledWith('Error sending text message', expect.objectContaining({ message: 'Servidor Live no disponible.' }));
+    expect(console.error).toHaveBeenCalledWith('Error sending screen share state', expect.any(Error));
+    manager.disconnect();
+  });
+
+  it('stops resuming after two failed attempts and replays the call to a new session', async () => {
+    const script = await loadFakeLiveScript('ticket-flow');
+    const refused: LiveConnectParameters[] = [];
+    // Refuses the first two reconnections, then opens a session that stays silent
+    const live = new class extends FakeLiveTransport {
+      async connect(params: LiveConnectParameters) {
+        if (this.sessions.length > 0 && refused.length < 2) {
+          refused.push(params);
+          throw new Error('Servidor Live de prueba no disponible.');
+        }
+        return super.connect(params);
+      }
+    }({ ...script, sessions: [script.sessions[0], []] });
+    const manager = new LiveManager({
+      live,
+      content: new FakeContentGenerator(script.content ?? []),
+      tickets: repository,
+      api: offlineApi,
+      analytics: { record: event => events.push(event) },
+      reconnectPolicy: { maxAttempts: 3, baseDelayMs: 10, maxDelayMs: 15 },
+    });
+    const onReconnecting = vi.fn();
+    const onReconnected = vi.fn();
+    Object.assign(manager, { onReconnecting, onReconnected });
+
+    await manager.connect(CALLER, 'texto');
+    await vi.waitFor(() => expect(manager['call'].transcript.at(-1)?.text).toContain('Su caso quedó registrado'), { timeout: 5000 });
+    live.sessions[0]['shutdown'](1006, 'Connection reset');
+    await vi.waitFor(() => expect(onReconnected).toHaveBeenCalledOnce(), { timeout: 5000 });
+
+    expect(onReconnecting.mock.calls).toEqual([[1, 3], [2, 3], [3, 3]]);
+    expect(refused.map(params => params.config?.sessionResumption?.handle)).toEqual(['fake-handle-1', 'fake-handle-1']);
+    expect(live.sessions[1].params.config?.sessionResumption?.handle).toBeUndefined();
+    expect(manager['call'].auditLog.at(-1)?.detail).toBe('Nueva sesión con el contexto de la llamada.');
+
+    await vi.waitFor(() => expect(live.sessions[1].sent).toHaveLength(1));
+    const [{ kind, params }] = live.sessions[1].sent;
+    expect(kind).toBe('clientContent');
+    const context = (params as LiveSendClientContentParameters).turns as { parts: { text: string }[] }[];
+    expect(context[0].parts[0].text).toMatch(/^CONTEXTO DE RECONEXIÓN/);
+    expect(context[0].parts[0].text).toContain(`Ya registraste el ticket ${manager['call'].ticket!.ticketId} (Santiago, Contabilidad).`);
+    expect(context[0].parts[0].text).toContain('Conversación hasta el corte:');
+    manager.disconnect();
+  });
+
+  it('resumes dropped-connection with the last handle, renews on goAway and registers nothing', async () => {
+    const { live, manager } = await createManager('dropped-connection');
+    const onReconnected = vi.fn();
+    const onError = vi.fn();
+    const onClose = vi.fn();
+    Object.assign(manager, { onReconnected, onError, onClose });
+
+    await manager.connect(CALLER, 'texto');
+    // The third socket drops too and the script has no fourth one, so the call ends
+    await vi.waitFor(() => expect(onClose).toHaveBeenCalledOnce(), { timeout: 5000 });
+
+    expect(live.sessions).toHaveLength(3);
+    expect(live.sessions[1].params.config?.sessionResumption?.handle).toBe('fake-handle-1');
+    // The second session announced its close with goAway, so the third was opened ahead of it
+    expect(live.sessions[2].params.config?.sessionResumption?.handle).toBe('fake-handle-2');
+    expect(manager['call'].auditLog.filter(event => event.type === 'error' || event.type === 'reconexion').map(event => event.detail)).toEqual([
+      'Se perdió la conexión.',
+      'Conversación reanudada.',
+      'Conexión renovada antes del cierre anunciado por el servidor.',
+      'Se perdió la conexión.',
+      // The fourth socket cannot be opened
+      'Se perdió la conexión.',
+      'Sin conexión tras 1 intentos.',
+    ]);
+    // A resumed conversation is not replayed to the model
+    expect(live.sessions.flatMap(session => session.sent).filter(m => m.kind === 'clientContent')).toHaveLength(0);
+    expect(onReconnected).toHaveBeenCalledOnce();
+    expect(onError).toHaveBeenCalledWith('Se perdió la conexión con el servidor de IA. Verifique su red.');
+    expect(manager['call'].transcript.map(entry => entry.text)).toEqual([
+      'Hola, le saluda Soporte Sistemas. ¿De qué municipalidad nos llama?',
+      'De Valparaíso.',
+      'Disculpe el corte. ¿Qué sistema presenta el problema?',
+    ]);
+
+    expect(await manager.finishSession()).toBeUndefined();
+    expect(await repository.list()).toEqual([]);
+  });
+});
@@ -1,346 +1,749 @@
-import { GoogleGenAI, LiveServerMessage, Modality, FunctionDeclaration, Type } from '@google/genai';
-import { decodeAudioData, createPcmBlob, decodeBase64 } from './audioUtils';
-import { TicketData, EmailDraft, SolutionData } from '../types';
-
-// Tool to register the final ticket
-const registerTicketTool: FunctionDeclaration = {
-  name: 'registerSupportTicket',
-  parameters: {
-    type: Type.OBJECT,
-    description: 'Registers a support ticket with the given details.',
-    properties: {
-      correo: { type: Type.STRING, description: 'Email address of the official.' },
-      municipalidad: { type: Type.STRING, description: 'Name of the municipality.' },
-      sistema: { type: Type.STRING, description: 'The system requiring support (e.g., contabilidad, bodega).' },
-      descripcion: { type: Type.STRING, description: 'Detailed description of the error or requirement.' },
-    },
-    required: ['correo', 'municipalidad', 'sistema', 'descripcion'],
-  },
+import { LiveServerMessage, Modality } from '@google/genai';
+import { decodeAudioData, decodeBase64 } from './audioUtils';
+import { AudioCaptureOptions, DEFAULT_CAPTURE_OPTIONS, MicrophoneCapture } from './audioCapture';
+import { DEFAULT_SCREEN_CAPTURE_OPTIONS, ScreenCapture, ScreenCaptureOptions } from './screenCapture';
+import { AuditEvent, AuditEventType, EmailDraft, SolutionData, StoredTicket, TicketAttachment, TranscriptEntry, TranscriptSpeaker, InteractionMode, ScreenShareState, VerifiedEmail } from '../types';
+import { TicketRepository } from './ticketStore';
+import { TicketIdGenerator } from './ticketIdGenerator';
+import { TicketApiClient } from './ticketApiClient';
+import { TicketGateway } from './ticketGateway';
+import { KnowledgeBase, knowledgeBase } from './knowledgeBase';
+import { KEEPALIVE_BODY_LIMIT, formatTranscript, jsonBytes, latestEntriesWithin } from './transcript';
+import { AttachmentError, MAX_LOG_CHARS_FOR_MODEL, attachmentKind, readAttachment } from './attachments';
+import { ContentGenerator, GeminiProxyClient, LIVE_MODEL, LiveSession, LiveTransport } from './liveTransport';
+import { CallState, LiveTool, ToolContext, ToolRegistry } from './toolRegistry';
+import { DEFAULT_TOOLS } from './tools';
+import { CallRecorder, RecordedCall, isRecordingSupported } from './callRecorder';
+import { auditEvent } from './auditLog';
+import { AnalyticsEventInput, AnalyticsSink, analytics } from './analytics';
+import { ConversationFlow, ConversationFlowError, buildSystemInstruction, loadConversationFlow, missingFlowTools } from './conversationFlow';
+
+export interface ReconnectPolicy {
+  maxAttempts: number;
+  // Delay before the first attempt; doubled on each further attempt
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export const DEFAULT_RECONNECT_POLICY: ReconnectPolicy = {
+  maxAttempts: 5,
+  baseDelayMs: 1000,
+  maxDelayMs: 16000,
 };
 
-// Tool to analyze problem and provide tips (Intermediate step)
-const analyzeProblemTool: FunctionDeclaration = {
-  name: 'analyzeProblem',
-  parameters: {
-    type: Type.OBJECT,
-    description: 'CRITICAL: execute this tool ONLY after the user has explicitly described the error details. IT IS FORBIDDEN to call this if the user has only provided the system name. You MUST wait for the user to describe the actual problem.',
-    properties: {
-      sistema: { type: Type.STRING, description: 'The system related to the error.' },
-      problemDescription: { type: Type.STRING, description: 'The specific error description provided by the user.' },
-    },
-    required: ['sistema', 'problemDescription'],
-  },
-};
-
-const getSystemInstruction = (userEmail: string) => `
-ROL DEL AGENTE
-Eres Soporte Sistemas, el asistente virtual de soporte para sistemas de gestión municipal en Chile.
-Tu objetivo es recibir requerimientos y errores de los funcionarios municipales, guiarlos cordialmente y generar un reporte formal.
-
-CONTEXTO INICIAL
-El usuario ya ha ingresado su correo electrónico en el sistema. El correo es: "${userEmail}".
-IMPORTANTE: NO preguntes por el correo electrónico. Ya lo tienes.
-
-FLUJO OBLIGATORIO DE CONVERSACIÓN (NO SALTES PASOS)
-1. Saluda de forma cordial y profesional como "Soporte Sistemas".
-2. Solicita el nombre de la municipalidad.
-3. Solicita el nombre del sistema (ej: contabilidad, bodega, adquisiciones).
-   - ALERTA: Cuando el usuario diga el sistema, NO OFREZCAS SOLUCIONES TODAVÍA.
-   - Solo di: "Entendido, ¿cuál es el error o requerimiento específico que presenta el sistema?"
-4. Escucha la descripción del error.
-   - AHORA, y solo ahora que tienes la descripción, ejecuta 'analyzeProblem'.
-
-REGLAS DE ORO:
-- PROHIBIDO ejecutar 'analyzeProblem' si solo tienes el nombre del sistema. Debes tener la descripción del error.
-- PROHIBIDO inventar soluciones. Usa las herramientas.
-
-ACCIÓN TRAS RECIBIR EL ERROR (Una vez ejecutado analyzeProblem):
-1. Dile al usuario: "He generado algunas posibles soluciones que puede ver en su pantalla. Por favor intente aplicarlas."
-2. Luego, informa formalmente: "De todas formas, registraremos este caso. Revisaremos el sistema y le informaremos la solución definitiva a la brevedad."
-3. Finalmente, ejecuta la herramienta 'registerSupportTicket'.
-4. IMPORTANTE: Cuando la herramienta confirme el registro, LEE EL NÚMERO DE TICKET generado (ej: T-12345) al usuario para que lo anote y despídete cordialmente.
-
-Estilo de comunicación: Cortés, profesional, claro, cercano. Adaptado a funcionarios municipales. Evita tecnicismos innecesarios.
-`;
+// Everything LiveManager talks to. Each one can be replaced, e.g. by
+// FakeLiveTransport to run a scripted call without network access.
+export interface LiveManagerOptions {
+  live?: LiveTransport;
+  content?: ContentGenerator;
+  tickets?: TicketRepository;
+  ticketIds?: TicketIdGenerator;
+  api?: TicketApiClient;
+  knowledge?: KnowledgeBase;
+  // Defaults to DEFAULT_TOOLS; pass [...DEFAULT_TOOLS, myTool] to add one
+  tools?: LiveTool[];
+  // Defaults to config/conversation-flow.json; an invalid file throws ConversationFlowError
+  flow?: ConversationFlow;
+  analytics?: AnalyticsSink;
+  captureOptions?: AudioCaptureOptions;
+  screenCaptureOptions?: ScreenCaptureOptions;
+  reconnectPolicy?: ReconnectPolicy;
+}
 
 export class LiveManager {
-  private ai: GoogleGenAI;
+  private live: LiveTransport;
+  private content: ContentGenerator;
+  private tickets: TicketGateway;
+  private knowledge: KnowledgeBase;
+  private captureOptions: AudioCaptureOptions;
+  private screenCaptureOptions: ScreenCaptureOptions;
+  private reconnectPolicy: ReconnectPolicy;
+  private tools = new ToolRegistry();
+  private flow: ConversationFlow;
+  private analytics: AnalyticsSink;
+  private sessionId = '';
+  private sessionStartedAt = 0;
+  private toolContext: ToolContext;
   private audioContext: AudioContext | null = null;
+  private outputNode: GainNode | null = null;
   private stream: MediaStream | null = null;
-  private processor: ScriptProcessorNode | null = null;
-  private inputSource: MediaStreamAudioSourceNode | null = null;
+  private capture: MicrophoneCapture | null = null;
+  private screen: ScreenCapture | null = null;
+  private screenShare: ScreenShareState = 'inactiva';
+  private recorder: CallRecorder | null = null;
+  private detachMicrophoneRecording: (() => void) | null = null;
+  // Set when the call ends, resolved once the recorder has flushed its last chunk
+  private recording: Promise<RecordedCall | null> | null = null;
+  private finished: Promise<StoredTicket | undefined> | null = null;
   private nextStartTime: number = 0;
   private cleanupFunctions: (() => void)[] = [];
+  private call: CallState = { userEmail: '', flowVersion: '', transcript: [], attachments: [], auditLog: [] };
+  private transcriptTurnOpen = false;
+  private sessionPromise: Promise<LiveSession> | null = null;
+  private mode: InteractionMode = 'voz';
+  private active = false;
+  // Incremented for every socket so callbacks from a dropped one are ignored
+  private sessionGeneration = 0;
+  // Latest handle sent by the server; a new socket opened with it resumes the conversation
+  private resumptionHandle: string | undefined;
+  private reconnectAttempt = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
   
   public onVolumeChange: (volume: number) => void = () => {};
-  public onTicketCreated: (ticket: TicketData) => void = () => {};
+  public onTicketCreated: (ticket: StoredTicket) => void = () => {};
   public onEmailReady: (draft: EmailDraft) => void = () => {};
   public onSolutionsReady: (solutions: SolutionData) => void = () => {};
+  public onTicketFound: (ticket: StoredTicket) => void = () => {};
+  public onTranscriptUpdate: (transcript: TranscriptEntry[]) => void = () => {};
+  public onAttachmentsChange: (attachments: TicketAttachment[]) => void = () => {};
+  public onModeChange: (mode: InteractionMode) => void = () => {};
+  public onScreenShareChange: (state: ScreenShareState) => void = () => {};
+  public onRecordingChange: (recording: boolean) => void = () => {};
+  public onWarning: (message: string) => void = () => {};
   public onError: (message: string) => void = () => {}; // New error callback
   public onClose: () => void = () => {};
-
-  constructor() {
-    this.ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+  public onReconnecting: (attempt: number, maxAttempts: number) => void = () => {};
+  public onReconnected: () => void = () => {};
+
+  constructor(options: LiveManagerOptions = {}) {
+    const gemini = options.live && options.content ? null : new GeminiProxyClient();
+    this.live = options.live ?? gemini!;
+    this.content = options.content ?? gemini!;
+    this.tickets = new TicketGateway(options.tickets, options.api, options.ticketIds);
+    this.knowledge = options.knowledge ?? knowledgeBase;
+    this.captureOptions = options.captureOptions ?? DEFAULT_CAPTURE_OPTIONS;
+    this.screenCaptureOptions = options.screenCaptureOptions ?? DEFAULT_SCREEN_CAPTURE_OPTIONS;
+    this.reconnectPolicy = options.reconnectPolicy ?? DEFAULT_RECONNECT_POLICY;
+
+    (options.tools ?? DEFAULT_TOOLS).forEach(tool => this.tools.register(tool));
+    this.flow = options.flow ?? loadConversationFlow();
+    this.analytics = options.analytics ?? analytics;
+    const missingTools = missingFlowTools(this.flow, name => this.tools.has(name));
+    if (missingTools.length) {
+      throw new ConversationFlowError(missingTools.map(tool => `La herramienta "${tool}" no está disponible.`));
+    }
+    this.call.flowVersion = this.flow.version;
+    this.toolContext = {
+      call: this.call,
+      content: this.content,
+      knowledge: this.knowledge,
+      tickets: this.tickets,
+      ui: {
+        showSolutions: (solutions) => this.showSolutions(solutions),
+        showTicket: (ticket) => this.onTicketFound(ticket),
+        ticketCreated: (ticket) => {
+          this.call.ticket = ticket;
+          this.track({ type: 'ticket', durationMs: Date.now() - this.sessionStartedAt, detail: ticket.offline ? 'offline' : undefined });
+          this.onTicketCreated(ticket);
+        },
+        emailReady: (draft) => this.onEmailReady(draft),
+        warn: (message) => this.onWarning(message),
+      },
+      track: (event) => this.track(event),
+    };
   }
 
-  async connect(userEmail: string) {
+  // The call is recorded only when recordingConsentAt, the time the official
+  // accepted the recording notice, is given
+  async connect(caller: VerifiedEmail, mode: InteractionMode = 'voz', recordingConsentAt?: string) {
     try {
       this.audioContext = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
       const outputNode = this.audioContext.createGain();
       outputNode.connect(this.audioContext.destination);
-
-      // Setup Microphone with specific error handling
-      try {
-        this.stream = await navigator.mediaDevices.getUserMedia({ audio: { sampleRate: 16000, channelCount: 1 } });
-      } catch (err: any) {
-        let msg = "No se pudo acceder al micrófono.";
-        if (err.name === 'NotAllowedError' || err.name === 'PermissionDeniedError') {
-          msg = "Permiso de micrófono denegado. Por favor actívelo en su navegador.";
-        } else if (err.name === 'NotFoundError') {
-          msg = "No se encontró ningún dispositivo de micrófono.";
-        } else if (err.name === 'NotReadableError') {
-          msg = "El micrófono está siendo usado por otra aplicación.";
-        }
-        this.onError(msg);
-        throw err;
+      this.outputNode = outputNode;
+      this.call.userEmail = caller.correo;
+      this.call.municipalidad = caller.municipalidad;
+      this.sessionId = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+      this.sessionStartedAt = Date.now();
+
+      await this.openSession();
+      // From here on a dropped socket is reconnected instead of ending the call
+      this.active = true;
+      this.audit('conexion', `Sesión iniciada en modo ${mode}, flujo v${this.flow.version}.` +
+        (caller.codeVerifiedAt ? ' Correo verificado con código.' : ''));
+      this.track({ type: 'sesion_inicio', detail: mode });
+      if (recordingConsentAt) {
+        this.startRecording(recordingConsentAt);
       }
-      
-      const inputContext = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 16000 });
-      this.inputSource = inputContext.createMediaStreamSource(this.stream);
-      this.processor = inputContext.createScriptProcessor(4096, 1, 1);
-      
-      // Visualization Helper
-      const analyzer = inputContext.createAnalyser();
-      analyzer.fftSize = 256;
-      this.inputSource.connect(analyzer);
-      const dataArray = new Uint8Array(analyzer.frequencyBinCount);
-
-      const systemInstruction = getSystemInstruction(userEmail);
-
-      // Connect to Gemini
-      const sessionPromise = this.ai.live.connect({
-        model: 'gemini-2.5-flash-native-audio-preview-09-2025',
-        config: {
-          responseModalities: [Modality.AUDIO],
-          systemInstruction: systemInstruction,
-          tools: [{ functionDeclarations: [registerTicketTool, analyzeProblemTool] }],
-          speechConfig: {
-              voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Puck' } }
-          }
+      await this.setMode(mode);
+
+    } catch (error: any) {
+       console.error("Connection setup failed:", error);
+       this.audit('error', error.message || 'No se pudo iniciar la sesión.');
+       this.endCall(error.message || "No se pudo iniciar la sesión.");
+    }
+  }
+
+  // Opens a Live socket for the current call. With a resumption handle the
+  // server restores the conversation where the previous socket left it.
+  private openSession(): Promise<LiveSession> {
+    const generation = ++this.sessionGeneration;
+    const outputNode = this.outputNode!;
+    const systemInstruction = buildSystemInstruction(
+      this.flow, { correo: this.call.userEmail, municipalidad: this.call.municipalidad }, this.tools.prompts(),
+    );
+
+    // Connect to Gemini
+    const sessionPromise = this.live.connect({
+      model: LIVE_MODEL,
+      config: {
+        responseModalities: [Modality.AUDIO],
+        systemInstruction: systemInstruction,
+        tools: [{ functionDeclarations: this.tools.declarations() }],
+        inputAudioTranscription: {},
+        outputAudioTranscription: {},
+        speechConfig: {
+            voiceConfig: { prebuiltVoiceConfig: { voiceName: this.flow.voice } }
         },
-        callbacks: {
-          onopen: () => {
-            console.log('Gemini Live Connected');
-            
-            this.inputSource?.connect(this.processor!);
-            this.processor?.connect(inputContext.destination);
-
-            this.processor!.onaudioprocess = (e) => {
-              // Volume visualization
-              analyzer.getByteFrequencyData(dataArray);
-              const avg = dataArray.reduce((a, b) => a + b) / dataArray.length;
-              this.onVolumeChange(avg / 255);
-
-              // Send Audio
-              const inputData = e.inputBuffer.getChannelData(0);
-              const pcmBlob = createPcmBlob(inputData);
-              sessionPromise.then(session => session.sendRealtimeInput({ media: pcmBlob }));
-            };
-          },
-          onmessage: async (msg: LiveServerMessage) => {
-            // Handle Tool Calls
-            if (msg.toolCall) {
-              for (const fc of msg.toolCall.functionCalls) {
-                
-                // 1. Tool: Analyze Problem (Intermediate - Show Tips)
-                if (fc.name === 'analyzeProblem') {
-                  const args = fc.args as any;
-                  console.log("Analyzing problem:", args);
-
-                  // Send immediate response so audio conversation continues smoothly
-                  sessionPromise.then(session => session.sendToolResponse({
-                    functionResponses: {
-                      id: fc.id,
-                      name: fc.name,
-                      response: { result: "Solutions generated and displayed on screen." }
-                    }
-                  }));
-
-                  // Async: Generate tips using Flash model
-                  this.generateTroubleshootingTips(args.sistema, args.problemDescription);
-                }
-
-                // 2. Tool: Register Ticket (Final Step)
-                else if (fc.name === 'registerSupportTicket') {
-                  const args = fc.args as any;
-                  const timestamp = new Date().toISOString();
-                  const ticketId = 'T-' + Math.floor(10000 + Math.random() * 90000);
-
-                  const uiTicket: TicketData = {
-                    correo: args.correo || '',
-                    municipalidad: args.municipalidad || '',
-                    sistema: args.sistema || '',
-                    descripcion: args.descripcion || '',
-                    timestamp: timestamp,
-                    ticketId: ticketId
-                  };
-                  
-                  this.onTicketCreated(uiTicket);
-                  
-                  // Async: Generate Email
-                  this.generateEmailDraft(uiTicket, fc.id, fc.name, sessionPromise);
-                }
-              }
-            }
+        sessionResumption: { handle: this.resumptionHandle }
+      },
+      callbacks: {
+        onopen: () => {
+          console.log('Gemini Live Connected');
+        },
+        onmessage: async (msg: LiveServerMessage) => {
+          if (generation !== this.sessionGeneration) return;
 
-            // Handle Audio Output
-            const audioData = msg.serverContent?.modelTurn?.parts?.[0]?.inlineData?.data;
-            if (audioData && this.audioContext) {
-              this.nextStartTime = Math.max(this.nextStartTime, this.audioContext.currentTime);
-              const buffer = await decodeAudioData(decodeBase64(audioData), this.audioContext);
-              const source = this.audioContext.createBufferSource();
-              source.buffer = buffer;
-              source.connect(outputNode);
-              source.start(this.nextStartTime);
-              this.nextStartTime += buffer.duration;
-            }
+          // Keep the newest handle to resume after a dropped connection
+          const resumption = msg.sessionResumptionUpdate;
+          if (resumption?.resumable && resumption.newHandle) {
+            this.resumptionHandle = resumption.newHandle;
+          }
+          if (msg.goAway) {
+            this.renewSession();
+          }
 
-            // Handle Interruption
-            if (msg.serverContent?.interrupted) {
-              this.nextStartTime = this.audioContext ? this.audioContext.currentTime : 0;
+          // Handle Tool Calls. Each response is sent as soon as its handler finishes.
+          if (msg.toolCall) {
+            for (const fc of msg.toolCall.functionCalls ?? []) {
+              this.audit('herramienta', fc.name);
+              const startedAt = Date.now();
+              this.tools.dispatch(fc, this.toolContext).then(response => {
+                this.track({ type: 'herramienta', tool: fc.name, durationMs: Date.now() - startedAt, ok: !('error' in response.response!) });
+                return sessionPromise.then(session => session.sendToolResponse({
+                  functionResponses: response
+                }));
+              }).catch(e => {
+                // The socket may have dropped while the tool ran; the call goes on after reconnecting
+                console.error(`Error answering tool ${fc.name}`, e);
+                this.audit('error', `No se pudo entregar la respuesta de ${fc.name}.`);
+              });
             }
-          },
-          onclose: () => {
-            this.disconnect();
-            this.onClose();
-          },
-          onerror: (err) => {
-            console.error("Gemini Error:", err);
-            this.onError("Error de conexión con el servidor de IA. Verifique su red.");
-            this.disconnect();
-            this.onClose();
           }
+
+          // Handle Audio Output
+          const audioData = msg.serverContent?.modelTurn?.parts?.[0]?.inlineData?.data;
+          if (audioData && this.audioContext) {
+            this.nextStartTime = Math.max(this.nextStartTime, this.audioContext.currentTime);
+            const buffer = await decodeAudioData(decodeBase64(audioData), this.audioContext);
+            const source = this.audioContext.createBufferSource();
+            source.buffer = buffer;
+            source.connect(outputNode);
+            source.start(this.nextStartTime);
+            this.nextStartTime += buffer.duration;
+          }
+
+          // Handle Transcriptions
+          const inputText = msg.serverContent?.inputTranscription?.text;
+          if (inputText) {
+            this.appendTranscript('usuario', inputText);
+          }
+          const outputText = msg.serverContent?.outputTranscription?.text;
+          if (outputText) {
+            this.appendTranscript('agente', outputText);
+          }
+          if (msg.serverContent?.turnComplete) {
+            this.transcriptTurnOpen = false;
+          }
+
+          // Handle Interruption
+          if (msg.serverContent?.interrupted) {
+            this.nextStartTime = this.audioContext ? this.audioContext.currentTime : 0;
+            this.transcriptTurnOpen = false;
+          }
+        },
+        onclose: () => {
+          this.handleConnectionLost(generation);
+        },
+        onerror: (err) => {
+          console.error("Gemini Error:", err);
+          this.handleConnectionLost(generation);
         }
-      });
+      }
+    });
 
-      this.cleanupFunctions.push(() => {
-          sessionPromise.then(s => s.close());
-      });
+    this.sessionPromise = sessionPromise;
+    this.cleanupFunctions.push(() => {
+        sessionPromise.then(s => s.close()).catch(() => {});
+    });
+    return sessionPromise;
+  }
 
-    } catch (error: any) {
-       console.error("Connection setup failed:", error);
-       if (!this.stream) {
-          // If stream is null, error likely happened in getUserMedia and onError was already called with specific msg
-       } else {
-          this.onError(error.message || "No se pudo iniciar la sesión.");
-       }
-       this.disconnect();
-       this.onClose(); // Ensure UI resets
+  // onerror and onclose both fire for a dropped socket; only the first one counts
+  private handleConnectionLost(generation: number) {
+    if (generation !== this.sessionGeneration) return;
+    if (!this.active) {
+      // The call never got established
+      this.audit('error', 'No se pudo establecer la conexión.');
+      this.endCall("Error de conexión con el servidor de IA. Verifique su red.");
+      return;
     }
+    this.sessionGeneration++;
+    this.sessionPromise = null;
+    this.nextStartTime = 0;
+    this.audit('error', 'Se perdió la conexión.');
+    this.scheduleReconnect();
   }
 
-  async generateTroubleshootingTips(system: string, description: string) {
+  // goAway announces that the server will close this socket shortly. The next
+  // one is opened right away with the current handle so the audio is not cut;
+  // without a handle the call waits for the close and reconnects as usual.
+  private async renewSession() {
+    if (!this.active || !this.resumptionHandle) return;
+    const previous = this.sessionPromise;
+    const sessionPromise = this.openSession();
+    const generation = this.sessionGeneration;
     try {
-      const prompt = `
-        Genera 3 consejos de solución de problemas cortos y simples para un usuario municipal con el siguiente problema:
-        Sistema: ${system}
-        Error: ${description}
-        
-        Devuelve SOLO las 3 soluciones en formato de lista (bullet points), sin introducción ni conclusión.
-        Ejemplo:
-        - Reiniciar el servicio.
-        - Verificar conexión.
-        - Borrar caché.
-      `;
-      
-      const response = await this.ai.models.generateContent({
-        model: 'gemini-2.5-flash',
-        contents: prompt
-      });
+      await sessionPromise;
+    } catch (e) {
+      console.error("Session renewal failed", e);
+      this.handleConnectionLost(generation);
+      return;
+    }
+    // The old socket's close is ignored, since it belongs to an earlier generation
+    previous?.then(session => session.close()).catch(() => {});
+    if (generation === this.sessionGeneration) {
+      this.audit('reconexion', 'Conexión renovada antes del cierre anunciado por el servidor.');
+    }
+  }
 
-      const text = response.text || '';
-      const steps = text.split('\n')
-        .map(line => line.replace(/^[-*•]\s*/, '').trim()) // remove bullets
-        .filter(line => line.length > 0)
-        .slice(0, 3); // max 3
-
-      if (steps.length > 0) {
-        this.onSolutionsReady({
-          title: `Posibles Soluciones: ${system}`,
-          steps: steps
-        });
-      }
+  // The call cannot go on; a ticket registered before the error still gets the transcript
+  private endCall(message: string) {
+    this.onError(message);
+    this.disconnect();
+    this.onClose(); // Ensure UI resets
+    this.finishSession().catch(e => console.error("Error finishing the session", e));
+  }
+
+  private scheduleReconnect() {
+    const { maxAttempts, baseDelayMs, maxDelayMs } = this.reconnectPolicy;
+    if (this.reconnectAttempt >= maxAttempts) {
+      this.audit('error', `Sin conexión tras ${maxAttempts} intentos.`);
+      this.endCall("Se perdió la conexión con el servidor de IA. Verifique su red.");
+      return;
+    }
+
+    this.reconnectAttempt++;
+    // A handle that keeps failing may have expired; later attempts start a new
+    // session and replay the captured context instead
+    if (this.reconnectAttempt > 2) {
+      this.resumptionHandle = undefined;
+    }
+    const delay = Math.min(maxDelayMs, baseDelayMs * 2 ** (this.reconnectAttempt - 1));
+    this.onReconnecting(this.reconnectAttempt, maxAttempts);
+    this.reconnectTimer = setTimeout(() => this.reconnect(), delay);
+  }
+
+  private async reconnect() {
+    this.reconnectTimer = null;
+    const resuming = !!this.resumptionHandle;
+    const sessionPromise = this.openSession();
+    const generation = this.sessionGeneration;
+
+    try {
+      await sessionPromise;
     } catch (e) {
-      console.error("Error generating tips", e);
+      console.error("Reconnection failed", e);
+      this.handleConnectionLost(generation);
+      return;
+    }
+    if (generation !== this.sessionGeneration) return;
+
+    this.reconnectAttempt = 0;
+    this.audit('reconexion', resuming ? 'Conversación reanudada.' : 'Nueva sesión con el contexto de la llamada.');
+    if (!resuming) {
+      this.replayContext(sessionPromise);
+    }
+    this.onReconnected();
+  }
+
+  // A new session starts empty. The context captured so far is sent as a
+  // user turn so the agent picks up at the same step of the flow.
+  private replayContext(sessionPromise: Promise<LiveSession>) {
+    const lines = [
+      'CONTEXTO DE RECONEXIÓN: la llamada se cortó y ya se restableció. No saludes de nuevo ni repitas preguntas que el usuario ya respondió; discúlpate brevemente por el corte y continúa desde el mismo paso del flujo.',
+    ];
+    const { solutions, ticket, transcript } = this.call;
+    if (solutions) {
+      lines.push(`Ya ejecutaste 'analyzeProblem' y el usuario ve en pantalla: "${solutions.title}".`);
+    }
+    if (ticket) {
+      lines.push(`Ya registraste el ticket ${ticket.ticketId} (${ticket.municipalidad}, ${ticket.sistema}). No lo registres de nuevo.`);
+    }
+    if (this.screenShare === 'activa') {
+      lines.push('El usuario sigue compartiendo su pantalla.');
+    }
+    if (this.call.attachments.length > 0) {
+      lines.push(`El usuario ya adjuntó: ${this.call.attachments.map(a => a.name).join(', ')}. Si necesitas volver a verlos, pídele que los adjunte de nuevo.`);
+    }
+    if (transcript.length > 0) {
+      lines.push('Conversación hasta el corte:', formatTranscript(transcript));
+    }
+
+    this.send('reconnection context', session => session.sendClientContent({
+      turns: [{ role: 'user', parts: [{ text: lines.join('\n') }] }],
+      turnComplete: true
+    }), sessionPromise);
+  }
+
+  // Everything but tool responses reaches the session through here. It may
+  // have dropped or be reconnecting; what cannot be sent then is dropped, as
+  // on a bad phone line, instead of ending up as an unhandled rejection.
+  private send(what: string, action: (session: LiveSession) => void, sessionPromise = this.sessionPromise): Promise<void> {
+    if (!sessionPromise) return Promise.resolve();
+    return sessionPromise.then(action).catch(e => console.error(`Error sending ${what}`, e));
+  }
+
+  // Switches between microphone and typed chat without closing the Live session
+  async setMode(mode: InteractionMode) {
+    if (mode === 'voz' && !this.stream) {
+      if (!(await this.startMicrophone())) {
+        mode = 'texto';
+      }
+    } else if (mode === 'texto') {
+      this.stopMicrophone();
+    }
+
+    // In chat mode the agent's audio is muted and its replies are read from the transcript
+    if (this.outputNode) {
+      this.outputNode.gain.value = mode === 'voz' ? 1 : 0;
     }
+    this.mode = mode;
+    this.onModeChange(mode);
   }
 
-  async generateEmailDraft(uiTicket: TicketData, toolId: string, toolName: string, sessionPromise: Promise<any>) {
+  getMode(): InteractionMode {
+    return this.mode;
+  }
+
+  // Sends a typed message as a user turn
+  sendText(text: string) {
+    const message = text.trim();
+    if (!message || !this.sessionPromise) return;
+
+    this.call.transcript.push({ speaker: 'usuario', text: message, timestamp: new Date().toISOString() });
+    this.transcriptTurnOpen = false;
+    this.onTranscriptUpdate([...this.call.transcript]);
+
+    this.send('text message', session => session.sendClientContent({
+      turns: [{ role: 'user', parts: [{ text: message }] }],
+      turnComplete: true
+    }));
+  }
+
+  // Starts sending frames of a screen, window or tab chosen by the user.
+  // Returns false, after warning the user, when sharing was not started.
+  async startScreenShare(): Promise<boolean> {
+    if (!this.sessionPromise || this.screen) return false;
+
+    let stream: MediaStream;
     try {
-      const prompt = `
-        Analiza este requerimiento de soporte municipal y genera un resumen profesional para enviarlo por correo:
-
-        Correo: ${uiTicket.correo}
-        Municipalidad: ${uiTicket.municipalidad}
-        Sistema: ${uiTicket.sistema}
-        Descripción: ${uiTicket.descripcion}
-        Timestamp: ${uiTicket.timestamp}
-        ID Ticket: ${uiTicket.ticketId}
-
-        Instrucciones:
-        1. La primera línea debe ser SOLO el asunto sugerido, comenzando con "Asunto:".
-        2. El resto debe ser el cuerpo del correo, claro, estructurado y profesional.
-      `;
-
-      const response = await this.ai.models.generateContent({
-        model: 'gemini-2.5-flash',
-        contents: prompt
+      stream = await navigator.mediaDevices.getDisplayMedia({
+        video: { frameRate: { max: this.screenCaptureOptions.fps } },
+        audio: false,
       });
+    } catch (err: any) {
+      // Closing the browser picker is not an error worth reporting
+      if (err.name !== 'NotAllowedError' && err.name !== 'AbortError') {
+        console.error("Error starting screen share", err);
+        this.onWarning("No se pudo compartir la pantalla. Puede adjuntar una captura en su lugar.");
+      }
+      return false;
+    }
+
+    const screen = new ScreenCapture(this.screenCaptureOptions);
+    screen.onFrame = (frame) => {
+      this.send('screen frame', session => session.sendRealtimeInput({ media: frame }));
+    };
+    screen.onEnded = () => this.stopScreenShare();
+    try {
+      await screen.start(stream);
+    } catch (err) {
+      console.error("Error capturing screen", err);
+      screen.stop();
+      this.onWarning("No se pudo compartir la pantalla. Puede adjuntar una captura en su lugar.");
+      return false;
+    }
+    this.screen = screen;
+    this.setScreenShare('activa', 'El usuario comenzó a compartir su pantalla. Úsala para ver el error y guiarlo paso a paso con las sugerencias; describe lo que ves antes de indicarle dónde hacer clic.');
+    return true;
+  }
+
+  // Frames are held back while paused, e.g. when the official opens something private
+  setScreenSharePaused(paused: boolean) {
+    if (!this.screen) return;
+    this.screen.setPaused(paused);
+    this.setScreenShare(
+      paused ? 'pausada' : 'activa',
+      paused ? 'El usuario pausó la pantalla compartida.' : 'El usuario reanudó la pantalla compartida.'
+    );
+  }
+
+  stopScreenShare() {
+    if (!this.screen) return;
+    this.screen.stop();
+    this.screen = null;
+    this.setScreenShare('inactiva', 'El usuario dejó de compartir su pantalla.');
+  }
+
+  getScreenShare(): ScreenShareState {
+    return this.screenShare;
+  }
+
+  // The agent is told about every change so it does not describe a stale frame
+  private setScreenShare(state: ScreenShareState, note: string) {
+    this.screenShare = state;
+    this.onScreenShareChange(state);
+    this.send('screen share state', session => session.sendClientContent({
+      turns: [{ role: 'user', parts: [{ text: note }] }],
+      turnComplete: false
+    }));
+  }
+
+  // Adds a dropped screenshot or log file to the call. Images reach the model as
+  // realtime input and logs as text. Returns false, after warning, when rejected.
+  async attachFile(file: File): Promise<boolean> {
+    if (!this.sessionPromise) return false;
 
-      const fullText = response.text || '';
-      const subjectMatch = fullText.match(/^Asunto:\s*(.*)/i);
-      let subject = `Ticket ${uiTicket.ticketId} - Soporte ${uiTicket.municipalidad}`;
-      let body = fullText;
+    let attachment: TicketAttachment;
+    try {
+      attachment = await readAttachment(file, this.call.attachments.length);
+    } catch (e: any) {
+      this.onWarning(e instanceof AttachmentError ? e.message : `No se pudo leer "${file.name}".`);
+      return false;
+    }
 
-      if (subjectMatch) {
-        subject = subjectMatch[1].trim();
-        body = fullText.replace(/^Asunto:.*\n+/i, '').trim();
+    const note = attachmentKind(attachment) === 'imagen'
+      ? `El usuario adjuntó la captura de pantalla "${attachment.name}". Lee el mensaje de error que muestra y úsalo para entender el problema.`
+      : `El usuario adjuntó el archivo de registro "${attachment.name}". Contenido:\n${(await file.text()).slice(0, MAX_LOG_CHARS_FOR_MODEL)}`;
+    this.send('attachment', session => {
+      if (attachmentKind(attachment) === 'imagen') {
+        session.sendRealtimeInput({ media: { data: attachment.data!, mimeType: attachment.mimeType } });
       }
+      session.sendClientContent({ turns: [{ role: 'user', parts: [{ text: note }] }], turnComplete: true });
+    });
 
-      this.onEmailReady({ subject, body });
+    this.call.attachments.push(attachment);
+    this.onAttachmentsChange([...this.call.attachments]);
 
-      sessionPromise.then(session => session.sendToolResponse({
-        functionResponses: {
-          id: toolId,
-          name: toolName,
-          response: { result: `Ticket registrado exitosamente. ID del Ticket: ${uiTicket.ticketId}. Borrador de correo generado.` }
-        }
-      }));
-
-    } catch (error) {
-      console.error('Error generating email content:', error);
-      sessionPromise.then(session => session.sendToolResponse({
-        functionResponses: {
-          id: toolId,
-          name: toolName,
-          response: { result: `Error generando borrador, pero el ticket ${uiTicket.ticketId} fue registrado.` }
-        }
-      }));
+    // Files dropped after registration are added to the ticket
+    if (this.call.ticket) {
+      await this.tickets.update(this.call.ticket, { attachments: [...this.call.attachments] });
+    }
+    return true;
+  }
+
+  // Returns false, after warning the user, when the microphone cannot be used
+  private async startMicrophone(): Promise<boolean> {
+    try {
+      this.stream = await navigator.mediaDevices.getUserMedia({ audio: { channelCount: 1 } });
+    } catch (err: any) {
+      let msg = "No se pudo acceder al micrófono.";
+      if (err.name === 'NotAllowedError' || err.name === 'PermissionDeniedError') {
+        msg = "Permiso de micrófono denegado.";
+      } else if (err.name === 'NotFoundError') {
+        msg = "No se encontró ningún dispositivo de micrófono.";
+      } else if (err.name === 'NotReadableError') {
+        msg = "El micrófono está siendo usado por otra aplicación.";
+      }
+      this.onWarning(`${msg} Puede continuar la atención escribiendo en el chat.`);
+      return false;
+    }
+
+    const capture = new MicrophoneCapture(this.captureOptions);
+    capture.onLevel = (level) => this.onVolumeChange(level);
+    capture.onChunk = (pcmBlob) => {
+      this.send('audio', session => session.sendRealtimeInput({ media: pcmBlob }));
+    };
+    try {
+      await capture.start(this.stream);
+    } catch (err) {
+      console.error("Error starting audio capture", err);
+      capture.stop();
+      this.stream.getTracks().forEach(t => t.stop());
+      this.stream = null;
+      this.onWarning("No se pudo iniciar la captura de audio. Puede continuar la atención escribiendo en el chat.");
+      return false;
+    }
+    this.capture = capture;
+    this.detachMicrophoneRecording = this.recorder?.addStream(this.stream) ?? null;
+    return true;
+  }
+
+  private stopMicrophone() {
+    this.detachMicrophoneRecording?.();
+    this.detachMicrophoneRecording = null;
+    this.capture?.stop();
+    this.stream?.getTracks().forEach(t => t.stop());
+
+    this.capture = null;
+    this.stream = null;
+    this.onVolumeChange(0);
+  }
+
+  // Transcription arrives in fragments; they are merged until the speaker changes or the turn ends
+  private appendTranscript(speaker: TranscriptSpeaker, text: string) {
+    const last = this.call.transcript[this.call.transcript.length - 1];
+    if (last && last.speaker === speaker && this.transcriptTurnOpen) {
+      this.call.transcript[this.call.transcript.length - 1] = { ...last, text: last.text + text };
+    } else {
+      this.call.transcript.push({ speaker, text: text.trimStart(), timestamp: new Date().toISOString() });
+    }
+    this.transcriptTurnOpen = true;
+    this.onTranscriptUpdate([...this.call.transcript]);
+  }
+
+  // Attaches the complete transcript and audit log to the ticket registered in
+  // this session, and the recording if the official agreed to it. Runs once per
+  // session; later calls get the same result.
+  finishSession(): Promise<StoredTicket | undefined> {
+    this.finished ??= this.storeSession();
+    return this.finished;
+  }
+
+  // For pagehide: ends the call and sends the transcript and audit log with a
+  // keepalive request, since the page may be gone before anything is awaited.
+  // The recording is left out; its upload could not finish.
+  finishOnPageHide() {
+    if (this.finished) return;
+    this.disconnect();
+    this.recording = null;
+    const ticket = this.call.ticket;
+    this.finished = ticket
+      ? this.tickets.update(ticket, this.keepalivePatch(), { keepalive: true })
+      : Promise.resolve(undefined);
+  }
+
+  // A long call's transcript does not fit in a keepalive request, so only its
+  // latest entries are sent, and the audit log says how many were left out
+  private keepalivePatch(): { transcript: TranscriptEntry[]; auditLog: AuditEvent[] } {
+    const entries = this.call.transcript;
+    const auditLog = [...this.call.auditLog];
+    // Room for the field names and the omission notice
+    const reserved = jsonBytes(auditLog) + 512;
+    const transcript = latestEntriesWithin(entries, KEEPALIVE_BODY_LIMIT - reserved);
+    if (transcript.length < entries.length) {
+      auditLog.push(auditEvent('desconexion',
+        `Página cerrada: se guardaron las últimas ${transcript.length} de ${entries.length} intervenciones de la transcripción.`));
+    }
+    return { transcript, auditLog };
+  }
+
+  private async storeSession(): Promise<StoredTicket | undefined> {
+    const recording = await this.recording;
+    this.recording = null;
+    if (!this.call.ticket) return undefined;
+
+    let ticket = await this.tickets.update(this.call.ticket, {
+      transcript: [...this.call.transcript],
+      auditLog: [...this.call.auditLog],
+    }) ?? this.call.ticket;
+    if (recording) {
+      const withRecording = await this.tickets.attachRecording(ticket, recording);
+      if (withRecording) {
+        ticket = withRecording;
+      } else {
+        this.onWarning('No se pudo guardar la grabación de la llamada en el ticket.');
+      }
+    }
+    return ticket;
+  }
+
+  isRecording(): boolean {
+    return !!this.recorder;
+  }
+
+  private startRecording(consentAt: string) {
+    if (!isRecordingSupported()) {
+      this.onWarning('Este navegador no permite grabar la llamada. La atención continúa sin grabación.');
+      return;
+    }
+    try {
+      this.recorder = new CallRecorder(this.audioContext!, consentAt);
+      this.outputNode!.connect(this.recorder.input);
+      this.recorder.start();
+    } catch (e) {
+      console.error("Error starting call recording", e);
+      this.recorder = null;
+      this.onWarning('No se pudo iniciar la grabación. La atención continúa sin grabación.');
+      return;
+    }
+    this.audit('grabacion', `Grabación iniciada. Consentimiento otorgado el ${new Date(consentAt).toLocaleString('es-CL')}.`);
+    this.onRecordingChange(true);
+  }
+
+  // Errors are also counted in the support metrics
+  private audit(type: AuditEventType, detail?: string) {
+    this.call.auditLog.push(auditEvent(type, detail));
+    if (type === 'error') {
+      this.track({ type: 'error', detail });
+    }
+  }
+
+  // Events after registration carry the ticket's municipality and system
+  private track(event: AnalyticsEventInput) {
+    if (!this.sessionId) return;
+    const ticket = this.call.ticket;
+    this.analytics.record({
+      timestamp: new Date().toISOString(),
+      sessionId: this.sessionId,
+      ticketId: ticket?.ticketId,
+      municipalidad: ticket?.municipalidad,
+      sistema: ticket?.sistema,
+      category: ticket?.classification?.category,
+      ...event,
+    });
+  }
+
+  private async showSolutions(solutions: SolutionData) {
+    this.call.solutions = solutions;
+    this.onSolutionsReady(solutions);
+
+    // Tips may arrive after the ticket was already registered
+    if (this.call.ticket) {
+      await this.tickets.update(this.call.ticket, { solutions });
     }
   }
 
   disconnect() {
+    this.active = false;
+    this.sessionGeneration++;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
     this.cleanupFunctions.forEach(fn => fn());
     this.cleanupFunctions = [];
+    if (this.audioContext) {
+      this.audit('desconexion', 'Sesión finalizada.');
+      this.track({ type: 'sesion_fin', durationMs: Date.now() - this.sessionStartedAt });
+      this.sessionId = '';
+    }
 
-    this.processor?.disconnect();
-    this.inputSource?.disconnect();
-    this.stream?.getTracks().forEach(t => t.stop());
+    this.stopMicrophone();
+    if (this.recorder) {
+      // Stopped before the audio context closes so the last chunk is kept
+      this.recording = this.recorder.stop();
+      this.recorder = null;
+      this.onRecordingChange(false);
+    }
+    this.screen?.stop();
+    this.screen = null;
+    this.screenShare = 'inactiva';
     this.audioContext?.close();
 
-    this.processor = null;
-    this.inputSource = null;
-    this.stream = null;
     this.audioContext = null;
+    this.outputNode = null;
+    this.sessionPromise = null;
   }
 }
\ No newline at end of file
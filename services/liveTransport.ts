@@ -0,0 +1,74 @@
+import {
+  GoogleGenAI,
+  GenerateContentParameters,
+  LiveConnectParameters,
+  LiveSendClientContentParameters,
+  LiveSendRealtimeInputParameters,
+  LiveSendToolResponseParameters,
+} from '@google/genai';
+
+// The part of a Live session LiveManager uses. The SDK's Session satisfies it.
+export interface LiveSession {
+  sendRealtimeInput(params: LiveSendRealtimeInputParameters): void;
+  sendToolResponse(params: LiveSendToolResponseParameters): void;
+  sendClientContent(params: LiveSendClientContentParameters): void;
+  close(): void;
+}
+
+export interface LiveTransport {
+  connect(params: LiveConnectParameters): Promise<LiveSession>;
+}
+
+export interface ContentGenerator {
+  generateContent(params: GenerateContentParameters): Promise<{ text?: string }>;
+}
+
+export const LIVE_MODEL = 'gemini-2.5-flash-native-audio-preview-09-2025';
+export const CONTENT_MODEL = 'gemini-2.5-flash';
+
+// Short-lived credential for opening one Live connection
+export interface LiveToken {
+  token: string;
+  expiresAt: string;
+}
+
+// Both interfaces backed by the Gemini API through the app's server, which keeps
+// the API key. The server identifies the caller by the session opened when the
+// address was verified, sent as a cookie.
+export class GeminiProxyClient implements LiveTransport, ContentGenerator {
+  constructor(private baseUrl: string = '/api/gemini') {}
+
+  // Every socket, reconnections included, gets its own single-use token
+  async connect(params: LiveConnectParameters): Promise<LiveSession> {
+    const { token } = await this.post<LiveToken>('/live-token', { model: params.model });
+    // Ephemeral tokens are only accepted by the v1alpha API
+    const ai = new GoogleGenAI({ apiKey: token, httpOptions: { apiVersion: 'v1alpha' } });
+    return ai.live.connect(params);
+  }
+
+  generateContent(params: GenerateContentParameters): Promise<{ text?: string }> {
+    return this.post('/generate', {
+      model: params.model,
+      contents: params.contents,
+      config: params.config,
+    });
+  }
+
+  private async post<T>(path: string, body: unknown): Promise<T> {
+    let response: Response;
+    try {
+      response = await fetch(this.baseUrl + path, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+    } catch {
+      throw new Error('No se pudo contactar al servidor del asistente.');
+    }
+    const payload = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new Error(payload.error || `Error ${response.status} en el servidor del asistente.`);
+    }
+    return payload as T;
+  }
+}
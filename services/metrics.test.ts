@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import { MetricsRow, metricsToCsv } from './metrics';
+
+const row = (key: string): MetricsRow => ({
+  key, sessions: 3, tickets: 2, withoutTicket: 1, errorTickets: 1, avgDurationMs: 95000, errors: 0, emailFailures: -1,
+});
+
+const cells = (csv: string) => csv.split('\r\n')[1].split(';');
+
+describe('metricsToCsv', () => {
+  it('exports one semicolon separated line per row', () => {
+    const csv = metricsToCsv([row('Santiago')], 'municipalidad');
+    expect(csv.split('\r\n')[0]).toMatch(/^Municipalidad;Sesiones;/);
+    expect(cells(csv)).toEqual(['Santiago', '3', '2', '1', '1', '95', '', '0', '-1']);
+  });
+
+  it.each(['=HYPERLINK("http://x.cl","ver")', '+56 9 1234', '-2+3', '@SUM(A1:A2)', '\tTab', '\rRetorno'])(
+    'keeps a spreadsheet from evaluating %j', key => {
+      const [cell] = cells(metricsToCsv([row(key)], 'municipalidad'));
+      expect(cell.replace(/^"/, '')).toMatch(/^'/);
+    });
+
+  it('quotes cells with separators, quotes or line breaks', () => {
+    const csv = metricsToCsv([row('Sistema "A"; B\rC')], 'sistema');
+    expect(csv.split('\r\n')[1]).toMatch(/^"Sistema ""A""; B\rC";3;/);
+  });
+});
@@ -0,0 +1,158 @@
+import { AnalyticsEvent, TicketCategory } from '../types';
+
+// One call, rebuilt from its events
+export interface SessionSummary {
+  sessionId: string;
+  startedAt: string;
+  durationMs?: number;
+  ticketId?: string;
+  municipalidad?: string;
+  sistema?: string;
+  category?: TicketCategory;
+  timeToTicketMs?: number;
+  errors: number;
+  emailFailures: number;
+}
+
+export type MetricsDimension = 'municipalidad' | 'sistema' | 'semana';
+
+export const METRICS_DIMENSION_LABELS: Record<MetricsDimension, string> = {
+  municipalidad: 'Municipalidad',
+  sistema: 'Sistema',
+  semana: 'Semana',
+};
+
+// Sessions that ended before a ticket was registered have no municipality or system
+export const UNIDENTIFIED = 'Sin ticket';
+
+export interface MetricsRow {
+  key: string;
+  sessions: number;
+  tickets: number;
+  withoutTicket: number;
+  // Tickets classified as errors, as opposed to requests or questions
+  errorTickets: number;
+  avgDurationMs?: number;
+  avgTimeToTicketMs?: number;
+  errors: number;
+  emailFailures: number;
+}
+
+export interface ToolStats {
+  tool: string;
+  calls: number;
+  failures: number;
+  avgLatencyMs: number;
+}
+
+const average = (values: (number | undefined)[]): number | undefined => {
+  const known = values.filter((value): value is number => value !== undefined);
+  return known.length ? known.reduce((sum, value) => sum + value, 0) / known.length : undefined;
+};
+
+export function summarizeSessions(events: AnalyticsEvent[]): SessionSummary[] {
+  const sessions = new Map<string, SessionSummary>();
+  [...events].sort((a, b) => a.timestamp.localeCompare(b.timestamp)).forEach(event => {
+    let session = sessions.get(event.sessionId);
+    if (!session) {
+      session = { sessionId: event.sessionId, startedAt: event.timestamp, errors: 0, emailFailures: 0 };
+      sessions.set(event.sessionId, session);
+    }
+    if (event.ticketId) {
+      session.ticketId = event.ticketId;
+      session.municipalidad = event.municipalidad ?? session.municipalidad;
+      session.sistema = event.sistema ?? session.sistema;
+      session.category = event.category ?? session.category;
+    }
+    if (event.type === 'ticket') session.timeToTicketMs = event.durationMs;
+    if (event.type === 'sesion_fin') session.durationMs = event.durationMs;
+    if (event.type === 'error') session.errors++;
+    if (event.type === 'correo_fallido') session.emailFailures++;
+  });
+  return Array.from(sessions.values());
+}
+
+// Monday of the week, as YYYY-MM-DD in local time
+export function weekStart(timestamp: string): string {
+  const date = new Date(timestamp);
+  date.setHours(0, 0, 0, 0);
+  date.setDate(date.getDate() - ((date.getDay() + 6) % 7));
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+}
+
+const dimensionKey = (session: SessionSummary, dimension: MetricsDimension): string => {
+  if (dimension === 'semana') return weekStart(session.startedAt);
+  return session[dimension] || UNIDENTIFIED;
+};
+
+export function summarizeGroup(key: string, sessions: SessionSummary[]): MetricsRow {
+  const tickets = sessions.filter(session => session.ticketId);
+  return {
+    key,
+    sessions: sessions.length,
+    tickets: tickets.length,
+    withoutTicket: sessions.length - tickets.length,
+    errorTickets: tickets.filter(session => session.category === 'error').length,
+    avgDurationMs: average(sessions.map(session => session.durationMs)),
+    avgTimeToTicketMs: average(tickets.map(session => session.timeToTicketMs)),
+    errors: sessions.reduce((sum, session) => sum + session.errors, 0),
+    emailFailures: sessions.reduce((sum, session) => sum + session.emailFailures, 0),
+  };
+}
+
+// Weeks in chronological order; other dimensions by number of sessions
+export function groupSessions(sessions: SessionSummary[], dimension: MetricsDimension): MetricsRow[] {
+  const groups = new Map<string, SessionSummary[]>();
+  sessions.forEach(session => {
+    const key = dimensionKey(session, dimension);
+    groups.set(key, [...(groups.get(key) ?? []), session]);
+  });
+
+  const rows = Array.from(groups.entries()).map(([key, group]) => summarizeGroup(key, group));
+  return dimension === 'semana'
+    ? rows.sort((a, b) => a.key.localeCompare(b.key))
+    : rows.sort((a, b) => b.sessions - a.sessions || a.key.localeCompare(b.key, 'es'));
+}
+
+export function toolStats(events: AnalyticsEvent[]): ToolStats[] {
+  const byTool = new Map<string, AnalyticsEvent[]>();
+  events.filter(event => event.type === 'herramienta' && event.tool).forEach(event => {
+    byTool.set(event.tool!, [...(byTool.get(event.tool!) ?? []), event]);
+  });
+  return Array.from(byTool.entries())
+    .map(([tool, calls]) => ({
+      tool,
+      calls: calls.length,
+      failures: calls.filter(call => call.ok === false).length,
+      avgLatencyMs: average(calls.map(call => call.durationMs)) ?? 0,
+    }))
+    .sort((a, b) => b.calls - a.calls);
+}
+
+export function formatDuration(ms: number | undefined): string {
+  if (ms === undefined) return '—';
+  const seconds = Math.round(ms / 1000);
+  if (seconds < 60) return `${seconds} s`;
+  return `${Math.floor(seconds / 60)} min ${String(seconds % 60).padStart(2, '0')} s`;
+}
+
+// Municipality and system names come from callers. Text that a spreadsheet
+// would read as a formula gets a leading ' so it is shown, not evaluated.
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+const csvCell = (value: string | number): string => {
+  if (typeof value === 'number') return String(value);
+  const text = FORMULA_START.test(value) ? `'${value}` : value;
+  return /[";\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// Semicolon separated, as expected by spreadsheets set to Spanish
+export function metricsToCsv(rows: MetricsRow[], dimension: MetricsDimension): string {
+  const header = [METRICS_DIMENSION_LABELS[dimension], 'Sesiones', 'Tickets', 'Sin ticket', 'Tickets de error', 'Duración promedio (s)', 'Tiempo a ticket promedio (s)', 'Errores', 'Borradores de correo fallidos'];
+  const seconds = (ms: number | undefined) => ms === undefined ? '' : Math.round(ms / 1000);
+  const lines = rows.map(row => [
+    row.key, row.sessions, row.tickets, row.withoutTicket, row.errorTickets,
+    seconds(row.avgDurationMs), seconds(row.avgTimeToTicketMs), row.errors, row.emailFailures,
+  ].map(csvCell).join(';'));
+  return [header.map(csvCell).join(';'), ...lines].join('\r\n');
+}
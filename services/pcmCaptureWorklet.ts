@@ -0,0 +1,70 @@
+// AudioWorklet processor that turns microphone input into fixed-size 16-bit
+// PCM chunks at the sample rate expected by the Live API. It runs on the
+// audio rendering thread, so React renders on the main thread cannot delay it.
+import { LinearResampler, floatToInt16 } from './audioUtils';
+
+// Globals of AudioWorkletGlobalScope, not part of the DOM typings
+declare const sampleRate: number;
+declare class AudioWorkletProcessor {
+  readonly port: MessagePort;
+  constructor(options?: any);
+}
+declare function registerProcessor(name: string, processor: typeof AudioWorkletProcessor): void;
+
+export interface PcmCaptureProcessorOptions {
+  targetSampleRate: number;
+  chunkSamples: number;
+}
+
+// Posted to the main thread for every complete chunk
+export interface PcmChunkMessage {
+  pcm: ArrayBuffer;
+  // RMS level of the chunk, 0..1
+  level: number;
+}
+
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+  private resampler: LinearResampler;
+  private chunk: Int16Array;
+  private filled = 0;
+  private sumOfSquares = 0;
+
+  constructor(options: { processorOptions: PcmCaptureProcessorOptions }) {
+    super();
+    const { targetSampleRate, chunkSamples } = options.processorOptions;
+    this.resampler = new LinearResampler(sampleRate, targetSampleRate);
+    this.chunk = new Int16Array(chunkSamples);
+  }
+
+  process(inputs: Float32Array[][]): boolean {
+    const channel = inputs[0]?.[0];
+    if (!channel) return true;
+
+    let samples = this.resampler.process(channel);
+    while (samples.length > 0) {
+      const take = Math.min(samples.length, this.chunk.length - this.filled);
+      const part = samples.subarray(0, take);
+      floatToInt16(part, this.chunk.subarray(this.filled, this.filled + take));
+      for (let i = 0; i < take; i++) this.sumOfSquares += part[i] * part[i];
+      this.filled += take;
+      samples = samples.subarray(take);
+
+      if (this.filled === this.chunk.length) this.flush();
+    }
+    return true;
+  }
+
+  private flush() {
+    const message: PcmChunkMessage = {
+      pcm: this.chunk.buffer as ArrayBuffer,
+      level: Math.min(1, Math.sqrt(this.sumOfSquares / this.chunk.length)),
+    };
+    // The buffer is transferred, so a new one is allocated for the next chunk
+    this.port.postMessage(message, [message.pcm]);
+    this.chunk = new Int16Array(this.chunk.length);
+    this.filled = 0;
+    this.sumOfSquares = 0;
+  }
+}
+
+registerProcessor('pcm-capture', PcmCaptureProcessor);
@@ -0,0 +1,92 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ScreenCapture } from './screenCapture';
+
+// A 1920x1080 shared screen; the canvas records the size of each frame drawn
+class FakeVideo {
+  muted = false;
+  playsInline = false;
+  srcObject: unknown = null;
+  videoWidth = 1920;
+  videoHeight = 1080;
+  play() { return Promise.resolve(); }
+}
+
+class FakeCanvas {
+  width = 0;
+  height = 0;
+  drawn: [number, number][] = [];
+  quality?: number;
+  getContext() { return { drawImage: (_video: unknown, _x: number, _y: number, w: number, h: number) => this.drawn.push([w, h]) }; }
+  toDataURL(_type: string, quality: number) {
+    this.quality = quality;
+    return 'data:image/jpeg;base64,AAAA';
+  }
+}
+
+const fakeStream = () => {
+  const listeners: Record<string, () => void> = {};
+  const track = { stop: vi.fn(), addEventListener: (type: string, listener: () => void) => { listeners[type] = listener; } };
+  const stream = { getVideoTracks: () => [track], getTracks: () => [track] } as unknown as MediaStream;
+  return { stream, track, end: () => listeners.ended?.() };
+};
+
+describe('ScreenCapture', () => {
+  let canvas: FakeCanvas;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    canvas = new FakeCanvas();
+    vi.stubGlobal('document', { createElement: (tag: string) => (tag === 'canvas' ? canvas : new FakeVideo()) });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it('sends at most one scaled down JPEG frame per second', async () => {
+    const capture = new ScreenCapture({ fps: 5, maxWidth: 1024, quality: 0.6 });
+    const frames: { data: string; mimeType: string }[] = [];
+    capture.onFrame = frame => frames.push(frame);
+    await capture.start(fakeStream().stream);
+
+    await vi.advanceTimersByTimeAsync(3500);
+    expect(frames).toHaveLength(3);
+    expect(frames[0]).toEqual({ data: 'AAAA', mimeType: 'image/jpeg' });
+    expect(canvas.drawn[0]).toEqual([1024, 576]);
+    expect(canvas.quality).toBe(0.6);
+    capture.stop();
+  });
+
+  it('sends nothing while paused and after stopping', async () => {
+    const capture = new ScreenCapture({ fps: 0.5, maxWidth: 1024, quality: 0.6 });
+    const onFrame = vi.fn();
+    capture.onFrame = onFrame;
+    const { stream, track } = fakeStream();
+    await capture.start(stream);
+
+    capture.setPaused(true);
+    await vi.advanceTimersByTimeAsync(4000);
+    expect(onFrame).not.toHaveBeenCalled();
+
+    capture.setPaused(false);
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(onFrame).toHaveBeenCalledOnce();
+
+    capture.stop();
+    await vi.advanceTimersByTimeAsync(4000);
+    expect(onFrame).toHaveBeenCalledOnce();
+    expect(track.stop).toHaveBeenCalled();
+  });
+
+  it('reports when the user stops sharing from the browser', async () => {
+    const capture = new ScreenCapture();
+    const onEnded = vi.fn();
+    capture.onEnded = onEnded;
+    const { stream, end } = fakeStream();
+    await capture.start(stream);
+    end();
+    expect(onEnded).toHaveBeenCalledOnce();
+    capture.stop();
+  });
+});
@@ -0,0 +1,77 @@
+export interface ScreenCaptureOptions {
+  // Frames per second sent to the Live API
+  fps: number;
+  // Frames are scaled down to this width; the Live API reads text well at 1024 px
+  maxWidth: number;
+  // JPEG quality, 0..1
+  quality: number;
+}
+
+export const DEFAULT_SCREEN_CAPTURE_OPTIONS: ScreenCaptureOptions = {
+  fps: 1,
+  maxWidth: 1024,
+  quality: 0.6,
+};
+
+// The Live API processes video at up to 1 frame per second; faster only costs bandwidth
+export const MAX_SCREEN_FPS = 1;
+
+// Samples a getDisplayMedia stream into JPEG frames ready for sendRealtimeInput
+export class ScreenCapture {
+  private stream: MediaStream | null = null;
+  private video: HTMLVideoElement | null = null;
+  private canvas: HTMLCanvasElement | null = null;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private paused = false;
+
+  public onFrame: (blob: { data: string; mimeType: string }) => void = () => {};
+  // The user stopped sharing from the browser's own controls
+  public onEnded: () => void = () => {};
+
+  constructor(private options: ScreenCaptureOptions = DEFAULT_SCREEN_CAPTURE_OPTIONS) {}
+
+  async start(stream: MediaStream) {
+    this.stream = stream;
+    stream.getVideoTracks()[0]?.addEventListener('ended', () => this.onEnded());
+
+    const video = document.createElement('video');
+    video.muted = true;
+    video.playsInline = true;
+    video.srcObject = stream;
+    await video.play();
+    this.video = video;
+    this.canvas = document.createElement('canvas');
+
+    const fps = Math.min(MAX_SCREEN_FPS, Math.max(0.1, this.options.fps));
+    this.timer = setInterval(() => this.captureFrame(), 1000 / fps);
+  }
+
+  setPaused(paused: boolean) {
+    this.paused = paused;
+  }
+
+  stop() {
+    if (this.timer) clearInterval(this.timer);
+    this.stream?.getTracks().forEach(t => t.stop());
+    if (this.video) this.video.srcObject = null;
+
+    this.timer = null;
+    this.stream = null;
+    this.video = null;
+    this.canvas = null;
+  }
+
+  private captureFrame() {
+    const video = this.video;
+    const canvas = this.canvas;
+    if (this.paused || !video || !canvas || !video.videoWidth) return;
+
+    const scale = Math.min(1, this.options.maxWidth / video.videoWidth);
+    canvas.width = Math.round(video.videoWidth * scale);
+    canvas.height = Math.round(video.videoHeight * scale);
+    canvas.getContext('2d')?.drawImage(video, 0, 0, canvas.width, canvas.height);
+
+    const dataUrl = canvas.toDataURL('image/jpeg', this.options.quality);
+    this.onFrame({ data: dataUrl.slice(dataUrl.indexOf(',') + 1), mimeType: 'image/jpeg' });
+  }
+}
@@ -0,0 +1,40 @@
+// The back-office session is an HttpOnly cookie set by the server, so the
+// browser only asks whether it is open and never holds the key.
+export class TechnicianSessionClient {
+  constructor(private baseUrl: string = '/api/support/session') {}
+
+  async isOpen(): Promise<boolean> {
+    try {
+      return (await fetch(this.baseUrl)).ok;
+    } catch {
+      return false;
+    }
+  }
+
+  async open(clave: string): Promise<void> {
+    await this.request('POST', { clave });
+  }
+
+  async close(): Promise<void> {
+    await this.request('DELETE');
+  }
+
+  private async request(method: string, body?: unknown) {
+    let response: Response;
+    try {
+      response = await fetch(this.baseUrl, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: body === undefined ? undefined : JSON.stringify(body),
+      });
+    } catch {
+      throw new Error('No se pudo contactar al servidor de la mesa de ayuda.');
+    }
+    if (!response.ok) {
+      const payload = await response.json().catch(() => ({}));
+      throw new Error(payload.error || `Error ${response.status} en la mesa de ayuda.`);
+    }
+  }
+}
+
+export const technicianSession = new TechnicianSessionClient();
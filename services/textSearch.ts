@@ -0,0 +1,97 @@
+// Text normalization and a small weighted full-text index shared by the
+// knowledge base and ticket similarity checks.
+
+const STOPWORDS = new Set([
+  'a', 'al', 'algo', 'ante', 'con', 'como', 'cuando', 'de', 'del', 'desde', 'donde', 'el', 'ella', 'en', 'entre',
+  'es', 'esa', 'ese', 'esta', 'este', 'esto', 'fue', 'ha', 'hay', 'la', 'las', 'le', 'lo', 'los', 'me', 'mi', 'muy',
+  'no', 'nos', 'o', 'para', 'pero', 'por', 'puede', 'pueden', 'puedo', 'que', 'se', 'si', 'sin', 'sistema', 'sobre',
+  'su', 'sus', 'tiene', 'un', 'una', 'uno', 'y', 'ya', 'yo',
+]);
+
+export function normalizeText(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase();
+}
+
+// Very light Spanish stemming: enough to match plurals ("ordenes" / "orden")
+const stem = (word: string) => {
+  if (word.length > 5 && word.endsWith('es')) return word.slice(0, -2);
+  if (word.length > 4 && word.endsWith('s')) return word.slice(0, -1);
+  return word;
+};
+
+export function tokenize(text: string): string[] {
+  return normalizeText(text)
+    .split(/[^a-z0-9ñ]+/)
+    .filter(word => word.length > 1 && !STOPWORDS.has(word))
+    .map(stem);
+}
+
+export interface IndexedField {
+  text: string;
+  weight: number;
+}
+
+export interface SearchHit<T> {
+  item: T;
+  score: number;
+  matchedTerms: string[];
+}
+
+export class TextIndex<T> {
+  private docs: { item: T; terms: Map<string, number> }[] = [];
+  private docFrequency = new Map<string, number>();
+
+  constructor(items: T[], fields: (item: T) => IndexedField[]) {
+    items.forEach(item => {
+      const terms = new Map<string, number>();
+      fields(item).forEach(field => {
+        tokenize(field.text).forEach(term => {
+          terms.set(term, Math.max(terms.get(term) ?? 0, field.weight));
+        });
+      });
+      terms.forEach((_, term) => this.docFrequency.set(term, (this.docFrequency.get(term) ?? 0) + 1));
+      this.docs.push({ item, terms });
+    });
+  }
+
+  // Scores each document by the inverse document frequency of the query terms
+  // it contains, multiplied by the weight of the best field they appear in.
+  search(query: string, filter: (item: T) => boolean = () => true): SearchHit<T>[] {
+    const queryTerms = Array.from(new Set(tokenize(query)));
+    const total = this.docs.length;
+
+    return this.docs
+      .filter(doc => filter(doc.item))
+      .map(doc => {
+        let score = 0;
+        const matchedTerms: string[] = [];
+        queryTerms.forEach(term => {
+          const weight = doc.terms.get(term);
+          if (!weight) return;
+          const idf = Math.log(1 + total / (this.docFrequency.get(term) ?? 1));
+          score += idf * weight;
+          matchedTerms.push(term);
+        });
+        return { item: doc.item, score, matchedTerms };
+      })
+      .filter(hit => hit.score > 0)
+      .sort((a, b) => b.score - a.score);
+  }
+}
+
+// Levenshtein distance, used to tolerate typos and transcription errors
+export function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
@@ -0,0 +1,87 @@
+import { NewTicketInput, StoredTicket, TicketPatch } from '../types';
+import { TicketFilter } from './ticketStore';
+import { RecordedCall } from './callRecorder';
+
+// Error returned by the ticket API. status is 0 when the server was unreachable.
+export class TicketApiError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+
+  get isOffline(): boolean {
+    return this.status === 0;
+  }
+}
+
+export class TicketApiClient {
+  constructor(private baseUrl: string = '/api/tickets') {}
+
+  create(input: NewTicketInput): Promise<StoredTicket> {
+    return this.request('', { method: 'POST', body: JSON.stringify(input) });
+  }
+
+  async get(ticketId: string): Promise<StoredTicket | null> {
+    try {
+      return await this.request(`/${encodeURIComponent(ticketId)}`);
+    } catch (e) {
+      if (e instanceof TicketApiError && e.status === 404) return null;
+      throw e;
+    }
+  }
+
+  // keepalive lets the request finish after the page is closed
+  update(ticketId: string, patch: TicketPatch, { keepalive = false } = {}): Promise<StoredTicket> {
+    return this.request(`/${encodeURIComponent(ticketId)}`, { method: 'PATCH', body: JSON.stringify(patch), keepalive });
+  }
+
+  // Uploads the call audio; the metadata travels in the query string
+  uploadRecording(ticketId: string, recording: RecordedCall): Promise<StoredTicket> {
+    const params = new URLSearchParams({
+      startedAt: recording.startedAt,
+      consentAt: recording.consentAt,
+      durationSeconds: String(recording.durationSeconds),
+    });
+    return this.request(`/${encodeURIComponent(ticketId)}/recording?${params}`, {
+      method: 'PUT',
+      body: recording.blob,
+      headers: { 'Content-Type': recording.mimeType },
+    });
+  }
+
+  // Queues the ticket's email draft in the server outbox
+  sendEmail(ticketId: string): Promise<StoredTicket> {
+    return this.request(`/${encodeURIComponent(ticketId)}/email`, { method: 'POST' });
+  }
+
+  list(filter: TicketFilter = {}): Promise<StoredTicket[]> {
+    const params = new URLSearchParams();
+    if (filter.query) params.set('q', filter.query);
+    if (filter.correo) params.set('correo', filter.correo);
+    if (filter.status) params.set('status', filter.status);
+    if (filter.municipalidad) params.set('municipalidad', filter.municipalidad);
+    if (filter.sistema) params.set('sistema', filter.sistema);
+    if (filter.parentTicketId) params.set('parent', filter.parentTicketId);
+    const query = params.toString();
+    return this.request(query ? `?${query}` : '');
+  }
+
+  private async request<T>(path: string, init: RequestInit = {}): Promise<T> {
+    let response: Response;
+    try {
+      response = await fetch(this.baseUrl + path, {
+        ...init,
+        headers: { 'Content-Type': 'application/json', ...init.headers },
+      });
+    } catch (e: any) {
+      throw new TicketApiError(0, e?.message || 'Servidor de tickets no disponible.');
+    }
+
+    const payload = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new TicketApiError(response.status, payload.error || `Error ${response.status} en el servidor de tickets.`);
+    }
+    return payload as T;
+  }
+}
+
+export const ticketApi = new TicketApiClient();
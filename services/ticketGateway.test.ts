@@ -0,0 +1,64 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { NewTicketInput } from '../types';
+import { MemoryTicketAdapter, TicketRepository } from './ticketStore';
+import { TicketApiClient, TicketApiError } from './ticketApiClient';
+import { TicketGateway } from './ticketGateway';
+
+const input: NewTicketInput = {
+  correo: 'ana@munistgo.cl',
+  municipalidad: 'Santiago',
+  sistema: 'Contabilidad',
+  descripcion: 'No puedo cerrar el mes contable',
+};
+
+const failingApi = (error: Error) => ({ create: async () => { throw error; } }) as unknown as TicketApiClient;
+
+describe('TicketGateway.register', () => {
+  let repository: TicketRepository;
+
+  beforeEach(() => {
+    repository = new TicketRepository(new MemoryTicketAdapter());
+  });
+
+  it('keeps the ticket locally with a provisional number when the API is unreachable', async () => {
+    const gateway = new TicketGateway(repository, failingApi(new TicketApiError(0, 'Failed to fetch')));
+    const ticket = await gateway.register(input);
+    expect(ticket).toMatchObject({ offline: true, status: 'nuevo' });
+    expect(ticket.ticketId).toMatch(/^P-\d{4}-SANT-00001-/);
+    expect(await repository.list()).toHaveLength(1);
+  });
+
+  it.each([400, 403, 500])('passes a %i from the API on without storing anything', async status => {
+    const gateway = new TicketGateway(repository, failingApi(new TicketApiError(status, 'Rechazado')));
+    await expect(gateway.register(input)).rejects.toMatchObject({ status });
+    expect(await repository.list()).toHaveLength(0);
+  });
+});
+
+describe('TicketGateway.listByEmail', () => {
+  let repository: TicketRepository;
+
+  beforeEach(async () => {
+    repository = new TicketRepository(new MemoryTicketAdapter());
+    const timestamp = new Date().toISOString();
+    await repository.create({ ...input, ticketId: 'P-2026-SANT-00001-K', timestamp, offline: true });
+    await repository.create({ ...input, correo: 'pedro@munistgo.cl', ticketId: 'P-2026-SANT-00002-0', timestamp, offline: true });
+  });
+
+  it("lists the server's tickets, with the staff's changes", async () => {
+    const fromServer = [{ ...input, ticketId: 'T-2026-SANT-00042-K', timestamp: new Date().toISOString(), status: 'resuelto', history: [] }];
+    const filters: unknown[] = [];
+    const api = { list: async (filter: unknown) => { filters.push(filter); return fromServer; } } as unknown as TicketApiClient;
+
+    expect(await new TicketGateway(repository, api).listByEmail(input.correo, { status: 'resuelto' })).toEqual(fromServer);
+    expect(filters).toEqual([{ status: 'resuelto', correo: input.correo }]);
+  });
+
+  it("falls back to this browser's copies of the caller's tickets only while offline", async () => {
+    const offline = new TicketGateway(repository, { list: async () => { throw new TicketApiError(0, 'Failed to fetch'); } } as unknown as TicketApiClient);
+    expect((await offline.listByEmail(input.correo)).map(ticket => ticket.ticketId)).toEqual(['P-2026-SANT-00001-K']);
+
+    const expired = new TicketGateway(repository, { list: async () => { throw new TicketApiError(401, 'La sesión venció'); } } as unknown as TicketApiClient);
+    await expect(expired.listByEmail(input.correo)).rejects.toMatchObject({ status: 401 });
+  });
+});
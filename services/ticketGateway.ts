@@ -0,0 +1,96 @@
+import { StoredTicket, NewTicketInput, TicketData, TicketPatch } from '../types';
+import { TicketFilter, TicketRepository, ticketRepository } from './ticketStore';
+import { OFFLINE_TICKET_ID_FORMAT, TicketIdGenerator, TicketIdValidation, validateTicketId } from './ticketIdGenerator';
+import { TicketApiClient, TicketApiError, ticketApi } from './ticketApiClient';
+import { normalizeTicketFields } from './catalog';
+import { findDuplicate } from './duplicates';
+import { RecordedCall } from './callRecorder';
+
+// Ticket operations available to Live tools. The ticket API is the source of
+// truth; the local repository keeps a copy and takes over when it is unreachable.
+export class TicketGateway {
+  readonly ticketIds: TicketIdGenerator;
+
+  constructor(
+    private tickets: TicketRepository = ticketRepository,
+    private api: TicketApiClient = ticketApi,
+    ticketIds?: TicketIdGenerator
+  ) {
+    this.ticketIds = ticketIds ?? new TicketIdGenerator(
+      async () => (await this.tickets.list()).map(t => t.ticketId),
+      OFFLINE_TICKET_ID_FORMAT,
+    );
+  }
+
+  // The ticket API assigns the definitive number. If it cannot be reached the
+  // ticket is numbered and kept locally so the mailto fallback can still send it.
+  // Any answer from the server, including a rejection, is passed on to the caller.
+  async register(rawInput: NewTicketInput): Promise<StoredTicket> {
+    const input = normalizeTicketFields(rawInput);
+    try {
+      const ticket = await this.api.create(input);
+      await this.tickets.save(ticket).catch(e => console.error("Error caching ticket", e));
+      return ticket;
+    } catch (e) {
+      if (!(e instanceof TicketApiError && e.isOffline)) throw e;
+      console.error("Ticket API unavailable, storing ticket locally", e);
+      const { solutions, ...fields } = input;
+      const ticketId = await this.ticketIds.next(fields.municipalidad);
+      // Only the tickets known to this browser can be compared while offline
+      const duplicate = findDuplicate(fields, await this.tickets.list({ sistema: fields.sistema }));
+      return this.tickets.create(
+        { ...fields, ticketId, timestamp: new Date().toISOString(), offline: true, parentTicketId: duplicate?.parentTicketId },
+        { solutions }
+      );
+    }
+  }
+
+  // Applies a change to the server (for confirmed tickets) and to the local copy
+  async update(ticket: TicketData, patch: TicketPatch, options: { keepalive?: boolean } = {}): Promise<StoredTicket | undefined> {
+    try {
+      if (ticket.offline) {
+        return await this.tickets.patch(ticket.ticketId!, patch);
+      }
+      return await this.tickets.save(await this.api.update(ticket.ticketId!, patch, options));
+    } catch (e) {
+      console.error("Error updating ticket", e);
+      return undefined;
+    }
+  }
+
+  // Recordings are only kept by the ticket API; offline tickets go by mail without them
+  async attachRecording(ticket: TicketData, recording: RecordedCall): Promise<StoredTicket | undefined> {
+    if (ticket.offline) return undefined;
+    try {
+      return await this.tickets.save(await this.api.uploadRecording(ticket.ticketId!, recording));
+    } catch (e) {
+      console.error("Error uploading call recording", e);
+      return undefined;
+    }
+  }
+
+  async find(ticketId: string): Promise<StoredTicket | null> {
+    try {
+      return (await this.api.get(ticketId)) ?? (await this.tickets.get(ticketId));
+    } catch (e) {
+      return this.tickets.get(ticketId);
+    }
+  }
+
+  // Newest first. The API answers for the verified session; the copies kept in
+  // this browser stand in only while it is unreachable.
+  async listByEmail(correo: string, filter: Omit<TicketFilter, 'correo'> = {}): Promise<StoredTicket[]> {
+    try {
+      return await this.api.list({ ...filter, correo });
+    } catch (e) {
+      if (!(e instanceof TicketApiError && e.isOffline)) throw e;
+      return this.tickets.list({ ...filter, correo });
+    }
+  }
+
+  // Callers may quote the server's number or a provisional one from an offline call
+  validateId(ticketId: string): TicketIdValidation {
+    const provisional = this.ticketIds.validate(ticketId);
+    return provisional.valid ? provisional : validateTicketId(ticketId);
+  }
+}
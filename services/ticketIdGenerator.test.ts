@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { MUNICIPALITIES, MUNICIPALITY_CODE_LENGTH } from './catalog';
+import {
+  DEFAULT_TICKET_ID_FORMAT,
+  OFFLINE_TICKET_ID_FORMAT,
+  TicketIdGenerator,
+  UNKNOWN_MUNICIPALITY_CODE,
+  computeCheckDigit,
+  municipalityCode,
+  validateTicketId,
+} from './ticketIdGenerator';
+
+const MARCH_2026 = new Date('2026-03-02T12:00:00');
+
+describe('municipality codes', () => {
+  it('gives every municipality in the catalog its own code', () => {
+    const codes = MUNICIPALITIES.map(m => m.code!);
+    expect(codes.every(code => new RegExp(`^[A-Z0-9]{${MUNICIPALITY_CODE_LENGTH}}$`).test(code))).toBe(true);
+    expect(new Set(codes).size).toBe(MUNICIPALITIES.length);
+    expect(codes).not.toContain(UNKNOWN_MUNICIPALITY_CODE);
+  });
+
+  it('tells apart communes that start with the same letters', () => {
+    expect(['Santiago', 'Santa Cruz', 'Santo Domingo', 'Santa Juana'].map(municipalityCode))
+      .toEqual(['SANT', 'STCR', 'STDO', 'STJU']);
+    expect(municipalityCode('I. Municipalidad de Santiago')).toBe('SANT');
+    expect(municipalityCode('Gotham')).toBe(UNKNOWN_MUNICIPALITY_CODE);
+  });
+});
+
+describe('validateTicketId', () => {
+  it('accepts the documented example', () => {
+    expect(computeCheckDigit('T-2026-SANT-00042')).toBe('K');
+    expect(validateTicketId('t 2026 sant 42 k')).toMatchObject({ valid: true, ticket: { ticketId: 'T-2026-SANT-00042-K' } });
+  });
+
+  it('rejects counters longer than the format allows', () => {
+    const body = 'T-2026-SANT-100000';
+    expect(validateTicketId(`${body}-${computeCheckDigit(body)}`).valid).toBe(false);
+  });
+});
+
+describe('TicketIdGenerator', () => {
+  it('numbers each municipality separately', async () => {
+    const generator = new TicketIdGenerator(async () => []);
+    expect(await generator.next('Santiago', MARCH_2026)).toMatch(/^T-2026-SANT-00001-/);
+    expect(await generator.next('Santa Cruz', MARCH_2026)).toMatch(/^T-2026-STCR-00001-/);
+    expect(await generator.next('Santiago', MARCH_2026)).toMatch(/^T-2026-SANT-00002-/);
+  });
+
+  it('refuses to go past the counter width', async () => {
+    const last = 'T-2026-SANT-99999';
+    const generator = new TicketIdGenerator(async () => [`${last}-${computeCheckDigit(last)}`]);
+    await expect(generator.next('Santiago', MARCH_2026)).rejects.toThrow(/exhausted/);
+  });
+
+  it('gives offline tickets a prefix the server never issues', async () => {
+    const generator = new TicketIdGenerator(async () => ['T-2026-SANT-00042-K'], OFFLINE_TICKET_ID_FORMAT);
+    const ticketId = await generator.next('Santiago', MARCH_2026);
+    expect(ticketId).toMatch(/^P-2026-SANT-00001-/);
+    expect(validateTicketId(ticketId, OFFLINE_TICKET_ID_FORMAT).valid).toBe(true);
+    expect(validateTicketId(ticketId, DEFAULT_TICKET_ID_FORMAT).valid).toBe(false);
+  });
+});
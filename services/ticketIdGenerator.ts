@@ -0,0 +1,177 @@
+import { MUNICIPALITY_CODE_LENGTH, municipalityCatalog } from './catalog';
+
+// Sequential ticket numbering with an optional RUT-style check digit.
+// Example with the default format: T-2026-SANT-00042-K
+
+export interface TicketIdFormat {
+  prefix: string;
+  includeYear: boolean;
+  includeMunicipality: boolean;
+  counterDigits: number;
+  checkDigit: boolean;
+  separator: string;
+}
+
+export const DEFAULT_TICKET_ID_FORMAT: TicketIdFormat = {
+  prefix: 'T',
+  includeYear: true,
+  includeMunicipality: true,
+  counterDigits: 5,
+  checkDigit: true,
+  separator: '-',
+};
+
+// Provisional numbers given while the ticket API is unreachable. The prefix
+// keeps them apart from the server's sequence, which the browser cannot see.
+export const OFFLINE_TICKET_ID_FORMAT: TicketIdFormat = { ...DEFAULT_TICKET_ID_FORMAT, prefix: 'P' };
+
+// IDs issued before sequential numbering (T-12345) are still accepted when quoted back
+const LEGACY_TICKET_ID = /^T-\d{5}$/;
+
+// Shared by municipality names that are not in the catalog
+export const UNKNOWN_MUNICIPALITY_CODE = 'XXXX';
+
+export interface ParsedTicketId {
+  ticketId: string;
+  year?: number;
+  municipalityCode?: string;
+  counter: number;
+  legacy: boolean;
+}
+
+export interface TicketIdValidation {
+  valid: boolean;
+  ticket?: ParsedTicketId;
+  // Spanish explanation that can be read back to the caller
+  reason?: string;
+}
+
+// Catalog code of a municipality, e.g. "I. Municipalidad de Santiago" -> "SANT", "Santa Cruz" -> "STCR"
+export function municipalityCode(name: string): string {
+  const match = municipalityCatalog.match(name);
+  return (match.exact && match.value!.code) || UNKNOWN_MUNICIPALITY_CODE;
+}
+
+// Modulo 11 with weights 2..7, as used for Chilean RUTs. Letters count as A=10, B=11...
+export function computeCheckDigit(body: string): string {
+  const chars = body.replace(/[^A-Z0-9]/gi, '').toUpperCase().split('').reverse();
+  let sum = 0;
+  chars.forEach((char, i) => {
+    const value = /\d/.test(char) ? Number(char) : char.charCodeAt(0) - 55;
+    sum += value * (2 + (i % 6));
+  });
+  const digit = 11 - (sum % 11);
+  if (digit === 11) return '0';
+  if (digit === 10) return 'K';
+  return String(digit);
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Uppercases and turns spoken/typed separators ("t 2026 sant 42 7") into the canonical one
+export function normalizeTicketId(raw: string, format: TicketIdFormat = DEFAULT_TICKET_ID_FORMAT): string {
+  return raw.trim().toUpperCase().replace(/[\s_.\-–]+/g, format.separator);
+}
+
+function buildPattern(format: TicketIdFormat): RegExp {
+  const sep = escapeRegExp(format.separator);
+  const parts = [escapeRegExp(format.prefix)];
+  if (format.includeYear) parts.push('(?<year>\\d{4})');
+  if (format.includeMunicipality) parts.push(`(?<municipality>[A-Z0-9]{${MUNICIPALITY_CODE_LENGTH}})`);
+  parts.push(`(?<counter>\\d{1,${format.counterDigits}})`);
+  if (format.checkDigit) parts.push('(?<check>[0-9K])');
+  return new RegExp(`^${parts.join(sep)}$`);
+}
+
+export function validateTicketId(raw: string, format: TicketIdFormat = DEFAULT_TICKET_ID_FORMAT): TicketIdValidation {
+  const ticketId = normalizeTicketId(raw, format);
+  if (!ticketId) {
+    return { valid: false, reason: 'No se indicó un número de ticket.' };
+  }
+
+  if (LEGACY_TICKET_ID.test(ticketId)) {
+    return { valid: true, ticket: { ticketId, counter: Number(ticketId.slice(2)), legacy: true } };
+  }
+
+  const match = ticketId.match(buildPattern(format));
+  if (!match?.groups) {
+    return { valid: false, reason: `El número "${ticketId}" no tiene el formato de un ticket válido.` };
+  }
+
+  // Callers often drop the leading zeros of the counter when reading it out
+  const { year, municipality, counter, check } = match.groups;
+  const bodyParts = [format.prefix];
+  if (year) bodyParts.push(year);
+  if (municipality) bodyParts.push(municipality);
+  bodyParts.push(counter.padStart(format.counterDigits, '0'));
+  const body = bodyParts.join(format.separator);
+
+  if (format.checkDigit && computeCheckDigit(body) !== check) {
+    return { valid: false, reason: `El dígito verificador del ticket "${ticketId}" no corresponde. Verifique el número.` };
+  }
+
+  return {
+    valid: true,
+    ticket: {
+      ticketId: format.checkDigit ? [body, check].join(format.separator) : body,
+      year: year ? Number(year) : undefined,
+      municipalityCode: municipality,
+      counter: Number(counter),
+      legacy: false,
+    },
+  };
+}
+
+export class TicketIdGenerator {
+  private issued = new Set<string>();
+  private queue: Promise<unknown> = Promise.resolve();
+
+  // existingIds must return every ticket ID already persisted
+  constructor(
+    private existingIds: () => Promise<string[]>,
+    private format: TicketIdFormat = DEFAULT_TICKET_ID_FORMAT,
+  ) {}
+
+  // Calls are serialized so concurrent registrations never read the same counter
+  next(municipalidad: string, date: Date = new Date()): Promise<string> {
+    const result = this.queue.then(() => this.generate(municipalidad, date));
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  validate(raw: string): TicketIdValidation {
+    return validateTicketId(raw, this.format);
+  }
+
+  private async generate(municipalidad: string, date: Date): Promise<string> {
+    const { format } = this;
+    const scopeParts = [format.prefix];
+    if (format.includeYear) scopeParts.push(String(date.getFullYear()));
+    if (format.includeMunicipality) scopeParts.push(municipalityCode(municipalidad));
+    const scope = scopeParts.join(format.separator);
+
+    const known = new Set([...(await this.existingIds()), ...this.issued]);
+    let counter = 0;
+    known.forEach(id => {
+      const result = validateTicketId(id, format);
+      if (result.valid && !result.ticket!.legacy && id.startsWith(scope + format.separator)) {
+        counter = Math.max(counter, result.ticket!.counter);
+      }
+    });
+
+    const maxCounter = 10 ** format.counterDigits - 1;
+    let ticketId: string;
+    do {
+      counter += 1;
+      // Keeps the number fixed-width; the year or municipality starts a new sequence
+      if (counter > maxCounter) {
+        throw new Error(`Ticket numbers for ${scope} are exhausted (${maxCounter} issued)`);
+      }
+      const body = [scope, String(counter).padStart(format.counterDigits, '0')].join(format.separator);
+      ticketId = format.checkDigit ? [body, computeCheckDigit(body)].join(format.separator) : body;
+    } while (known.has(ticketId));
+
+    this.issued.add(ticketId);
+    return ticketId;
+  }
+}
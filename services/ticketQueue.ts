@@ -0,0 +1,51 @@
+import { StoredTicket, TicketPriority, TicketStatus } from '../types';
+import { TICKET_STATUS_LABELS } from './ticketStore';
+import { PRIORITY_LABELS } from './classification';
+
+export type QueueSortKey = 'ticketId' | 'municipalidad' | 'sistema' | 'priority' | 'status' | 'assignedTechnician' | 'timestamp';
+
+export interface QueueSort {
+  key: QueueSortKey;
+  descending: boolean;
+}
+
+// Oldest first: the queue is worked from the tickets that have waited longest
+export const DEFAULT_QUEUE_SORT: QueueSort = { key: 'timestamp', descending: false };
+
+// Minimum age filters offered in the queue, in hours
+export const AGE_FILTERS: { label: string; hours: number }[] = [
+  { label: 'Más de 1 día', hours: 24 },
+  { label: 'Más de 3 días', hours: 72 },
+  { label: 'Más de 1 semana', hours: 168 },
+];
+
+const STATUS_ORDER = Object.keys(TICKET_STATUS_LABELS) as TicketStatus[];
+const PRIORITY_ORDER = Object.keys(PRIORITY_LABELS) as TicketPriority[];
+
+export const ticketAgeHours = (ticket: StoredTicket, now: number = Date.now()): number =>
+  (now - new Date(ticket.timestamp).getTime()) / 3_600_000;
+
+export function formatAge(hours: number): string {
+  if (hours < 1) return `${Math.max(1, Math.round(hours * 60))} min`;
+  if (hours < 48) return `${Math.floor(hours)} h`;
+  return `${Math.floor(hours / 24)} d`;
+}
+
+const sortValue = (ticket: StoredTicket, key: QueueSortKey): string | number => {
+  if (key === 'status') return STATUS_ORDER.indexOf(ticket.status);
+  // Unclassified tickets sort with media
+  if (key === 'priority') return PRIORITY_ORDER.indexOf(ticket.classification?.priority ?? 'media');
+  return (ticket[key] ?? '').toLocaleLowerCase('es');
+};
+
+export function sortTickets(tickets: StoredTicket[], sort: QueueSort): StoredTicket[] {
+  const direction = sort.descending ? -1 : 1;
+  return [...tickets].sort((a, b) => {
+    const left = sortValue(a, sort.key);
+    const right = sortValue(b, sort.key);
+    const order = typeof left === 'number' && typeof right === 'number'
+      ? left - right
+      : String(left).localeCompare(String(right), 'es');
+    return order * direction || a.timestamp.localeCompare(b.timestamp);
+  });
+}
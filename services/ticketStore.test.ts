@@ -0,0 +1,110 @@
+import { describe, expect, it, vi } from 'vitest';
+import { StoredTicket } from '../types';
+import { MemoryTicketAdapter, REOPEN_NOTE, TicketRepository, canTransition, latestNote } from './ticketStore';
+
+// Every read and write yields, as the file and IndexedDB adapters do
+class SlowAdapter extends MemoryTicketAdapter {
+  async get(ticketId: string): Promise<StoredTicket | null> {
+    await new Promise(resolve => setTimeout(resolve, 5));
+    return super.get(ticketId);
+  }
+
+  async put(ticket: StoredTicket): Promise<void> {
+    await new Promise(resolve => setTimeout(resolve, 5));
+    return super.put(ticket);
+  }
+}
+
+const TICKET = {
+  ticketId: 'T-2026-SANT-00042-K',
+  correo: 'ana@munistgo.cl',
+  municipalidad: 'Santiago',
+  sistema: 'Contabilidad',
+  descripcion: 'No puedo cerrar el mes contable',
+  timestamp: '2026-03-02T12:00:00.000Z',
+};
+
+describe('TicketRepository', () => {
+  it('stores a new ticket with its first history entry and masks what the caller dictated', async () => {
+    const repository = new TicketRepository(new MemoryTicketAdapter());
+    const stored = await repository.create({ ...TICKET, descripcion: 'No entra el usuario 12.345.678-5, mi clave es Hola123' });
+
+    expect(stored).toMatchObject({ status: 'nuevo', updatedAt: TICKET.timestamp });
+    expect(stored.descripcion).toBe('No entra el usuario [RUT oculto], mi clave es [contraseña oculta]');
+    expect(stored.history).toEqual([{ timestamp: TICKET.timestamp, status: 'nuevo', note: 'Ticket registrado por el asistente.' }]);
+    expect(await repository.get(TICKET.ticketId)).toEqual(stored);
+  });
+
+  it('lists the newest tickets first and filters them', async () => {
+    const repository = new TicketRepository(new MemoryTicketAdapter());
+    await repository.create(TICKET);
+    await repository.create({ ...TICKET, ticketId: 'T-2026-VALP-00007-3', correo: 'luis@munivalpo.cl', municipalidad: 'Valparaíso', sistema: 'Tesorería', descripcion: 'La caja no cuadra', timestamp: '2026-03-03T09:00:00.000Z' });
+    await repository.updateStatus(TICKET.ticketId, 'en_curso');
+
+    expect((await repository.list()).map(ticket => ticket.ticketId)).toEqual(['T-2026-VALP-00007-3', TICKET.ticketId]);
+    expect((await repository.list({ correo: ' ANA@munistgo.cl ' })).map(ticket => ticket.ticketId)).toEqual([TICKET.ticketId]);
+    expect((await repository.list({ query: 'caja' })).map(ticket => ticket.ticketId)).toEqual(['T-2026-VALP-00007-3']);
+    expect((await repository.list({ status: 'en_curso', sistema: 'Contabilidad' })).map(ticket => ticket.ticketId)).toEqual([TICKET.ticketId]);
+    expect(await repository.list({ municipalidad: 'Santiago', status: 'nuevo' })).toEqual([]);
+  });
+
+  it('reopens a resolved ticket and notifies the panels', async () => {
+    const repository = new TicketRepository(new MemoryTicketAdapter());
+    await repository.create(TICKET);
+    await repository.updateStatus(TICKET.ticketId, 'resuelto', 'Se reinició el servicio');
+    const listener = vi.fn();
+    const unsubscribe = repository.subscribe(listener);
+
+    const reopened = await repository.reopen(TICKET.ticketId);
+    unsubscribe();
+    await repository.updateStatus(TICKET.ticketId, 'en_curso');
+
+    expect(reopened.status).toBe('nuevo');
+    expect(latestNote(reopened)).toBe(REOPEN_NOTE);
+    expect(reopened.history.map(entry => entry.status)).toEqual(['nuevo', 'resuelto', 'nuevo']);
+    expect(listener).toHaveBeenCalledOnce();
+  });
+
+  it('rejects updates to a ticket it does not have', async () => {
+    const repository = new TicketRepository(new MemoryTicketAdapter());
+    await expect(repository.updateStatus('T-2026-SANT-99999-X', 'cerrado')).rejects.toThrow('Ticket T-2026-SANT-99999-X not found');
+  });
+
+  it('keeps both of two concurrent updates to a ticket', async () => {
+    const repository = new TicketRepository(new SlowAdapter());
+    await repository.create(TICKET);
+
+    await Promise.all([
+      repository.patch(TICKET.ticketId, { status: 'en_curso', note: 'Revisando' }),
+      repository.patch(TICKET.ticketId, { emailDelivery: { status: 'enviado', attempts: 1, updatedAt: '2026-03-02T12:01:00.000Z' } }),
+      repository.patch(TICKET.ticketId, { transcript: [{ speaker: 'usuario', text: 'Hola', timestamp: '2026-03-02T12:00:05.000Z' }] }),
+    ]);
+
+    const stored = await repository.get(TICKET.ticketId);
+    expect(stored).toMatchObject({ status: 'en_curso', emailDelivery: { status: 'enviado' } });
+    expect(stored?.transcript).toHaveLength(1);
+    expect(stored?.history.map(entry => entry.note)).toEqual(['Ticket registrado por el asistente.', 'Revisando']);
+  });
+
+  it('goes on with the next update after one fails', async () => {
+    const repository = new TicketRepository(new SlowAdapter());
+    await repository.create(TICKET);
+    const failed = repository['update'](TICKET.ticketId, () => { throw new Error('Disco lleno'); });
+    const next = repository.patch(TICKET.ticketId, { status: 'en_curso' });
+    await expect(failed).rejects.toThrow('Disco lleno');
+    expect(await next).toMatchObject({ status: 'en_curso' });
+  });
+});
+
+describe('canTransition', () => {
+  it.each([
+    ['nuevo', 'en_curso', true],
+    ['en_curso', 'resuelto', true],
+    ['resuelto', 'nuevo', true],
+    ['cerrado', 'nuevo', true],
+    ['nuevo', 'resuelto', false],
+    ['cerrado', 'en_curso', false],
+  ] as const)('%s -> %s is %s', (from, to, allowed) => {
+    expect(canTransition(from, to)).toBe(allowed);
+  });
+});
@@ -0,0 +1,224 @@
+import { TicketData, StoredTicket, TicketStatus, TicketPatch, EmailDraft, EmailDeliveryStatus, SolutionData } from '../types';
+import { TICKETS_STORE, isIndexedDbAvailable, runRequest } from './indexedDb';
+import { maskText } from './sanitization';
+
+// Storage backend for tickets. Implementations must be interchangeable so the
+// repository can move from IndexedDB to a REST service without UI changes.
+export interface TicketStoreAdapter {
+  getAll(): Promise<StoredTicket[]>;
+  get(ticketId: string): Promise<StoredTicket | null>;
+  put(ticket: StoredTicket): Promise<void>;
+}
+
+export class IndexedDbTicketAdapter implements TicketStoreAdapter {
+  async getAll(): Promise<StoredTicket[]> {
+    return runRequest<StoredTicket[]>(TICKETS_STORE, 'readonly', store => store.getAll());
+  }
+
+  async get(ticketId: string): Promise<StoredTicket | null> {
+    const ticket = await runRequest<StoredTicket | undefined>(TICKETS_STORE, 'readonly', store => store.get(ticketId));
+    return ticket ?? null;
+  }
+
+  async put(ticket: StoredTicket): Promise<void> {
+    await runRequest(TICKETS_STORE, 'readwrite', store => store.put(ticket));
+  }
+}
+
+// Fallback for environments without IndexedDB (private browsing, tests)
+export class MemoryTicketAdapter implements TicketStoreAdapter {
+  private tickets = new Map<string, StoredTicket>();
+
+  async getAll(): Promise<StoredTicket[]> {
+    return Array.from(this.tickets.values());
+  }
+
+  async get(ticketId: string): Promise<StoredTicket | null> {
+    return this.tickets.get(ticketId) ?? null;
+  }
+
+  async put(ticket: StoredTicket): Promise<void> {
+    this.tickets.set(ticket.ticketId, ticket);
+  }
+}
+
+export interface TicketFilter {
+  query?: string;
+  status?: TicketStatus;
+  correo?: string;
+  municipalidad?: string;
+  sistema?: string;
+  // Tickets linked to this incident
+  parentTicketId?: string;
+}
+
+export const TICKET_STATUS_LABELS: Record<TicketStatus, string> = {
+  nuevo: 'Nuevo',
+  en_curso: 'En curso',
+  resuelto: 'Resuelto',
+  cerrado: 'Cerrado',
+};
+
+// Support works a ticket forward one step at a time; resolved and closed
+// tickets can only go back to nuevo when reopened
+export const STATUS_TRANSITIONS: Record<TicketStatus, TicketStatus[]> = {
+  nuevo: ['en_curso'],
+  en_curso: ['resuelto'],
+  resuelto: ['cerrado', 'nuevo'],
+  cerrado: ['nuevo'],
+};
+
+export const canTransition = (from: TicketStatus, to: TicketStatus): boolean =>
+  from === to || STATUS_TRANSITIONS[from].includes(to);
+
+export const EMAIL_DELIVERY_LABELS: Record<EmailDeliveryStatus, string> = {
+  pendiente: 'Envío pendiente',
+  enviado: 'Correo enviado',
+  fallido: 'Envío fallido',
+};
+
+export const REOPEN_NOTE = 'Ticket reabierto por el funcionario.';
+
+const matchesFilter = (ticket: StoredTicket, filter: TicketFilter) => {
+  if (filter.status && ticket.status !== filter.status) return false;
+  if (filter.correo && ticket.correo.toLowerCase() !== filter.correo.trim().toLowerCase()) return false;
+  if (filter.municipalidad && ticket.municipalidad !== filter.municipalidad) return false;
+  if (filter.sistema && ticket.sistema !== filter.sistema) return false;
+  if (filter.parentTicketId && ticket.parentTicketId !== filter.parentTicketId) return false;
+  const query = filter.query?.trim().toLowerCase();
+  if (!query) return true;
+  return [ticket.ticketId, ticket.municipalidad, ticket.sistema, ticket.descripcion, ticket.correo]
+    .some(value => value.toLowerCase().includes(query));
+};
+
+// Most recent history note, e.g. the last technician comment
+export const latestNote = (ticket: StoredTicket): string | undefined =>
+  [...ticket.history].reverse().find(entry => entry.note)?.note;
+
+// Free text written or dictated by people may contain RUTs, phone numbers or
+// passwords; they are masked before any copy of the ticket is stored
+export const maskTicket = (ticket: StoredTicket): StoredTicket => ({
+  ...ticket,
+  descripcion: maskText(ticket.descripcion),
+  transcript: ticket.transcript?.map(entry => ({ ...entry, text: maskText(entry.text) })),
+  emailDraft: ticket.emailDraft && { subject: maskText(ticket.emailDraft.subject), body: maskText(ticket.emailDraft.body) },
+  history: ticket.history.map(entry => entry.note ? { ...entry, note: maskText(entry.note) } : entry),
+  internalNotes: ticket.internalNotes?.map(note => ({ ...note, text: maskText(note.text) })),
+});
+
+export class TicketRepository {
+  private listeners = new Set<() => void>();
+  // Last write queued for each ticket; see serialize
+  private writes = new Map<string, Promise<unknown>>();
+
+  constructor(private adapter: TicketStoreAdapter) {}
+
+  // Notifies whenever a ticket is created or modified
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  async list(filter: TicketFilter = {}): Promise<StoredTicket[]> {
+    const tickets = await this.adapter.getAll();
+    return tickets
+      .filter(ticket => matchesFilter(ticket, filter))
+      .sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+  }
+
+  get(ticketId: string): Promise<StoredTicket | null> {
+    return this.adapter.get(ticketId);
+  }
+
+  async create(ticket: TicketData, extras: { solutions?: SolutionData } = {}): Promise<StoredTicket> {
+    if (!ticket.ticketId) {
+      throw new Error('Cannot store a ticket without ticketId');
+    }
+    const stored = maskTicket({
+      ...ticket,
+      ticketId: ticket.ticketId,
+      status: 'nuevo',
+      history: [{ timestamp: ticket.timestamp, status: 'nuevo', note: 'Ticket registrado por el asistente.' }],
+      solutions: extras.solutions,
+      updatedAt: ticket.timestamp,
+    });
+    await this.adapter.put(stored);
+    this.notify();
+    return stored;
+  }
+
+  // Stores a ticket created elsewhere, e.g. a copy confirmed by the ticket API
+  save(ticket: StoredTicket): Promise<StoredTicket> {
+    return this.serialize(ticket.ticketId, async () => {
+      const stored = maskTicket(ticket);
+      await this.adapter.put(stored);
+      this.notify();
+      return stored;
+    });
+  }
+
+  patch(ticketId: string, changes: TicketPatch): Promise<StoredTicket> {
+    const { status, note, internalNote, ...fields } = changes;
+    return this.update(ticketId, ticket => {
+      const updated = { ...ticket, ...fields };
+      if (status || note) {
+        updated.status = status ?? ticket.status;
+        updated.history = [...ticket.history, { timestamp: new Date().toISOString(), status: updated.status, note }];
+      }
+      if (internalNote) {
+        updated.internalNotes = [...(ticket.internalNotes ?? []), { ...internalNote, timestamp: new Date().toISOString() }];
+      }
+      return updated;
+    });
+  }
+
+  attachEmailDraft(ticketId: string, emailDraft: EmailDraft): Promise<StoredTicket> {
+    return this.update(ticketId, ticket => ({ ...ticket, emailDraft }));
+  }
+
+  attachSolutions(ticketId: string, solutions: SolutionData): Promise<StoredTicket> {
+    return this.update(ticketId, ticket => ({ ...ticket, solutions }));
+  }
+
+  updateStatus(ticketId: string, status: TicketStatus, note?: string): Promise<StoredTicket> {
+    return this.patch(ticketId, { status, note });
+  }
+
+  reopen(ticketId: string): Promise<StoredTicket> {
+    return this.updateStatus(ticketId, 'nuevo', REOPEN_NOTE);
+  }
+
+  private update(ticketId: string, mutate: (ticket: StoredTicket) => StoredTicket): Promise<StoredTicket> {
+    return this.serialize(ticketId, async () => {
+      const current = await this.adapter.get(ticketId);
+      if (!current) {
+        throw new Error(`Ticket ${ticketId} not found`);
+      }
+      const updated = maskTicket({ ...mutate(current), updatedAt: new Date().toISOString() });
+      await this.adapter.put(updated);
+      this.notify();
+      return updated;
+    });
+  }
+
+  // Writes to the same ticket run one after another. A staff PATCH, an outbox
+  // delivery result and the caller's transcript can arrive together, and an
+  // interleaved read-modify-write would drop one of them.
+  private serialize<T>(ticketId: string, write: () => Promise<T>): Promise<T> {
+    const result = (this.writes.get(ticketId) ?? Promise.resolve()).then(write);
+    const settled = result.catch(() => {});
+    this.writes.set(ticketId, settled);
+    settled.then(() => {
+      if (this.writes.get(ticketId) === settled) this.writes.delete(ticketId);
+    });
+    return result;
+  }
+
+  private notify() {
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+export const ticketRepository = new TicketRepository(
+  isIndexedDbAvailable() ? new IndexedDbTicketAdapter() : new MemoryTicketAdapter()
+);
@@ -0,0 +1,95 @@
+import { FunctionCall, FunctionDeclaration, FunctionResponse } from '@google/genai';
+import { AuditEvent, EmailDraft, SolutionData, StoredTicket, TicketAttachment, TranscriptEntry } from '../types';
+import { ContentGenerator } from './liveTransport';
+import { KnowledgeBase } from './knowledgeBase';
+import { TicketGateway } from './ticketGateway';
+import { AnalyticsEventInput } from './analytics';
+
+// What the current call has produced so far. Owned by LiveManager; tools read
+// it and change it through ToolUi.
+export interface CallState {
+  userEmail: string;
+  // Verified from the email domain before the call; prevails over what the agent collects
+  municipalidad?: string;
+  // Version of the conversation flow config the call follows
+  flowVersion: string;
+  transcript: TranscriptEntry[];
+  attachments: TicketAttachment[];
+  auditLog: AuditEvent[];
+  solutions?: SolutionData;
+  ticket?: StoredTicket;
+}
+
+// Side effects a tool can have on the call screen
+export interface ToolUi {
+  showSolutions(solutions: SolutionData): Promise<void>;
+  showTicket(ticket: StoredTicket): void;
+  ticketCreated(ticket: StoredTicket): void;
+  emailReady(draft: EmailDraft): void;
+  warn(message: string): void;
+}
+
+export interface ToolContext {
+  call: Readonly<CallState>;
+  content: ContentGenerator;
+  knowledge: KnowledgeBase;
+  tickets: TicketGateway;
+  ui: ToolUi;
+  // Records a usage event for the support metrics
+  track(event: AnalyticsEventInput): void;
+}
+
+// Returns the text sent back to the model as the tool result
+export type ToolHandler = (args: Record<string, any>, context: ToolContext) => Promise<string> | string;
+
+// A function the agent can call. Each tool lives in its own module under
+// services/tools and is handed to LiveManager, which builds the session from them.
+export interface LiveTool {
+  declaration: FunctionDeclaration;
+  handler: ToolHandler;
+  // Added to the system instruction; tells the agent when and how to use the tool
+  prompt?: string;
+}
+
+export class ToolRegistry {
+  private tools = new Map<string, LiveTool>();
+
+  register(tool: LiveTool): this {
+    const name = tool.declaration.name;
+    if (!name) {
+      throw new Error('La herramienta no tiene nombre.');
+    }
+    if (this.tools.has(name)) {
+      throw new Error(`La herramienta ${name} ya está registrada.`);
+    }
+    this.tools.set(name, tool);
+    return this;
+  }
+
+  has(name: string): boolean {
+    return this.tools.has(name);
+  }
+
+  declarations(): FunctionDeclaration[] {
+    return [...this.tools.values()].map(tool => tool.declaration);
+  }
+
+  prompts(): string[] {
+    return [...this.tools.values()].map(tool => tool.prompt?.trim()).filter((prompt): prompt is string => !!prompt);
+  }
+
+  // Runs the handler for a tool call. Unknown tools and handler failures are
+  // reported to the model as an error response instead of being thrown.
+  async dispatch(call: FunctionCall, context: ToolContext): Promise<FunctionResponse> {
+    const tool = call.name ? this.tools.get(call.name) : undefined;
+    if (!tool) {
+      return { id: call.id, name: call.name, response: { error: `Herramienta desconocida: ${call.name}.` } };
+    }
+    try {
+      return { id: call.id, name: call.name, response: { result: await tool.handler(call.args ?? {}, context) } };
+    } catch (e: any) {
+      console.error(`Error in tool ${call.name}`, e);
+      return { id: call.id, name: call.name, response: { error: e?.message || 'Error al ejecutar la herramienta.' } };
+    }
+  }
+}
@@ -0,0 +1,77 @@
+import { Type } from '@google/genai';
+import { SolutionData } from '../../types';
+import { LiveTool, ToolContext } from '../toolRegistry';
+import { CONTENT_MODEL } from '../liveTransport';
+import { TROUBLESHOOTING_SCHEMA, MAX_STEPS, parseSolutionResponse, fallbackSolution } from '../troubleshooting';
+import { USER_TEXT_NOTICE, escapeForPrompt, quoteUserText, sanitizeDescription } from '../sanitization';
+
+export async function generateTroubleshootingTips(system: string, description: string, context: ToolContext) {
+  let solutions: SolutionData;
+  try {
+    const prompt = `
+      Genera consejos de solución de problemas cortos y simples para un usuario municipal con el siguiente problema.
+      ${USER_TEXT_NOTICE}
+      Sistema: "${escapeForPrompt(system)}"
+      Error:
+      ${quoteUserText(sanitizeDescription(description))}
+
+      Entrega entre 1 y ${MAX_STEPS} pasos ordenados, cada uno en una sola oración, sin numeración.
+      Indica la dificultad estimada y si el caso probablemente requiere a un técnico.
+    `;
+
+    const response = await context.content.generateContent({
+      model: CONTENT_MODEL,
+      contents: prompt,
+      config: {
+        responseMimeType: 'application/json',
+        responseSchema: TROUBLESHOOTING_SCHEMA
+      }
+    });
+
+    solutions = parseSolutionResponse(response.text) ?? fallbackSolution(system);
+    if (solutions.fallback) {
+      console.warn("Unusable troubleshooting reply:", response.text);
+    }
+  } catch (e) {
+    console.error("Error generating tips", e);
+    solutions = fallbackSolution(system);
+  }
+
+  await context.ui.showSolutions(solutions);
+}
+
+// Analyzes the problem and shows tips on screen (intermediate step)
+export const analyzeProblemTool: LiveTool = {
+  declaration: {
+    name: 'analyzeProblem',
+    parameters: {
+      type: Type.OBJECT,
+      description: 'CRITICAL: execute this tool ONLY after the user has explicitly described the error details. IT IS FORBIDDEN to call this if the user has only provided the system name. You MUST wait for the user to describe the actual problem.',
+      properties: {
+        sistema: { type: Type.STRING, description: 'The system related to the error.' },
+        problemDescription: { type: Type.STRING, description: 'The specific error description provided by the user.' },
+      },
+      required: ['sistema', 'problemDescription'],
+    },
+  },
+  // The model is answered right away so the conversation continues while tips are generated
+  handler: async (args, context) => {
+    // Documented fixes take precedence over generated ones
+    const documented = context.knowledge.findSolution(args.problemDescription, args.sistema);
+    if (documented) {
+      try {
+        await context.ui.showSolutions(documented);
+      } catch (e) {
+        console.error("Error showing documented procedure", e);
+        return "The documented procedure could not be displayed. Guide the user without on-screen tips.";
+      }
+      return `Documented procedure displayed on screen: ${documented.sources!.map(s => `${s.id} "${s.title}"`).join(', ')}.`;
+    }
+
+    generateTroubleshootingTips(args.sistema, args.problemDescription, context).catch(e => {
+      console.error("Error showing tips", e);
+      context.ui.warn('No fue posible mostrar las sugerencias en pantalla.');
+    });
+    return "Solutions generated and displayed on screen.";
+  },
+};
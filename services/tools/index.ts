@@ -0,0 +1,15 @@
+import { LiveTool } from '../toolRegistry';
+import { analyzeProblemTool } from './analyzeProblem';
+import { lookupCatalogTool } from './lookupCatalog';
+import { lookupTicketTool } from './lookupTicket';
+import { registerSupportTicketTool } from './registerSupportTicket';
+
+export { analyzeProblemTool, lookupCatalogTool, lookupTicketTool, registerSupportTicketTool };
+
+// Tools of the support flow, in the order their prompts appear in the system instruction
+export const DEFAULT_TOOLS: LiveTool[] = [
+  lookupCatalogTool,
+  analyzeProblemTool,
+  registerSupportTicketTool,
+  lookupTicketTool,
+];
@@ -0,0 +1,27 @@
+import { Type } from '@google/genai';
+import { LiveTool } from '../toolRegistry';
+import { describeCatalogMatch, matchCatalog } from '../catalog';
+
+// Normalizes the municipality and system against the supported catalog
+export const lookupCatalogTool: LiveTool = {
+  declaration: {
+    name: 'lookupCatalog',
+    parameters: {
+      type: Type.OBJECT,
+      description: 'Normalizes a municipality or system name given by the caller against the catalog of supported municipalities and product modules. Call it as soon as the caller names each one and confirm the returned name with them.',
+      properties: {
+        tipo: { type: Type.STRING, enum: ['municipalidad', 'sistema'], description: 'Which value to look up.' },
+        valor: { type: Type.STRING, description: 'The name exactly as the caller said it (e.g., "muni de stgo", "conta").' },
+      },
+      required: ['tipo', 'valor'],
+    },
+  },
+  handler: (args) => {
+    const field = args.tipo === 'sistema' ? 'sistema' : 'municipalidad';
+    return describeCatalogMatch(field, matchCatalog(field, args.valor || ''));
+  },
+  prompt: `
+CATÁLOGO:
+- Al registrar el ticket usa los nombres de municipalidad y sistema confirmados con 'lookupCatalog'.
+`,
+};
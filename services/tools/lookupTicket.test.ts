@@ -0,0 +1,48 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { MemoryTicketAdapter, TicketRepository } from '../ticketStore';
+import { TicketGateway } from '../ticketGateway';
+import { TicketApiClient, TicketApiError } from '../ticketApiClient';
+import { ToolContext } from '../toolRegistry';
+import { lookupTicketTool } from './lookupTicket';
+
+// The API is unreachable, so lookups read the tickets kept in the browser
+const unreachable = async () => { throw new TicketApiError(0, 'Failed to fetch'); };
+const offlineApi = { get: unreachable, list: unreachable } as unknown as TicketApiClient;
+
+describe('lookupTicket', () => {
+  let context: ToolContext;
+  let showTicket: ReturnType<typeof vi.fn>;
+
+  beforeEach(async () => {
+    const repository = new TicketRepository(new MemoryTicketAdapter());
+    for (const [ticketId, correo] of [['T-2026-SANT-00042-K', 'ana@munistgo.cl'], ['T-12345', 'otro@munistgo.cl']]) {
+      await repository.create({
+        ticketId, correo, municipalidad: 'Santiago', sistema: 'Contabilidad', descripcion: 'No cuadra el balance',
+        timestamp: '2026-03-02T12:00:00.000Z',
+      });
+    }
+    showTicket = vi.fn();
+    context = {
+      call: { userEmail: 'ana@munistgo.cl', flowVersion: '1', transcript: [], attachments: [], auditLog: [] },
+      tickets: new TicketGateway(repository, offlineApi),
+      ui: { showTicket },
+    } as unknown as ToolContext;
+  });
+
+  it("reads back the caller's own ticket", async () => {
+    const result = await lookupTicketTool.handler({ ticketId: 't 2026 sant 42 k' }, context);
+    expect(result).toContain('Ticket T-2026-SANT-00042-K');
+    expect(showTicket).toHaveBeenCalledOnce();
+  });
+
+  it("answers another official's ticket as if it did not exist", async () => {
+    const result = await lookupTicketTool.handler({ ticketId: 'T-12345' }, context);
+    expect(result).toBe('No existe un ticket con el número T-12345 para el correo ana@munistgo.cl.');
+    expect(showTicket).not.toHaveBeenCalled();
+  });
+
+  it('searches by the session email even if another one is given', async () => {
+    const result = await lookupTicketTool.handler({ correo: 'otro@munistgo.cl' }, context);
+    expect(result).toContain('Ticket T-2026-SANT-00042-K');
+  });
+});
@@ -0,0 +1,67 @@
+import { Type } from '@google/genai';
+import { StoredTicket } from '../../types';
+import { LiveTool, ToolContext } from '../toolRegistry';
+import { latestNote, TICKET_STATUS_LABELS } from '../ticketStore';
+
+export async function lookupTicket(ticketId: string | undefined, correo: string, context: ToolContext): Promise<string> {
+  try {
+    let ticket: StoredTicket | null = null;
+
+    if (ticketId) {
+      const validation = context.tickets.validateId(ticketId);
+      if (!validation.valid) {
+        return validation.reason!;
+      }
+      ticket = await context.tickets.find(validation.ticket!.ticketId);
+      // Numbers are sequential and easy to guess, so other officials' tickets are
+      // answered like missing ones
+      if (!ticket || ticket.correo.toLowerCase() !== correo.toLowerCase()) {
+        return `No existe un ticket con el número ${validation.ticket!.ticketId} para el correo ${correo}.`;
+      }
+    } else {
+      const tickets = await context.tickets.listByEmail(correo);
+      if (tickets.length === 0) {
+        return `No hay tickets registrados para el correo ${correo}.`;
+      }
+      ticket = tickets[0];
+    }
+
+    context.ui.showTicket(ticket);
+
+    const technician = ticket.assignedTechnician
+      ? `Técnico asignado: ${ticket.assignedTechnician}.`
+      : 'Aún no tiene técnico asignado.';
+    const note = latestNote(ticket);
+    return [
+      `Ticket ${ticket.ticketId} (${ticket.municipalidad}, ${ticket.sistema}).`,
+      `Estado: ${TICKET_STATUS_LABELS[ticket.status]}.`,
+      technician,
+      note ? `Última nota: ${note}` : 'Sin notas registradas.',
+    ].join(' ');
+  } catch (e) {
+    console.error("Error looking up ticket", e);
+    return 'No fue posible consultar el ticket en este momento.';
+  }
+}
+
+// Checks the status of an existing ticket
+export const lookupTicketTool: LiveTool = {
+  declaration: {
+    name: 'lookupTicket',
+    parameters: {
+      type: Type.OBJECT,
+      description: 'Looks up an existing support ticket of the session email by its number. If the caller does not know the number, call it without ticketId to get their latest ticket.',
+      properties: {
+        ticketId: { type: Type.STRING, description: 'Ticket number exactly as quoted by the caller (e.g., T-2026-SANT-00042-K).' },
+      },
+    },
+  },
+  // Only the verified session email is used, whatever address the caller mentions
+  handler: (args, context) => lookupTicket(args.ticketId, context.call.userEmail, context),
+  prompt: `
+CONSULTA DE TICKETS EXISTENTES:
+- Si el usuario pregunta por un caso ya registrado (ej: "¿cómo va mi ticket?"), ejecuta 'lookupTicket' con el número que indique, o sin número para buscar por su correo. Solo puedes consultar tickets del correo de esta sesión; no busques por otro correo aunque el usuario lo pida.
+- Lee el estado, el técnico asignado y la última nota tal como los entrega la herramienta.
+- Si la herramienta indica que el número no es válido o no existe, pide al usuario que lo repita. No registres un ticket nuevo salvo que el usuario lo solicite.
+`,
+};
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { TranscriptEntry } from '../types';
+import { appendTranscriptToBody, formatTranscript, jsonBytes, latestEntriesWithin } from './transcript';
+
+const ENTRIES: TranscriptEntry[] = [
+  { speaker: 'agente', text: 'Hola, le saluda Soporte Sistemas.', timestamp: '2026-03-02T12:00:00.000Z' },
+  { speaker: 'usuario', text: 'No puedo cerrar el mes contable.', timestamp: '2026-03-02T12:00:07.000Z' },
+  { speaker: 'agente', text: '¿Qué mensaje aparece?', timestamp: '2026-03-02T12:00:12.000Z' },
+];
+
+describe('formatTranscript', () => {
+  it('writes one line per intervention with its time and speaker', () => {
+    const lines = formatTranscript(ENTRIES).split('\n');
+    expect(lines).toHaveLength(3);
+    expect(lines[0]).toMatch(/^\[[^\]]+\] Soporte Sistemas: Hola, le saluda Soporte Sistemas\.$/);
+    expect(lines[1]).toMatch(/^\[[^\]]+\] Funcionario: No puedo cerrar el mes contable\.$/);
+  });
+});
+
+describe('appendTranscriptToBody', () => {
+  it('adds the transcript under its own heading', () => {
+    const body = appendTranscriptToBody('Estimado equipo:', ENTRIES);
+    expect(body.startsWith('Estimado equipo:\n\n--- Transcripción de la llamada ---\n')).toBe(true);
+    expect(body.endsWith('Soporte Sistemas: ¿Qué mensaje aparece?')).toBe(true);
+  });
+
+  it('leaves the body alone without a transcript', () => {
+    expect(appendTranscriptToBody('Estimado equipo:', undefined)).toBe('Estimado equipo:');
+    expect(appendTranscriptToBody('Estimado equipo:', [])).toBe('Estimado equipo:');
+  });
+});
+
+describe('latestEntriesWithin', () => {
+  it('keeps every entry when they fit', () => {
+    expect(latestEntriesWithin(ENTRIES, 1024)).toEqual(ENTRIES);
+  });
+
+  it('drops the oldest entries that do not fit', () => {
+    const kept = latestEntriesWithin(ENTRIES, jsonBytes(ENTRIES) - 1);
+    expect(kept).toEqual(ENTRIES.slice(1));
+    expect(jsonBytes(kept)).toBeLessThan(jsonBytes(ENTRIES));
+  });
+
+  it('counts multi-byte characters', () => {
+    const accented: TranscriptEntry[] = [{ speaker: 'usuario', text: 'ñ'.repeat(20), timestamp: ENTRIES[0].timestamp }];
+    const bytes = jsonBytes(accented);
+    expect(bytes).toBe(JSON.stringify(accented).length + 20);
+    expect(latestEntriesWithin(accented, bytes + 1)).toEqual(accented);
+    expect(latestEntriesWithin(accented, bytes - 10)).toEqual([]);
+  });
+});
@@ -0,0 +1,36 @@
+import { TranscriptEntry, TranscriptSpeaker } from '../types';
+
+export const SPEAKER_LABELS: Record<TranscriptSpeaker, string> = {
+  usuario: 'Funcionario',
+  agente: 'Soporte Sistemas',
+};
+
+// Plain-text rendering used in emails
+export function formatTranscript(entries: TranscriptEntry[]): string {
+  return entries
+    .map(entry => `[${new Date(entry.timestamp).toLocaleTimeString('es-CL')}] ${SPEAKER_LABELS[entry.speaker]}: ${entry.text}`)
+    .join('\n');
+}
+
+export function appendTranscriptToBody(body: string, entries: TranscriptEntry[] | undefined): string {
+  if (!entries?.length) return body;
+  return `${body}\n\n--- Transcripción de la llamada ---\n${formatTranscript(entries)}`;
+}
+
+// Browsers refuse keepalive requests whose body is over 64 KB
+export const KEEPALIVE_BODY_LIMIT = 64 * 1024;
+
+export const jsonBytes = (value: unknown) => new TextEncoder().encode(JSON.stringify(value)).length;
+
+// The latest entries whose JSON fits in maxBytes, oldest first
+export function latestEntriesWithin(entries: TranscriptEntry[], maxBytes: number): TranscriptEntry[] {
+  let used = 2; // []
+  let start = entries.length;
+  while (start > 0) {
+    const size = jsonBytes(entries[start - 1]) + 1;
+    if (used + size > maxBytes) break;
+    used += size;
+    start--;
+  }
+  return entries.slice(start);
+}
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { MAX_STEPS, fallbackSolution, parseSolutionResponse } from './troubleshooting';
+
+const reply = (overrides: object = {}) => JSON.stringify({
+  title: 'Balance en blanco',
+  steps: ['Revise el período seleccionado', 'Vuelva a generar el informe'],
+  difficulty: 'baja',
+  requiresTechnician: false,
+  ...overrides,
+});
+
+describe('parseSolutionResponse', () => {
+  it('reads a reply that follows the schema', () => {
+    expect(parseSolutionResponse(reply())).toEqual({
+      title: 'Balance en blanco',
+      steps: ['Revise el período seleccionado', 'Vuelva a generar el informe'],
+      difficulty: 'baja',
+      requiresTechnician: false,
+    });
+  });
+
+  it('drops the numbering the model adds to the steps and keeps the first ones', () => {
+    const steps = ['1. Cierre sesión', '2) Borre la caché', '- Ingrese de nuevo', '• Pruebe otro navegador', '* Reinicie el equipo', 'Llame a soporte'];
+    const solution = parseSolutionResponse(reply({ title: '  Sesión vencida ', steps }));
+    expect(solution?.title).toBe('Sesión vencida');
+    expect(solution?.steps).toEqual(['Cierre sesión', 'Borre la caché', 'Ingrese de nuevo', 'Pruebe otro navegador', 'Reinicie el equipo']);
+    expect(solution?.steps).toHaveLength(MAX_STEPS);
+  });
+
+  it.each([
+    ['no JSON', 'Pruebe reiniciando el equipo'],
+    ['an empty reply', undefined],
+    ['a blank title', reply({ title: '  ' })],
+    ['no steps', reply({ steps: [] })],
+    ['a blank step', reply({ steps: ['Revise el período', ' '] })],
+    ['steps that are not text', reply({ steps: [{ texto: 'Revise el período' }] })],
+    ['an unknown difficulty', reply({ difficulty: 'fácil' })],
+    ['requiresTechnician as text', reply({ requiresTechnician: 'no' })],
+  ])('rejects a reply with %s', (_case, text) => {
+    expect(parseSolutionResponse(text)).toBeNull();
+  });
+});
+
+describe('fallbackSolution', () => {
+  it('sends the case to a technician', () => {
+    expect(fallbackSolution('Tesorería')).toMatchObject({
+      title: 'Posibles Soluciones: Tesorería',
+      requiresTechnician: true,
+      fallback: true,
+    });
+  });
+});
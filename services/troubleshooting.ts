@@ -0,0 +1,56 @@
+import { Type, Schema } from '@google/genai';
+import { SolutionData, SolutionDifficulty } from '../types';
+
+export const MAX_STEPS = 5;
+const DIFFICULTIES: SolutionDifficulty[] = ['baja', 'media', 'alta'];
+
+// JSON schema requested from the model for troubleshooting tips
+export const TROUBLESHOOTING_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    title: { type: Type.STRING, description: 'Título breve del problema, en español.' },
+    steps: {
+      type: Type.ARRAY,
+      description: 'Pasos ordenados que el funcionario puede aplicar por sí mismo.',
+      items: { type: Type.STRING },
+    },
+    difficulty: { type: Type.STRING, enum: DIFFICULTIES, description: 'Dificultad estimada para un funcionario municipal.' },
+    requiresTechnician: { type: Type.BOOLEAN, description: 'true si el problema probablemente necesita a un técnico de soporte.' },
+  },
+  required: ['title', 'steps', 'difficulty', 'requiresTechnician'],
+  propertyOrdering: ['title', 'steps', 'difficulty', 'requiresTechnician'],
+};
+
+// Validates the model reply. Returns null when it does not match the schema.
+export function parseSolutionResponse(text: string | undefined): SolutionData | null {
+  let data: any;
+  try {
+    data = JSON.parse(text || '');
+  } catch {
+    return null;
+  }
+
+  const title = typeof data?.title === 'string' ? data.title.trim() : '';
+  if (!title || !Array.isArray(data.steps)) return null;
+
+  if (data.steps.length === 0 || !data.steps.every((step: unknown) => typeof step === 'string' && step.trim())) return null;
+  const steps = (data.steps as string[])
+    .map(step => step.replace(/^\s*(\d+[.)]|[-*•])\s*/, '').trim())
+    .slice(0, MAX_STEPS);
+
+  if (!DIFFICULTIES.includes(data.difficulty) || typeof data.requiresTechnician !== 'boolean') return null;
+
+  return { title, steps, difficulty: data.difficulty, requiresTechnician: data.requiresTechnician };
+}
+
+// Shown when the model fails or replies with something unusable
+export const fallbackSolution = (system: string): SolutionData => ({
+  title: `Posibles Soluciones: ${system}`,
+  steps: [
+    'No fue posible generar sugerencias automáticas para este problema.',
+    'Un técnico revisará su caso una vez registrado el ticket.',
+  ],
+  difficulty: 'media',
+  requiresTechnician: true,
+  fallback: true,
+});
@@ -5,6 +5,112 @@ export interface TicketData {
   descripcion: string;
   timestamp: string;
   ticketId?: string;
+  // Set when the ticket API was unreachable and the ticket was numbered locally
+  offline?: boolean;
+  transcript?: TranscriptEntry[];
+  // Fields whose value is not in the municipality/system catalog, kept as spoken for review
+  unverifiedFields?: CatalogField[];
+  attachments?: TicketAttachment[];
+  classification?: TicketClassification;
+  // Incident this ticket was linked to as a probable duplicate
+  parentTicketId?: string;
+  // Version of the conversation flow config used in the call
+  flowVersion?: string;
+  recording?: TicketRecording;
+  auditLog?: AuditEvent[];
+}
+
+// Audio of the call (official and agent mixed), recorded only with consent
+export interface TicketRecording {
+  mimeType: string;
+  size: number;
+  durationSeconds: number;
+  startedAt: string;
+  // When the official accepted the recording notice
+  consentAt: string;
+}
+
+export type AuditEventType = 'conexion' | 'reconexion' | 'herramienta' | 'grabacion' | 'error' | 'desconexion';
+
+// Session event kept with the ticket to show what happened during the call
+export interface AuditEvent {
+  timestamp: string;
+  type: AuditEventType;
+  detail?: string;
+}
+
+export type TicketPriority = 'critica' | 'alta' | 'media' | 'baja';
+
+export type TicketCategory = 'error' | 'requerimiento' | 'consulta' | 'capacitacion';
+
+// Assigned when the ticket is registered, from the model reply and keyword rules
+export interface TicketClassification {
+  priority: TicketPriority;
+  category: TicketCategory;
+  // Attention deadline derived from the priority's SLA
+  slaDeadline: string;
+  // Why the priority was chosen, e.g. the keyword rule that raised it
+  reason?: string;
+}
+
+// Screenshot or log file the official added during the call
+export interface TicketAttachment {
+  id: string;
+  name: string;
+  mimeType: string;
+  // Bytes of the original file
+  size: number;
+  timestamp: string;
+  // Base64 content. The ticket API stores it as a file and returns metadata only.
+  data?: string;
+}
+
+export type AnalyticsEventType = 'sesion_inicio' | 'sesion_fin' | 'ticket' | 'herramienta' | 'error' | 'correo_fallido';
+
+// Usage event recorded by LiveManager for the support metrics
+export interface AnalyticsEvent {
+  timestamp: string;
+  type: AnalyticsEventType;
+  // Groups the events of one call
+  sessionId: string;
+  ticketId?: string;
+  municipalidad?: string;
+  sistema?: string;
+  category?: TicketCategory;
+  tool?: string;
+  // Session length for sesion_fin, time to ticket for ticket, latency for herramienta
+  durationMs?: number;
+  // Whether a tool call succeeded
+  ok?: boolean;
+  detail?: string;
+}
+
+// Institutional address of the official, checked before the call starts
+export interface VerifiedEmail {
+  correo: string;
+  // Owner of the email domain in config/email-domains.json
+  municipalidad?: string;
+  // Set when the official entered the one-time code sent to the address
+  codeVerifiedAt?: string;
+  // End of the server session opened for the address; it is verified again afterwards
+  sessionExpiresAt?: string;
+}
+
+// A one-time code was mailed and is awaiting confirmation
+export interface EmailCodeRequest {
+  correo: string;
+  expiresAt: string;
+}
+
+export type CatalogField = 'municipalidad' | 'sistema';
+
+export type TranscriptSpeaker = 'usuario' | 'agente';
+
+// One turn of the call as transcribed by the Live session
+export interface TranscriptEntry {
+  speaker: TranscriptSpeaker;
+  text: string;
+  timestamp: string;
 }
 
 export interface EmailDraft {
@@ -16,15 +122,113 @@ export enum ConnectionState {
   DISCONNECTED = 'DISCONNECTED',
   CONNECTING = 'CONNECTING',
   CONNECTED = 'CONNECTED',
+  // The Live socket dropped mid-call and is being reopened
+  RECONNECTING = 'RECONNECTING',
   ERROR = 'ERROR',
 }
 
+// How the official talks to the agent; both modes share the same Live session
+export type InteractionMode = 'voz' | 'texto';
+
+// Opt-in screen sharing during a call
+export type ScreenShareState = 'inactiva' | 'activa' | 'pausada';
+
 export interface AudioVisualizerState {
   isSpeaking: boolean;
   volume: number;
 }
 
+export type SolutionDifficulty = 'baja' | 'media' | 'alta';
+
+// Knowledge base article a solution was taken from
+export interface SolutionSource {
+  id: string;
+  title: string;
+}
+
 export interface SolutionData {
   title: string;
+  // Ordered, to be applied one after the other
   steps: string[];
-}
\ No newline at end of file
+  difficulty: SolutionDifficulty;
+  requiresTechnician: boolean;
+  // Set when the model reply was unusable and generic guidance is shown instead
+  fallback?: boolean;
+  // Knowledge base articles the steps come from; absent when the model wrote them
+  sources?: SolutionSource[];
+}
+
+export type TicketStatus = 'nuevo' | 'en_curso' | 'resuelto' | 'cerrado';
+
+export interface TicketHistoryEntry {
+  timestamp: string;
+  status: TicketStatus;
+  note?: string;
+}
+
+// Note between support staff; never shown or read to the official
+export interface InternalNote {
+  timestamp: string;
+  author: string;
+  text: string;
+}
+
+export type EmailDeliveryStatus = 'pendiente' | 'enviado' | 'fallido';
+
+// Outbox state of the ticket's email to support
+export interface EmailDelivery {
+  status: EmailDeliveryStatus;
+  attempts: number;
+  lastError?: string;
+  sentAt?: string;
+  updatedAt: string;
+}
+
+// A ticket as persisted by the ticket repository
+export interface StoredTicket extends TicketData {
+  ticketId: string;
+  status: TicketStatus;
+  history: TicketHistoryEntry[];
+  emailDraft?: EmailDraft;
+  solutions?: SolutionData;
+  assignedTechnician?: string;
+  emailDelivery?: EmailDelivery;
+  internalNotes?: InternalNote[];
+  updatedAt: string;
+}
+
+// Fields the ticket API accepts when a case is opened
+export interface NewTicketInput {
+  correo: string;
+  municipalidad: string;
+  sistema: string;
+  descripcion: string;
+  solutions?: SolutionData;
+  transcript?: TranscriptEntry[];
+  unverifiedFields?: CatalogField[];
+  attachments?: TicketAttachment[];
+  classification?: TicketClassification;
+  flowVersion?: string;
+  auditLog?: AuditEvent[];
+}
+
+// Partial update accepted by PATCH /api/tickets/:id
+export interface TicketPatch {
+  status?: TicketStatus;
+  note?: string;
+  assignedTechnician?: string;
+  emailDraft?: EmailDraft;
+  solutions?: SolutionData;
+  emailDelivery?: EmailDelivery;
+  transcript?: TranscriptEntry[];
+  // Replaces the list; entries without data must already be stored
+  attachments?: TicketAttachment[];
+  // Appended to internalNotes
+  internalNote?: Omit<InternalNote, 'timestamp'>;
+  // Empty string unlinks the ticket from its incident
+  parentTicketId?: string;
+  // Replaces the list with the complete log of the call
+  auditLog?: AuditEvent[];
+  // Set by the recording upload route
+  recording?: TicketRecording;
+}
@@ -1,6 +1,7 @@
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
+import { ticketApiPlugin } from './server/ticketApi';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
@@ -9,11 +10,14 @@ export default defineConfig(({ mode }) => {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
-      define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
-      },
+      plugins: [
+        react(),
+        ticketApiPlugin({
+          dataDir: path.resolve(__dirname, env.TICKETS_DATA_DIR || 'data'),
+          emailDomainsFile: path.resolve(__dirname, 'config/email-domains.json'),
+          env,
+        }),
+      ],
       resolve: {
         alias: {
           '@': path.resolve(__dirname, '.'),